@@ -0,0 +1,84 @@
+import React from 'react';
+import { AgendaDiff, hasChanges } from '../services/agendaSnapshotService';
+
+interface AgendaDiffPanelProps {
+    diffs: AgendaDiff[];
+    showOnlyChanged: boolean;
+    onToggleOnlyChanged: (value: boolean) => void;
+}
+
+const AgendaDiffPanel: React.FC<AgendaDiffPanelProps> = ({ diffs, showOnlyChanged, onToggleOnlyChanged }) => {
+    const changed = diffs.filter(hasChanges);
+    const needMessage = diffs.reduce((sum, d) => sum + d.added.length + d.moved.length, 0);
+
+    return (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col gap-3">
+            <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                    <h3 className="font-bold text-gray-700 text-sm flex items-center gap-2">
+                        <span className="material-symbols-outlined text-primary text-lg">difference</span>
+                        Alterações desde a última versão
+                    </h3>
+                    <p className="text-[10px] text-gray-400 mt-0.5">
+                        {changed.length === 0
+                            ? 'Nenhuma alteração em relação à agenda processada anteriormente.'
+                            : `${needMessage} paciente(s) precisam de nova mensagem.`}
+                    </p>
+                </div>
+                {needMessage > 0 && (
+                    <label className="flex items-center gap-1.5 text-xs text-gray-500 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={showOnlyChanged}
+                            onChange={(e) => onToggleOnlyChanged(e.target.checked)}
+                            className="accent-primary"
+                        />
+                        Mostrar só novos e remarcados
+                    </label>
+                )}
+            </div>
+
+            {changed.map(diff => (
+                <div key={diff.snapshot.id} className="border-t border-gray-100 pt-3">
+                    <p className="text-[10px] font-bold text-gray-400 uppercase mb-2">
+                        {diff.snapshot.doctor || 'Médico não identificado'} · {diff.snapshot.date || 'Data não identificada'}
+                        <span className="normal-case font-normal"> — comparado com {new Date(diff.previous.createdAt).toLocaleString()}</span>
+                    </p>
+                    <div className="flex flex-col gap-1.5 text-xs">
+                        {diff.added.map((entry, i) => (
+                            <div key={`a${i}`} className="flex items-center gap-2 text-green-700">
+                                <span className="material-symbols-outlined text-sm">person_add</span>
+                                <span className="font-bold">{entry.time}</span> {entry.patientName}
+                                <span className="text-[10px] text-green-600/70">novo</span>
+                            </div>
+                        ))}
+                        {diff.moved.map(({ entry, previousTime }, i) => (
+                            <div key={`m${i}`} className="flex items-center gap-2 text-amber-700">
+                                <span className="material-symbols-outlined text-sm">schedule</span>
+                                <span className="font-bold">{previousTime} → {entry.time}</span> {entry.patientName}
+                            </div>
+                        ))}
+                        {diff.cancelled.map(({ entry, reason }, i) => (
+                            <div key={`c${i}`} className="flex items-center gap-2 text-red-700">
+                                <span className="material-symbols-outlined text-sm">event_busy</span>
+                                <span className="font-bold">{entry.time}</span> {entry.patientName}
+                                <span className="text-[10px] text-red-600/70">{reason === 'removed' ? 'removido da agenda' : entry.status}</span>
+                            </div>
+                        ))}
+                        {diff.freedSlots.length > 0 && (
+                            <div className="flex items-center gap-2 text-blue-700">
+                                <span className="material-symbols-outlined text-sm">event_available</span>
+                                Horários liberados: <span className="font-bold">{diff.freedSlots.join(', ')}</span>
+                            </div>
+                        )}
+                        {(diff.snapshot.freeSlotsUnknown || diff.previous.freeSlotsUnknown) && (
+                            <p className="text-[10px] text-gray-400">Horários livres não comparados: a leitura por IA não lista os horários LIVRE.</p>
+                        )}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default AgendaDiffPanel;
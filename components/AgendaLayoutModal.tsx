@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { AgendaColumn, AgendaLayoutProfile } from '../types';
+import { AGENDA_COLUMN_LABELS, DEFAULT_AGENDA_LAYOUT, validateAgendaLayout } from '../services/agendaLayoutService';
+
+interface AgendaLayoutModalProps {
+    layouts: AgendaLayoutProfile[];
+    canEdit: boolean; // Only admins may create/edit profiles
+    onSave: (layouts: AgendaLayoutProfile[]) => void;
+    onClose: () => void;
+}
+
+const ALL_COLUMNS: AgendaColumn[] = ['time', 'patient', 'event', 'insurance', 'contact', 'status'];
+
+// Keyword lists are edited as one term per line
+const toLines = (list: string[]) => list.join('\n');
+const fromLines = (text: string) => text.split('\n').map(t => t.trim()).filter(Boolean);
+
+const AgendaLayoutModal: React.FC<AgendaLayoutModalProps> = ({ layouts, canEdit, onSave, onClose }) => {
+    const [selectedId, setSelectedId] = useState<string>(layouts[0]?.id || DEFAULT_AGENDA_LAYOUT.id);
+    const [form, setForm] = useState<AgendaLayoutProfile | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+
+    const selected = layouts.find(l => l.id === selectedId) || DEFAULT_AGENDA_LAYOUT;
+    const current = form || selected;
+    const isReadOnly = !canEdit || (!form && selected.isDefault);
+
+    const startEdit = (profile: AgendaLayoutProfile) => {
+        setForm(JSON.parse(JSON.stringify(profile))); // Deep copy
+        setErrors([]);
+    };
+
+    const handleDuplicate = () => {
+        startEdit({
+            ...selected,
+            id: Date.now().toString(),
+            name: `${selected.name} (Cópia)`,
+            isDefault: false
+        });
+    };
+
+    const handleNew = () => {
+        startEdit({
+            ...DEFAULT_AGENDA_LAYOUT,
+            id: Date.now().toString(),
+            name: 'Novo Layout',
+            isDefault: false
+        });
+    };
+
+    const handleSave = () => {
+        if (!form) return;
+        const problems = validateAgendaLayout(form);
+        if (problems.length > 0) {
+            setErrors(problems);
+            return;
+        }
+        const exists = layouts.some(l => l.id === form.id);
+        onSave(exists ? layouts.map(l => l.id === form.id ? form : l) : [...layouts, form]);
+        setSelectedId(form.id);
+        setForm(null);
+        setErrors([]);
+    };
+
+    const handleDelete = () => {
+        if (selected.isDefault) return;
+        if (window.confirm(`Excluir o layout "${selected.name}"?`)) {
+            onSave(layouts.filter(l => l.id !== selected.id));
+            setSelectedId(DEFAULT_AGENDA_LAYOUT.id);
+            setForm(null);
+        }
+    };
+
+    const moveColumn = (index: number, direction: -1 | 1) => {
+        if (!form) return;
+        const target = index + direction;
+        if (target < 0 || target >= form.columns.length) return;
+        const columns = [...form.columns];
+        [columns[index], columns[target]] = [columns[target], columns[index]];
+        setForm({ ...form, columns });
+    };
+
+    const toggleColumn = (column: AgendaColumn) => {
+        if (!form) return;
+        const columns = form.columns.includes(column)
+            ? form.columns.filter(c => c !== column)
+            : [...form.columns, column];
+        setForm({ ...form, columns });
+    };
+
+    const updateHeaders = (column: AgendaColumn, text: string) => {
+        if (!form) return;
+        const labels = text.split(',').map(t => t.trim()).filter(Boolean);
+        setForm({ ...form, columnHeaders: { ...form.columnHeaders, [column]: labels } });
+    };
+
+    const updateList = (field: 'statusKeywords' | 'insuranceKeywords' | 'eventKeywords' | 'junkTerms' | 'ignoredLines' | 'stampTerms', text: string) => {
+        if (!form) return;
+        setForm({ ...form, [field]: fromLines(text) });
+    };
+
+    const listFields: { field: 'statusKeywords' | 'insuranceKeywords' | 'eventKeywords' | 'junkTerms' | 'ignoredLines' | 'stampTerms', label: string }[] = [
+        { field: 'statusKeywords', label: 'Status' },
+        { field: 'eventKeywords', label: 'Eventos' },
+        { field: 'insuranceKeywords', label: 'Convênios' },
+        { field: 'junkTerms', label: 'Termos ignorados no nome' },
+        { field: 'ignoredLines', label: 'Linhas ignoradas (cabeçalho/rodapé)' },
+        { field: 'stampTerms', label: 'Carimbos de impressão (data não é da agenda)' }
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl overflow-hidden h-[85vh] flex flex-col">
+                <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-primary text-white shrink-0">
+                    <h3 className="font-bold text-lg flex items-center gap-2">
+                        <span className="material-symbols-outlined">view_column</span>
+                        Layouts de Agenda
+                    </h3>
+                    <button onClick={onClose} className="hover:bg-white/20 rounded-full p-1 transition-colors">
+                        <span className="material-symbols-outlined">close</span>
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
+                    {/* Left: Profiles List */}
+                    <div className="md:w-1/3 p-4 overflow-y-auto border-r border-gray-100 bg-gray-50 flex flex-col gap-2">
+                        {layouts.map(l => (
+                            <button
+                                key={l.id}
+                                onClick={() => { setSelectedId(l.id); setForm(null); setErrors([]); }}
+                                className={`text-left p-3 rounded-lg border transition-all ${selectedId === l.id
+                                    ? 'border-primary bg-white ring-1 ring-primary'
+                                    : 'border-gray-200 bg-white hover:border-primary/50'
+                                    }`}
+                            >
+                                <div className="font-bold text-sm text-gray-800 truncate">{l.name}</div>
+                                <div className="text-[10px] text-gray-400 truncate">
+                                    {l.columns.map(c => AGENDA_COLUMN_LABELS[c]).join(' | ')}
+                                </div>
+                                {l.isDefault && <span className="text-[9px] font-bold uppercase text-primary">Padrão do sistema</span>}
+                            </button>
+                        ))}
+
+                        {canEdit && (
+                            <button
+                                onClick={handleNew}
+                                className="mt-2 py-2.5 border-2 border-dashed border-gray-300 rounded-lg text-sm font-bold text-gray-500 hover:border-primary hover:text-primary transition-colors flex items-center justify-center gap-1"
+                            >
+                                <span className="material-symbols-outlined text-base">add</span>
+                                Novo Layout
+                            </button>
+                        )}
+                        {!canEdit && (
+                            <p className="text-[10px] text-gray-400 italic mt-2 text-center">Apenas administradores podem editar layouts.</p>
+                        )}
+                    </div>
+
+                    {/* Right: Editor */}
+                    <div className="md:w-2/3 p-6 overflow-y-auto space-y-4">
+                        <div>
+                            <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Nome</label>
+                            <input
+                                type="text"
+                                value={current.name}
+                                disabled={isReadOnly}
+                                onChange={(e) => form && setForm({ ...form, name: e.target.value })}
+                                className="w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none disabled:bg-gray-50"
+                            />
+                        </div>
+
+                        {/* Column Order */}
+                        <div>
+                            <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Ordem das Colunas (esquerda → direita) e Títulos do Cabeçalho</label>
+                            <div className="space-y-1">
+                                {current.columns.map((c, index) => (
+                                    <div key={c} className="flex items-center gap-2 p-2 bg-gray-50 border border-gray-200 rounded-lg">
+                                        <span className="text-xs font-bold text-gray-400 w-5">{index + 1}</span>
+                                        <span className="w-40 text-sm text-gray-700 shrink-0">{AGENDA_COLUMN_LABELS[c]}</span>
+                                        <input
+                                            type="text"
+                                            value={(current.columnHeaders[c] || []).join(', ')}
+                                            disabled={isReadOnly}
+                                            onChange={(e) => updateHeaders(c, e.target.value)}
+                                            placeholder="Títulos no cabeçalho"
+                                            title="Títulos da coluna no cabeçalho do PDF (separados por vírgula)"
+                                            className="flex-1 min-w-0 p-1.5 border border-gray-200 rounded text-xs focus:border-primary outline-none disabled:bg-transparent disabled:border-transparent"
+                                        />
+                                        {!isReadOnly && (
+                                            <>
+                                                <button onClick={() => moveColumn(index, -1)} className="p-1 text-gray-400 hover:text-primary" title="Subir">
+                                                    <span className="material-symbols-outlined text-base">arrow_upward</span>
+                                                </button>
+                                                <button onClick={() => moveColumn(index, 1)} className="p-1 text-gray-400 hover:text-primary" title="Descer">
+                                                    <span className="material-symbols-outlined text-base">arrow_downward</span>
+                                                </button>
+                                                <button onClick={() => toggleColumn(c)} className="p-1 text-gray-400 hover:text-red-500" title="Remover coluna">
+                                                    <span className="material-symbols-outlined text-base">close</span>
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                            {!isReadOnly && ALL_COLUMNS.some(c => !current.columns.includes(c)) && (
+                                <div className="flex flex-wrap gap-2 mt-2">
+                                    {ALL_COLUMNS.filter(c => !current.columns.includes(c)).map(c => (
+                                        <button
+                                            key={c}
+                                            onClick={() => toggleColumn(c)}
+                                            className="text-[10px] font-bold text-primary border border-primary/30 px-2 py-1 rounded hover:bg-primary-light"
+                                        >
+                                            + {AGENDA_COLUMN_LABELS[c]}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Header Regexes */}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Regex do Médico</label>
+                                <input
+                                    type="text"
+                                    value={current.doctorHeaderPattern}
+                                    disabled={isReadOnly}
+                                    onChange={(e) => form && setForm({ ...form, doctorHeaderPattern: e.target.value })}
+                                    className="w-full p-2.5 border border-gray-300 rounded-lg text-xs font-mono focus:border-primary outline-none disabled:bg-gray-50"
+                                />
+                                <p className="text-[10px] text-gray-400 mt-1">O último grupo capturado é o nome.</p>
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Regex da Data</label>
+                                <input
+                                    type="text"
+                                    value={current.dateHeaderPattern}
+                                    disabled={isReadOnly}
+                                    onChange={(e) => form && setForm({ ...form, dateHeaderPattern: e.target.value })}
+                                    className="w-full p-2.5 border border-gray-300 rounded-lg text-xs font-mono focus:border-primary outline-none disabled:bg-gray-50"
+                                />
+                                <p className="text-[10px] text-gray-400 mt-1">O primeiro grupo capturado é a data.</p>
+                            </div>
+                        </div>
+
+                        {/* Keyword Sets */}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {listFields.map(({ field, label }) => (
+                                <div key={field}>
+                                    <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">{label}</label>
+                                    <textarea
+                                        value={toLines(current[field])}
+                                        disabled={isReadOnly}
+                                        onChange={(e) => updateList(field, e.target.value)}
+                                        className="w-full p-2.5 border border-gray-300 rounded-lg text-xs focus:border-primary outline-none resize-none h-28 disabled:bg-gray-50"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-400 text-right">Um termo por linha.</p>
+
+                        {errors.length > 0 && (
+                            <div className="p-3 bg-red-50 border border-red-100 rounded-lg">
+                                {errors.map(err => (
+                                    <p key={err} className="text-xs text-red-600 font-bold">{err}</p>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Actions */}
+                        {canEdit && (
+                            <div className="flex gap-2 pt-2">
+                                {form ? (
+                                    <>
+                                        <button
+                                            onClick={() => { setForm(null); setErrors([]); }}
+                                            className="flex-1 py-2.5 bg-gray-200 text-gray-600 rounded-lg font-bold text-sm hover:bg-gray-300 transition-colors"
+                                        >
+                                            Cancelar
+                                        </button>
+                                        <button
+                                            onClick={handleSave}
+                                            className="flex-1 py-2.5 bg-primary text-white rounded-lg font-bold text-sm hover:bg-primary-dark transition-colors flex items-center justify-center gap-2"
+                                        >
+                                            <span className="material-symbols-outlined text-base">save</span>
+                                            Salvar Layout
+                                        </button>
+                                    </>
+                                ) : (
+                                    <>
+                                        <button
+                                            onClick={handleDuplicate}
+                                            className="flex-1 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-bold text-sm hover:bg-gray-200 transition-colors flex items-center justify-center gap-2"
+                                        >
+                                            <span className="material-symbols-outlined text-base">content_copy</span>
+                                            Duplicar
+                                        </button>
+                                        {!selected.isDefault && (
+                                            <>
+                                                <button
+                                                    onClick={() => startEdit(selected)}
+                                                    className="flex-1 py-2.5 bg-blue-600 text-white rounded-lg font-bold text-sm hover:bg-blue-700 transition-colors flex items-center justify-center gap-2"
+                                                >
+                                                    <span className="material-symbols-outlined text-base">edit</span>
+                                                    Editar
+                                                </button>
+                                                <button
+                                                    onClick={handleDelete}
+                                                    className="py-2.5 px-4 text-red-600 rounded-lg font-bold text-sm hover:bg-red-50 transition-colors"
+                                                    title="Excluir"
+                                                >
+                                                    <span className="material-symbols-outlined text-base">delete</span>
+                                                </button>
+                                            </>
+                                        )}
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AgendaLayoutModal;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { AGENDA_UPLOAD_STATUS_LABELS, AgendaUpload, AgendaUploadStatus, needsColumnMapping } from '../services/agendaUploadService';
+import { isSpreadsheetFile } from '../services/spreadsheetService';
+
+interface AgendaUploadListProps {
+    uploads: AgendaUpload[];
+    disabled: boolean; // While the batch is being processed
+    onRemove: (id: string) => void;
+    onMapColumns: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<AgendaUploadStatus, { chip: string, icon: string }> = {
+    pending: { chip: 'bg-gray-100 text-gray-600 border-gray-200', icon: 'schedule' },
+    processing: { chip: 'bg-blue-50 text-blue-700 border-blue-200', icon: 'progress_activity' },
+    done: { chip: 'bg-green-50 text-green-700 border-green-200', icon: 'check_circle' },
+    error: { chip: 'bg-red-50 text-red-700 border-red-200', icon: 'error' },
+    cancelled: { chip: 'bg-amber-50 text-amber-700 border-amber-200', icon: 'block' }
+};
+
+const fileIcon = (file: File) =>
+    isSpreadsheetFile(file) ? 'table_view' : file.type.startsWith('image/') ? 'image' : 'picture_as_pdf';
+
+const AgendaUploadList: React.FC<AgendaUploadListProps> = ({ uploads, disabled, onRemove, onMapColumns }) => (
+    <div className="flex flex-col gap-1.5 max-h-56 overflow-y-auto">
+        {uploads.map(upload => (
+            <div key={upload.id} className="px-2.5 py-2 rounded-lg border border-gray-100 bg-white text-xs">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1.5 min-w-0">
+                        <span className="material-symbols-outlined text-base text-gray-400">{fileIcon(upload.file)}</span>
+                        <span className="font-bold text-gray-700 truncate" title={upload.file.name}>{upload.file.name}</span>
+                    </span>
+                    <span className="flex items-center gap-1 shrink-0">
+                        <span className={`inline-flex items-center gap-0.5 text-[9px] font-bold px-1.5 py-0.5 rounded-full border ${STATUS_STYLES[upload.status].chip}`}>
+                            <span className={`material-symbols-outlined text-[10px] ${upload.status === 'processing' ? 'animate-spin' : ''}`}>{STATUS_STYLES[upload.status].icon}</span>
+                            {AGENDA_UPLOAD_STATUS_LABELS[upload.status]}
+                            {upload.status === 'done' && upload.resultCount !== undefined && ` · ${upload.resultCount}`}
+                        </span>
+                        {!disabled && (
+                            <button
+                                onClick={() => onRemove(upload.id)}
+                                className="p-0.5 rounded text-gray-400 hover:text-red-600 transition-colors"
+                                title="Remover arquivo"
+                            >
+                                <span className="material-symbols-outlined text-sm">close</span>
+                            </button>
+                        )}
+                    </span>
+                </div>
+                {upload.error && (
+                    <p className="text-[10px] text-red-600 mt-1">{upload.error}</p>
+                )}
+                {upload.spreadsheet && (
+                    <button
+                        onClick={() => onMapColumns(upload.id)}
+                        disabled={disabled}
+                        className={`mt-1 text-[10px] font-bold flex items-center gap-0.5 hover:underline ${needsColumnMapping(upload) ? 'text-amber-700' : 'text-primary'}`}
+                    >
+                        <span className="material-symbols-outlined text-sm">table_view</span>
+                        {needsColumnMapping(upload) ? 'Mapear colunas da planilha' : 'Colunas da planilha (mapeadas)'}
+                    </button>
+                )}
+            </div>
+        ))}
+    </div>
+);
+
+export default AgendaUploadList;
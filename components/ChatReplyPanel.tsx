@@ -0,0 +1,103 @@
+import React from 'react';
+import { DocumentAnalysisResult } from '../types';
+import { appointmentKey } from '../services/outreachService';
+import { ChatReconciliation, REPLY_REVIEW_LABELS, ReplyIntent, ReplyReviewReason } from '../services/chatImportService';
+
+interface ChatReplyPanelProps {
+    report: ChatReconciliation;
+    results: DocumentAnalysisResult[]; // Batch the replies were matched against
+    onSelect: (index: number) => void;
+    onClose: () => void;
+}
+
+const REVIEW_STYLES: Record<ReplyReviewReason, string> = {
+    unclear: 'bg-gray-100 text-gray-600 border-gray-200',
+    reschedule: 'bg-amber-50 text-amber-700 border-amber-200',
+    not_found: 'bg-red-50 text-red-700 border-red-200',
+    ambiguous: 'bg-orange-50 text-orange-700 border-orange-200'
+};
+
+const ChatReplyPanel: React.FC<ChatReplyPanelProps> = ({ report, results, onSelect, onClose }) => {
+    const countOf = (intent: ReplyIntent) => report.appointments.filter(a => a.intent === intent).length;
+    const indexOf = (key: string) => results.findIndex(r => appointmentKey(r.extractedData) === key);
+
+    return (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col gap-3">
+            <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                    <h3 className="font-bold text-gray-700 text-sm flex items-center gap-2">
+                        <span className="material-symbols-outlined text-[#25D366] text-lg">mark_chat_read</span>
+                        Respostas do WhatsApp
+                    </h3>
+                    <p className="text-[10px] text-gray-400 mt-0.5">
+                        {report.chats} conversa(s) lida(s) · {countOf('confirmed')} confirmado(s), {countOf('reschedule')} reagendamento(s), {countOf('cancelled')} cancelamento(s)
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Fechar"
+                >
+                    <span className="material-symbols-outlined text-lg">close</span>
+                </button>
+            </div>
+
+            {report.errors.length > 0 && (
+                <div className="p-2.5 bg-red-50 border border-red-200 rounded-lg flex flex-col gap-1">
+                    {report.errors.map(error => (
+                        <p key={error} className="text-xs text-red-700 flex items-center gap-1.5">
+                            <span className="material-symbols-outlined text-sm">error</span>
+                            {error}
+                        </p>
+                    ))}
+                </div>
+            )}
+
+            {report.review.length === 0 ? (
+                <div className="p-3 rounded-lg border border-green-200 bg-green-50 text-xs text-green-800 flex items-center gap-2">
+                    <span className="material-symbols-outlined text-base">task_alt</span>
+                    Todas as respostas foram registradas na campanha.
+                </div>
+            ) : (
+                <div className="flex flex-col gap-1.5">
+                    <h4 className="text-[10px] font-bold text-gray-400 uppercase">Para atendimento humano ({report.review.length})</h4>
+                    <div className="flex flex-col gap-1.5 max-h-72 overflow-y-auto">
+                        {report.review.map((item, i) => {
+                            const indexes = item.keys.map(indexOf).filter(index => index >= 0);
+                            const patients = Array.from(new Set(indexes.map(index => results[index].extractedData.patientName)));
+                            const last = item.replies[item.replies.length - 1];
+                            return (
+                                <button
+                                    key={i}
+                                    onClick={() => indexes.length > 0 && onSelect(indexes[0])}
+                                    className={`text-left px-3 py-2 rounded-lg border border-gray-100 text-xs ${indexes.length > 0 ? 'hover:border-primary/40' : 'cursor-default'}`}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-bold text-gray-700 truncate">
+                                            {patients.length > 0 ? patients.join(', ') : item.contact}
+                                        </span>
+                                        <span className={`shrink-0 text-[9px] font-bold px-1.5 py-0.5 rounded-full border ${REVIEW_STYLES[item.reason]}`}>
+                                            {REPLY_REVIEW_LABELS[item.reason]}
+                                        </span>
+                                    </div>
+                                    {patients.length > 0 && (
+                                        <p className="text-[10px] text-gray-400 truncate">{item.contact}</p>
+                                    )}
+                                    <p className="text-gray-600 mt-1 whitespace-pre-wrap line-clamp-2">“{last.text}”</p>
+                                    {last.at && (
+                                        <p className="text-[10px] text-gray-400 mt-0.5">
+                                            {new Date(last.at).toLocaleString()}
+                                            {item.replies.length > 1 && ` · ${item.replies.length} mensagens`}
+                                        </p>
+                                    )}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ChatReplyPanel;
@@ -5,59 +5,8 @@ import LogoutModal from './LogoutModal';
 import UnitEditModal from './UnitEditModal';
 import { Outlet, Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-
-// --- Types for Unit Info ---
-// NOTE: I am duplicating these types here temporarily or I should move them to types.ts.
-// For now I will redefine them to ensure the state defined here matches the logic.
-// Ideally, move to a shared types file.
-type ContactType = 'address' | 'phone' | 'whatsapp' | 'email' | 'text';
-
-interface ContactItem {
-    id: string;
-    type: ContactType;
-    label?: string; // e.g., "CONSULTAS", "EXAMES"
-    value: string;  // e.g., "(14) 3235-3350"
-}
-
-interface UnitData {
-    id: string;
-    title: string;
-    items: ContactItem[];
-}
-
-// --- Default Data (Initial Seed) ---
-const INITIAL_UNITS: Record<string, UnitData> = {
-    CDU: {
-        id: 'CDU',
-        title: 'CDU – CENTRO DE DIAGNÓSTICO UNIMED',
-        items: [
-            { id: '1', type: 'address', value: 'Rua Agenor Meira, 12-34 - Centro, Bauru/SP' },
-            { id: '2', type: 'phone', label: 'CONSULTAS', value: '(14) 3235-3350 / 2106-3350' },
-            { id: '3', type: 'phone', label: 'EXAMES', value: '(14) 3235-3360 / 2106-3360' },
-            { id: '4', type: 'whatsapp', label: 'WHATSAPP ANESTESIA / CASSI', value: '(14) 99796-2690' },
-            { id: '5', type: 'whatsapp', label: 'WHATSAPP GERAL', value: '(14) 99648-4958' }
-        ]
-    },
-    SEDE: {
-        id: 'SEDE',
-        title: 'SEDE ADMINISTRATIVA',
-        items: [
-            { id: '1', type: 'address', value: 'Av. Dr. Arnaldo, 456 - Vila Nova' },
-            { id: '2', type: 'phone', label: 'RECEPÇÃO GERAL', value: '(14) 3100-0000' },
-            { id: '3', type: 'email', label: 'RH MÉDICO', value: 'rh.medico@unimedbauru.com.br' }
-        ]
-    },
-    GERENCIA: {
-        id: 'GERENCIA',
-        title: 'GERÊNCIA DE ATENDIMENTO',
-        items: [
-            { id: '1', type: 'phone', label: 'COORDENAÇÃO', value: 'Ramal 5544' },
-            { id: '2', type: 'whatsapp', label: 'SUPORTE TI', value: '(14) 99999-8888' },
-            { id: '3', type: 'text', label: 'HORÁRIO', value: 'Seg-Sex: 08h às 18h' }
-        ]
-    }
-};
-
+import { UnitData } from '../types';
+import { loadUnits, saveUnits } from '../services/unitService';
 import NotificationDrawer from './NotificationDrawer';
 
 const Layout: React.FC = () => {
@@ -67,17 +16,14 @@ const Layout: React.FC = () => {
     const [unreadCount, setUnreadCount] = useState(0);
 
     // --- Unit Info State ---
-    const [unitsData, setUnitsData] = useState<Record<string, UnitData>>(() => {
-        const saved = localStorage.getItem('mediportal_units_info');
-        return saved ? JSON.parse(saved) : INITIAL_UNITS;
-    });
+    const [unitsData, setUnitsData] = useState<Record<string, UnitData>>(() => loadUnits());
 
     // --- Edit Modal State ---
     const [editingUnitId, setEditingUnitId] = useState<string | null>(null);
 
-    // Persist units data
+    // Persist units data (also refreshes the contacts used in AgendaAI messages)
     useEffect(() => {
-        localStorage.setItem('mediportal_units_info', JSON.stringify(unitsData));
+        saveUnits(unitsData);
     }, [unitsData]);
 
     // Dark Mode Logic
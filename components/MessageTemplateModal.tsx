@@ -0,0 +1,244 @@
+import React, { useRef, useState } from 'react';
+import { MessageTemplate, MessageTemplateType, PatientNameFormat } from '../types';
+import {
+    TEMPLATE_PLACEHOLDERS,
+    TemplateValues,
+    getDefaultTemplate,
+    renderTemplate,
+    validateTemplate
+} from '../services/messageTemplateService';
+import { DEFAULT_UNIT_VALUES, UnitTemplateValues } from '../services/unitService';
+import { DEFAULT_PATIENT_NAME_FORMAT, PATIENT_NAME_FORMAT_LABELS, formatPatientName } from '../services/patientNameService';
+import { detectProcedureDetails, procedureTemplateValues } from '../services/procedureService';
+
+interface MessageTemplateModalProps {
+    templates: MessageTemplate[];
+    canEdit: boolean; // Only admins may change the patient messages
+    userName?: string;
+    initialTemplateId?: MessageTemplateType;
+    unitValues?: UnitTemplateValues; // Contacts shown in the preview (default: CDU)
+    onSave: (templates: MessageTemplate[]) => Promise<void>; // Rejects when the shared copy could not be updated
+    onClose: () => void;
+}
+
+const SAMPLE_PREP = 'Comparecer com 30 minutos de antecedência. Trazer óculos em uso.';
+
+const MessageTemplateModal: React.FC<MessageTemplateModalProps> = ({ templates, canEdit, userName, initialTemplateId, unitValues = DEFAULT_UNIT_VALUES, onSave, onClose }) => {
+    const [selectedId, setSelectedId] = useState<MessageTemplateType>(initialTemplateId || templates[0].id);
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [nameFormatDrafts, setNameFormatDrafts] = useState<Record<string, PatientNameFormat>>({});
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [previewWithPrep, setPreviewWithPrep] = useState(true);
+    const editorRef = useRef<HTMLTextAreaElement>(null);
+
+    const selected = templates.find(t => t.id === selectedId) || templates[0];
+    const body = drafts[selectedId] ?? selected.body;
+    const savedNameFormat = selected.nameFormat || DEFAULT_PATIENT_NAME_FORMAT;
+    const nameFormat = nameFormatDrafts[selectedId] ?? savedNameFormat;
+    const isDirty = (drafts[selectedId] !== undefined && drafts[selectedId] !== selected.body) || nameFormat !== savedNameFormat;
+
+    const sampleValues: TemplateValues = {
+        ...unitValues,
+        paciente: formatPatientName('MARIA DA SILVA SANTOS', nameFormat),
+        medico: 'Dr. João Souza',
+        data: '25/11/2025',
+        hora: '13:00',
+        procedimento: 'Mapeamento de Retina',
+        preparo: previewWithPrep ? SAMPLE_PREP : '',
+        ...procedureTemplateValues(detectProcedureDetails('Mapeamento de Retina', 'Guia autorizada'), '13:00'),
+        assinatura: userName || 'Atendimento Unimed'
+    };
+
+    const setBody = (text: string) => {
+        setDrafts(prev => ({ ...prev, [selectedId]: text }));
+        setErrors([]);
+    };
+
+    // Inserts the placeholder at the cursor position
+    const insertPlaceholder = (token: string) => {
+        const el = editorRef.current;
+        if (!el) return setBody(body + token);
+        const start = el.selectionStart;
+        const end = el.selectionEnd;
+        setBody(body.slice(0, start) + token + body.slice(end));
+        requestAnimationFrame(() => {
+            el.focus();
+            el.selectionStart = el.selectionEnd = start + token.length;
+        });
+    };
+
+    const handleSave = async () => {
+        const problems = validateTemplate(body);
+        if (problems.length > 0) {
+            setErrors(problems);
+            return;
+        }
+        setSaving(true);
+        try {
+            await onSave(templates.map(t => t.id === selectedId
+                ? { ...t, body, nameFormat, updatedAt: new Date().toISOString(), updatedBy: userName }
+                : t
+            ));
+        } catch (error: any) {
+            // The draft stays in the editor so nothing typed is lost
+            setErrors([`Erro ao salvar modelo: ${error.message || 'Erro desconhecido'}`]);
+            return;
+        } finally {
+            setSaving(false);
+        }
+        setDrafts(prev => {
+            const next = { ...prev };
+            delete next[selectedId];
+            return next;
+        });
+        setNameFormatDrafts(prev => {
+            const next = { ...prev };
+            delete next[selectedId];
+            return next;
+        });
+    };
+
+    const handleRestoreDefault = () => {
+        if (window.confirm(`Restaurar o texto original do modelo "${selected.name}"?`)) {
+            setBody(getDefaultTemplate(selectedId).body);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-6xl overflow-hidden h-[85vh] flex flex-col">
+                <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-primary text-white shrink-0">
+                    <h3 className="font-bold text-lg flex items-center gap-2">
+                        <span className="material-symbols-outlined">edit_note</span>
+                        Modelos de Mensagem
+                    </h3>
+                    <button onClick={onClose} className="hover:bg-white/20 rounded-full p-1 transition-colors">
+                        <span className="material-symbols-outlined">close</span>
+                    </button>
+                </div>
+
+                {/* Template Tabs */}
+                <div className="px-6 pt-4 flex gap-2 shrink-0 border-b border-gray-100">
+                    {templates.map(t => (
+                        <button
+                            key={t.id}
+                            onClick={() => { setSelectedId(t.id); setErrors([]); }}
+                            className={`px-4 py-2 text-xs font-bold rounded-t-lg border-b-2 transition-colors ${selectedId === t.id
+                                ? 'border-primary text-primary bg-primary-light/20'
+                                : 'border-transparent text-gray-500 hover:text-gray-700'
+                                }`}
+                        >
+                            {t.name}
+                            {((drafts[t.id] !== undefined && drafts[t.id] !== t.body) ||
+                                (nameFormatDrafts[t.id] !== undefined && nameFormatDrafts[t.id] !== (t.nameFormat || DEFAULT_PATIENT_NAME_FORMAT))) && ' •'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
+                    {/* Left: Editor */}
+                    <div className="md:w-1/2 p-4 flex flex-col gap-3 overflow-y-auto border-r border-gray-100">
+                        {canEdit && (
+                            <div className="flex flex-wrap gap-1.5">
+                                {TEMPLATE_PLACEHOLDERS.map(p => (
+                                    <button
+                                        key={p.key}
+                                        onClick={() => insertPlaceholder(`{${p.key}}`)}
+                                        title={p.label}
+                                        className="px-2 py-1 text-[10px] font-mono font-bold bg-gray-100 text-gray-600 rounded hover:bg-primary-light hover:text-primary transition-colors"
+                                    >
+                                        {`{${p.key}}`}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <textarea
+                            ref={editorRef}
+                            value={body}
+                            onChange={(e) => setBody(e.target.value)}
+                            readOnly={!canEdit}
+                            className="flex-1 min-h-[300px] w-full bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm font-mono leading-relaxed focus:border-primary outline-none resize-none"
+                        />
+                        <p className="text-[10px] text-gray-400 leading-relaxed">
+                            Use <span className="font-mono">{'{#preparo}'}...{'{/preparo}'}</span> para mostrar um trecho apenas quando o campo estiver preenchido,
+                            e <span className="font-mono">{'{^preparo}'}...{'{/preparo}'}</span> quando estiver vazio.
+                        </p>
+                        <label className="flex items-center gap-2 text-xs text-gray-500">
+                            <span className="font-bold uppercase text-[10px] text-gray-400">Nome do paciente</span>
+                            <select
+                                value={nameFormat}
+                                onChange={(e) => setNameFormatDrafts(prev => ({ ...prev, [selectedId]: e.target.value as PatientNameFormat }))}
+                                disabled={!canEdit}
+                                className="p-1.5 border border-gray-200 rounded-lg text-xs outline-none bg-white text-gray-600 disabled:opacity-60"
+                            >
+                                {(Object.keys(PATIENT_NAME_FORMAT_LABELS) as PatientNameFormat[]).map(f => (
+                                    <option key={f} value={f}>{PATIENT_NAME_FORMAT_LABELS[f]}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {selected.updatedAt && (
+                            <p className="text-[10px] text-gray-400">
+                                Última alteração: {new Date(selected.updatedAt).toLocaleString()}{selected.updatedBy && ` por ${selected.updatedBy}`}
+                            </p>
+                        )}
+
+                        {errors.length > 0 && (
+                            <div className="p-3 bg-red-50 border border-red-100 rounded-lg">
+                                {errors.map(err => (
+                                    <p key={err} className="text-xs text-red-600 font-bold">{err}</p>
+                                ))}
+                            </div>
+                        )}
+
+                        {canEdit ? (
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleRestoreDefault}
+                                    className="flex-1 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-bold text-sm hover:bg-gray-200 transition-colors flex items-center justify-center gap-2"
+                                >
+                                    <span className="material-symbols-outlined text-base">restart_alt</span>
+                                    Texto Original
+                                </button>
+                                <button
+                                    onClick={handleSave}
+                                    disabled={!isDirty || saving}
+                                    className={`flex-1 py-2.5 rounded-lg font-bold text-sm transition-colors flex items-center justify-center gap-2 ${isDirty && !saving
+                                        ? 'bg-primary text-white hover:bg-primary-dark'
+                                        : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                                        }`}
+                                >
+                                    <span className="material-symbols-outlined text-base">save</span>
+                                    {saving ? 'Salvando...' : 'Salvar Modelo'}
+                                </button>
+                            </div>
+                        ) : (
+                            <p className="text-xs text-gray-400 text-center">Somente administradores podem alterar os modelos.</p>
+                        )}
+                    </div>
+
+                    {/* Right: Live Preview */}
+                    <div className="md:w-1/2 p-4 bg-gray-50 flex flex-col gap-3 overflow-y-auto">
+                        <div className="flex items-center justify-between">
+                            <h4 className="text-[10px] font-bold text-gray-400 uppercase">Pré-visualização</h4>
+                            <label className="flex items-center gap-1.5 text-xs text-gray-500 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={previewWithPrep}
+                                    onChange={(e) => setPreviewWithPrep(e.target.checked)}
+                                    className="accent-primary"
+                                />
+                                Com preparo
+                            </label>
+                        </div>
+                        <div className="bg-[#dcf8c6] rounded-lg p-4 shadow-sm text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+                            {renderTemplate(body, sampleValues)}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MessageTemplateModal;
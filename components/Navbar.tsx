@@ -1,21 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-
-// --- Types ---
-type ContactType = 'address' | 'phone' | 'whatsapp' | 'email' | 'text';
-
-interface ContactItem {
-    id: string;
-    type: ContactType;
-    label?: string;
-    value: string;
-}
-
-interface UnitData {
-    id: string;
-    title: string;
-    items: ContactItem[];
-}
+import { ContactType, UnitData } from '../types';
 
 interface NavbarProps {
     unitsData: Record<string, UnitData>;
@@ -52,6 +37,7 @@ const Navbar: React.FC<NavbarProps> = ({
             case 'phone': return 'call';
             case 'whatsapp': return 'chat';
             case 'email': return 'mail';
+            case 'floor': return 'apartment';
             default: return 'info';
         }
     };
@@ -0,0 +1,158 @@
+import React from 'react';
+import { OutreachCampaign, OutreachStatus } from '../types';
+import { OUTREACH_STATUS_LABELS, campaignProgress } from '../services/outreachService';
+
+interface OutreachCampaignPanelProps {
+    campaign: OutreachCampaign;
+    selectedEntryId: string | null;
+    onStatusChange: (entryId: string, status: OutreachStatus) => void;
+    onToggleClosed: () => void;
+    onImportChats?: (files: File[]) => void; // Exported WhatsApp chats with the patients' replies
+}
+
+export const OUTREACH_STATUS_STYLES: Record<OutreachStatus, { bar: string, chip: string, icon: string }> = {
+    not_sent: { bar: 'bg-gray-200', chip: 'bg-gray-100 text-gray-600 border-gray-200', icon: 'schedule_send' },
+    sent: { bar: 'bg-blue-400', chip: 'bg-blue-50 text-blue-700 border-blue-200', icon: 'send' },
+    confirmed: { bar: 'bg-green-500', chip: 'bg-green-50 text-green-700 border-green-200', icon: 'check_circle' },
+    reschedule: { bar: 'bg-amber-400', chip: 'bg-amber-50 text-amber-700 border-amber-200', icon: 'event_repeat' },
+    cancelled: { bar: 'bg-rose-500', chip: 'bg-rose-50 text-rose-700 border-rose-200', icon: 'event_busy' },
+    no_answer: { bar: 'bg-orange-300', chip: 'bg-orange-50 text-orange-700 border-orange-200', icon: 'phone_missed' },
+    wrong_number: { bar: 'bg-red-400', chip: 'bg-red-50 text-red-700 border-red-200', icon: 'phone_disabled' }
+};
+
+const STATUS_ORDER: OutreachStatus[] = ['confirmed', 'reschedule', 'cancelled', 'sent', 'no_answer', 'wrong_number', 'not_sent'];
+
+const OutreachCampaignPanel: React.FC<OutreachCampaignPanelProps> = ({ campaign, selectedEntryId, onStatusChange, onToggleClosed, onImportChats }) => {
+    const [total, ...doctors] = campaignProgress(campaign);
+    const selectedEntry = campaign.entries.find(e => e.id === selectedEntryId) || null;
+
+    const renderBar = (counts: Record<OutreachStatus, number>, size: number) => (
+        <div className="flex h-2 w-full rounded-full overflow-hidden bg-gray-100">
+            {STATUS_ORDER.filter(s => counts[s] > 0).map(status => (
+                <div
+                    key={status}
+                    className={OUTREACH_STATUS_STYLES[status].bar}
+                    style={{ width: `${(counts[status] / size) * 100}%` }}
+                    title={`${OUTREACH_STATUS_LABELS[status]}: ${counts[status]}`}
+                />
+            ))}
+        </div>
+    );
+
+    return (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col gap-4">
+            {/* Header */}
+            <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                    <h3 className="font-bold text-gray-700 text-sm flex items-center gap-2">
+                        <span className="material-symbols-outlined text-primary text-lg">campaign</span>
+                        {campaign.name}
+                        {campaign.closedAt && (
+                            <span className="text-[10px] font-bold uppercase bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">Encerrada</span>
+                        )}
+                    </h3>
+                    <p className="text-[10px] text-gray-400 mt-0.5">
+                        Criada em {new Date(campaign.createdAt).toLocaleString()} por {campaign.createdBy}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    {onImportChats && !campaign.closedAt && (
+                        <label
+                            className="text-[10px] font-bold uppercase px-3 py-1.5 rounded-lg border border-gray-200 text-gray-500 hover:border-[#25D366] hover:text-[#128C7E] transition-colors flex items-center gap-1 cursor-pointer"
+                            title="Conversas exportadas do WhatsApp (.txt ou .zip)"
+                        >
+                            <span className="material-symbols-outlined text-sm">mark_chat_read</span>
+                            Importar respostas
+                            <input
+                                type="file"
+                                accept=".txt,.zip"
+                                multiple
+                                className="hidden"
+                                onChange={(e) => {
+                                    if (e.target.files && e.target.files.length > 0) onImportChats(Array.from(e.target.files));
+                                    e.target.value = '';
+                                }}
+                            />
+                        </label>
+                    )}
+                    <button
+                        onClick={onToggleClosed}
+                        className="text-[10px] font-bold uppercase px-3 py-1.5 rounded-lg border border-gray-200 text-gray-500 hover:border-primary hover:text-primary transition-colors flex items-center gap-1"
+                    >
+                        <span className="material-symbols-outlined text-sm">{campaign.closedAt ? 'lock_open' : 'lock'}</span>
+                        {campaign.closedAt ? 'Reabrir' : 'Encerrar'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Overall Progress */}
+            <div>
+                <div className="flex justify-between text-xs font-bold text-gray-600 mb-1">
+                    <span>Concluídos</span>
+                    <span>{total.done} / {total.total}</span>
+                </div>
+                {renderBar(total.counts, total.total || 1)}
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                    {STATUS_ORDER.filter(s => total.counts[s] > 0).map(status => (
+                        <span key={status} className={`text-[10px] font-bold px-2 py-0.5 rounded-full border ${OUTREACH_STATUS_STYLES[status].chip}`}>
+                            {OUTREACH_STATUS_LABELS[status]}: {total.counts[status]}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            {/* Per Doctor */}
+            {doctors.length > 1 && (
+                <div className="flex flex-col gap-2">
+                    <h4 className="text-[10px] font-bold text-gray-400 uppercase">Por médico</h4>
+                    {doctors.map(row => (
+                        <div key={row.doctor}>
+                            <div className="flex justify-between text-[11px] text-gray-600 mb-0.5">
+                                <span className="truncate pr-2">{row.doctor}</span>
+                                <span className="font-bold shrink-0">{row.done} / {row.total}</span>
+                            </div>
+                            {renderBar(row.counts, row.total)}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Selected Patient Status */}
+            {selectedEntry && (
+                <div className="border-t border-gray-100 pt-3">
+                    <h4 className="text-[10px] font-bold text-gray-400 uppercase mb-2">
+                        Retorno de {selectedEntry.result.extractedData.patientName}
+                    </h4>
+                    <div className="flex flex-wrap gap-1.5">
+                        {(Object.keys(OUTREACH_STATUS_LABELS) as OutreachStatus[]).map(status => (
+                            <button
+                                key={status}
+                                onClick={() => onStatusChange(selectedEntry.id, status)}
+                                disabled={!!campaign.closedAt}
+                                className={`text-[11px] font-bold px-2.5 py-1 rounded-lg border flex items-center gap-1 transition-all disabled:opacity-50 ${selectedEntry.status === status
+                                    ? `${OUTREACH_STATUS_STYLES[status].chip} ring-1 ring-current`
+                                    : 'bg-white text-gray-500 border-gray-200 hover:border-gray-400'
+                                    }`}
+                            >
+                                <span className="material-symbols-outlined text-sm">{OUTREACH_STATUS_STYLES[status].icon}</span>
+                                {OUTREACH_STATUS_LABELS[status]}
+                            </button>
+                        ))}
+                    </div>
+                    {selectedEntry.history.length > 0 && (
+                        <ul className="mt-2 flex flex-col gap-0.5">
+                            {[...selectedEntry.history].reverse().slice(0, 5).map((event, i) => (
+                                <li key={i} className="text-[10px] text-gray-400">
+                                    {new Date(event.at).toLocaleString()} · {OUTREACH_STATUS_LABELS[event.status]} · {event.by}
+                                    {event.note && ` · ${event.note}`}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OutreachCampaignPanel;
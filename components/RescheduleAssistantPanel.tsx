@@ -0,0 +1,81 @@
+import React from 'react';
+import { DocumentAnalysisResult, FreeSlot, SlotReservation } from '../types';
+import { appointmentKey } from '../services/outreachService';
+import { availableSlotsFor } from '../services/rescheduleService';
+
+interface RescheduleAssistantPanelProps {
+    entries: { result: DocumentAnalysisResult, index: number }[];
+    slots: FreeSlot[];
+    reservations: SlotReservation[];
+    selectedIndex: number | null;
+    onAssign: (index: number, slot: FreeSlot | null) => void;
+    onSelect: (index: number) => void;
+}
+
+const RescheduleAssistantPanel: React.FC<RescheduleAssistantPanelProps> = ({ entries, slots, reservations, selectedIndex, onAssign, onSelect }) => {
+    const assigned = entries.filter(e => e.result.newSlot).length;
+    const reservedIds = new Set(reservations.map(r => r.slotId));
+    const freeCount = slots.filter(s => !reservedIds.has(s.id)).length;
+
+    return (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col gap-3">
+            <div>
+                <h3 className="font-bold text-gray-700 text-sm flex items-center gap-2">
+                    <span className="material-symbols-outlined text-primary text-lg">event_repeat</span>
+                    Assistente de Reagendamento ({assigned}/{entries.length})
+                </h3>
+                <p className="text-[10px] text-gray-400 mt-0.5">
+                    {slots.length === 0
+                        ? 'Nenhum horário livre encontrado nas agendas carregadas a partir de hoje.'
+                        : `${freeCount} horário(s) livre(s) disponível(is) nas agendas carregadas. Cada horário é oferecido a um único paciente.`}
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-1.5 max-h-72 overflow-y-auto">
+                {entries.map(({ result, index }) => {
+                    const data = result.extractedData;
+                    const key = appointmentKey(data);
+                    const options = availableSlotsFor(data.doctorName, key, slots, reservations);
+                    const current = reservations.find(r => r.appointmentKey === key)?.slotId || '';
+                    const dates = Array.from(new Set(options.map(o => o.date)));
+                    return (
+                        <div
+                            key={key}
+                            className={`flex flex-wrap items-center justify-between gap-2 px-3 py-2 rounded-lg border text-xs ${selectedIndex === index ? 'border-primary bg-primary-light/10' : 'border-gray-100'}`}
+                        >
+                            <button onClick={() => onSelect(index)} className="min-w-0 text-left">
+                                <p className="font-bold text-gray-700 truncate">{data.patientName}</p>
+                                <p className="text-[10px] text-gray-400 truncate">
+                                    {data.doctorName || 'Médico não identificado'} · antes {data.date} {data.time}
+                                </p>
+                            </button>
+                            {options.length === 0 && !current ? (
+                                <span className="text-[10px] font-bold text-amber-700 flex items-center gap-1">
+                                    <span className="material-symbols-outlined text-sm">event_busy</span>
+                                    Sem horários livres
+                                </span>
+                            ) : (
+                                <select
+                                    value={current}
+                                    onChange={(e) => onAssign(index, options.find(o => o.id === e.target.value) || null)}
+                                    className={`p-1.5 border rounded-lg text-xs outline-none ${current ? 'bg-green-50 border-green-300 text-green-800' : 'bg-white border-gray-200 text-gray-600'}`}
+                                >
+                                    <option value="">Escolher novo horário</option>
+                                    {dates.map(date => (
+                                        <optgroup key={date} label={date}>
+                                            {options.filter(o => o.date === date).map(slot => (
+                                                <option key={slot.id} value={slot.id}>{slot.date} às {slot.time}</option>
+                                            ))}
+                                        </optgroup>
+                                    ))}
+                                </select>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default RescheduleAssistantPanel;
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { SendQueue, SendQueueItem, SendQueueItemState } from '../types';
+import { SEND_QUEUE_INTERVAL_MS, SEND_QUEUE_STATE_LABELS, currentQueueItem, queueCounts } from '../services/sendQueueService';
+import { formatPhone, pickWhatsappPhone } from '../services/phoneService';
+
+interface SendQueuePanelProps {
+    queue: SendQueue;
+    resumed: boolean; // Restored from a previous session (page reload)
+    onSend: (item: SendQueueItem) => void;
+    onSkip: (item: SendQueueItem) => void;
+    onRequeue: (item: SendQueueItem) => void;
+    onTogglePause: () => void;
+    onClose: () => void;
+}
+
+const STATE_STYLES: Record<SendQueueItemState, { chip: string, icon: string }> = {
+    pending: { chip: 'bg-gray-100 text-gray-600 border-gray-200', icon: 'schedule_send' },
+    sent: { chip: 'bg-green-50 text-green-700 border-green-200', icon: 'check_circle' },
+    skipped: { chip: 'bg-amber-50 text-amber-700 border-amber-200', icon: 'redo' },
+    invalid: { chip: 'bg-red-50 text-red-700 border-red-200', icon: 'phone_disabled' }
+};
+
+const SendQueuePanel: React.FC<SendQueuePanelProps> = ({ queue, resumed, onSend, onSkip, onRequeue, onTogglePause, onClose }) => {
+    const counts = queueCounts(queue);
+    const current = currentQueueItem(queue);
+    const done = queue.items.length - counts.pending;
+
+    // Pacing: the next send is only enabled some seconds after the last one
+    const lastSentAt = Math.max(0, ...queue.items.filter(i => i.state === 'sent' && i.at).map(i => new Date(i.at!).getTime()));
+    const [now, setNow] = useState(() => Date.now());
+    const waitSeconds = Math.max(0, Math.ceil((lastSentAt + SEND_QUEUE_INTERVAL_MS - now) / 1000));
+    const waiting = waitSeconds > 0;
+
+    useEffect(() => {
+        if (!waiting) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 500);
+        return () => clearInterval(timer);
+    }, [waiting, lastSentAt]);
+
+    const phone = current ? pickWhatsappPhone(current.result.extractedData.contact) : null;
+
+    return (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col gap-4">
+            {/* Header */}
+            <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                    <h3 className="font-bold text-gray-700 text-sm flex items-center gap-2">
+                        <span className="material-symbols-outlined text-primary text-lg">send_to_mobile</span>
+                        Fila de Envio ({done}/{queue.items.length})
+                        {queue.paused && (
+                            <span className="text-[10px] font-bold uppercase bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">Pausada</span>
+                        )}
+                    </h3>
+                    <p className="text-[10px] text-gray-400 mt-0.5">
+                        {resumed ? 'Fila retomada de ' : 'Iniciada em '}
+                        {new Date(queue.createdAt).toLocaleString()} por {queue.createdBy}
+                        {' · '}{counts.sent} enviado(s), {counts.skipped} pulado(s), {counts.invalid} sem celular
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    {current && (
+                        <button
+                            onClick={onTogglePause}
+                            className="text-[10px] font-bold uppercase px-3 py-1.5 rounded-lg border border-gray-200 text-gray-500 hover:border-primary hover:text-primary transition-colors flex items-center gap-1"
+                        >
+                            <span className="material-symbols-outlined text-sm">{queue.paused ? 'play_arrow' : 'pause'}</span>
+                            {queue.paused ? 'Retomar' : 'Pausar'}
+                        </button>
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="text-[10px] font-bold uppercase px-3 py-1.5 rounded-lg border border-gray-200 text-gray-500 hover:border-red-300 hover:text-red-600 transition-colors flex items-center gap-1"
+                    >
+                        <span className="material-symbols-outlined text-sm">close</span>
+                        Encerrar fila
+                    </button>
+                </div>
+            </div>
+
+            {/* Progress */}
+            <div className="flex h-2 w-full rounded-full overflow-hidden bg-gray-100">
+                <div className="bg-green-500" style={{ width: `${(counts.sent / Math.max(1, queue.items.length)) * 100}%` }} />
+                <div className="bg-amber-400" style={{ width: `${(counts.skipped / Math.max(1, queue.items.length)) * 100}%` }} />
+                <div className="bg-red-400" style={{ width: `${(counts.invalid / Math.max(1, queue.items.length)) * 100}%` }} />
+            </div>
+
+            {/* Current patient */}
+            {current ? (
+                <div className="p-4 rounded-lg border border-primary/30 bg-primary-light/10 flex flex-col gap-3">
+                    <div>
+                        <p className="text-[10px] font-bold text-gray-400 uppercase">Próximo envio</p>
+                        <p className="font-bold text-gray-800">{current.result.extractedData.patientName}</p>
+                        <p className="text-xs text-gray-500">
+                            {current.result.extractedData.time} · {current.result.extractedData.doctorName || 'Médico não identificado'}
+                            {phone && <> · {formatPhone(phone)}</>}
+                        </p>
+                    </div>
+                    <p className="text-xs text-gray-600 whitespace-pre-wrap line-clamp-4 bg-white border border-gray-100 rounded-lg p-2">
+                        {current.result.generatedMessage}
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => onSend(current)}
+                            disabled={queue.paused || waiting}
+                            className="flex-1 py-2.5 font-bold text-sm text-white bg-[#25D366] hover:bg-[#20bd5a] disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2 rounded-lg"
+                        >
+                            <span className="material-symbols-outlined">send</span>
+                            {queue.paused ? 'Fila pausada' : waiting ? `Aguarde ${waitSeconds}s` : 'Abrir WhatsApp'}
+                        </button>
+                        <button
+                            onClick={() => onSkip(current)}
+                            disabled={queue.paused}
+                            className="px-4 py-2.5 font-bold text-sm text-gray-600 border border-gray-200 hover:border-amber-300 hover:text-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1 rounded-lg"
+                        >
+                            <span className="material-symbols-outlined text-lg">redo</span>
+                            Pular
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="p-4 rounded-lg border border-green-200 bg-green-50 text-sm text-green-800 flex items-center gap-2">
+                    <span className="material-symbols-outlined">task_alt</span>
+                    Fila concluída. Pacientes pulados podem voltar para a fila na lista abaixo.
+                </div>
+            )}
+
+            {/* All rows */}
+            <div className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+                {queue.items.map(item => (
+                    <div
+                        key={item.id}
+                        className={`flex items-center justify-between gap-2 text-xs px-2 py-1.5 rounded-lg ${item === current ? 'bg-primary-light/20' : ''}`}
+                    >
+                        <span className="flex items-center gap-2 min-w-0">
+                            <span className="font-bold text-gray-500 w-10 shrink-0">{item.result.extractedData.time}</span>
+                            <span className="truncate text-gray-700">{item.result.extractedData.patientName}</span>
+                        </span>
+                        <span className="flex items-center gap-1.5 shrink-0">
+                            {item.state === 'skipped' && (
+                                <button
+                                    onClick={() => onRequeue(item)}
+                                    className="text-[10px] font-bold text-primary hover:underline"
+                                >
+                                    Voltar à fila
+                                </button>
+                            )}
+                            <span className={`inline-flex items-center gap-0.5 text-[9px] font-bold px-1.5 py-0.5 rounded-full border ${STATE_STYLES[item.state].chip}`}>
+                                <span className="material-symbols-outlined text-[10px]">{STATE_STYLES[item.state].icon}</span>
+                                {SEND_QUEUE_STATE_LABELS[item.state]}
+                            </span>
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SendQueuePanel;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import {
+    SpreadsheetData,
+    SpreadsheetColumnMapping,
+    SpreadsheetField,
+    SPREADSHEET_FIELD_LABELS,
+    readSpreadsheetField,
+    validateSpreadsheetMapping
+} from '../services/spreadsheetService';
+
+interface SpreadsheetMappingModalProps {
+    fileName: string;
+    data: SpreadsheetData;
+    initialMapping: SpreadsheetColumnMapping;
+    onConfirm: (mapping: SpreadsheetColumnMapping) => void;
+    onClose: () => void;
+}
+
+const FIELDS = Object.keys(SPREADSHEET_FIELD_LABELS) as SpreadsheetField[];
+const PREVIEW_ROWS = 5;
+
+const SpreadsheetMappingModal: React.FC<SpreadsheetMappingModalProps> = ({ fileName, data, initialMapping, onConfirm, onClose }) => {
+    const [mapping, setMapping] = useState<SpreadsheetColumnMapping>(initialMapping);
+    const [errors, setErrors] = useState<string[]>([]);
+
+    const mappedFields = FIELDS.filter(f => mapping[f]);
+
+    const handleChange = (field: SpreadsheetField, header: string) => {
+        const next = { ...mapping };
+        if (header) next[field] = header;
+        else delete next[field];
+        setMapping(next);
+        setErrors([]);
+    };
+
+    const handleConfirm = () => {
+        const problems = validateSpreadsheetMapping(mapping);
+        if (problems.length > 0) {
+            setErrors(problems);
+            return;
+        }
+        onConfirm(mapping);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl overflow-hidden max-h-[85vh] flex flex-col">
+                <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-primary text-white shrink-0">
+                    <h3 className="font-bold text-lg flex items-center gap-2">
+                        <span className="material-symbols-outlined">table_view</span>
+                        Mapear Colunas da Planilha
+                    </h3>
+                    <button onClick={onClose} className="hover:bg-white/20 rounded-full p-1 transition-colors">
+                        <span className="material-symbols-outlined">close</span>
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-5">
+                    <p className="text-xs text-gray-500">
+                        <span className="font-bold text-gray-700">{fileName}</span> · {data.rows.length} linhas.
+                        O mapeamento fica salvo para as próximas planilhas com as mesmas colunas.
+                    </p>
+
+                    {/* Field -> Column */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {FIELDS.map(field => (
+                            <div key={field}>
+                                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">
+                                    {SPREADSHEET_FIELD_LABELS[field]}
+                                    {(field === 'patientName' || field === 'time') && <span className="text-red-500"> *</span>}
+                                </label>
+                                <select
+                                    value={mapping[field] || ''}
+                                    onChange={(e) => handleChange(field, e.target.value)}
+                                    className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm focus:border-primary outline-none"
+                                >
+                                    <option value="">Não importar</option>
+                                    {data.headers.map(header => (
+                                        <option key={header} value={header}>{header}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Preview */}
+                    {mappedFields.length > 0 && (
+                        <div>
+                            <h4 className="text-[10px] font-bold text-gray-400 uppercase mb-2">Prévia</h4>
+                            <div className="overflow-x-auto border border-gray-100 rounded-lg">
+                                <table className="w-full text-xs">
+                                    <thead className="bg-gray-50 text-gray-500">
+                                        <tr>
+                                            {mappedFields.map(field => (
+                                                <th key={field} className="text-left px-3 py-2 font-bold whitespace-nowrap">{SPREADSHEET_FIELD_LABELS[field]}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {data.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                                            <tr key={i} className="border-t border-gray-100 text-gray-700">
+                                                {mappedFields.map(field => (
+                                                    <td key={field} className="px-3 py-2 whitespace-nowrap">
+                                                        {readSpreadsheetField(data, row, mapping, field)}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
+                    {errors.length > 0 && (
+                        <div className="p-3 bg-red-50 border border-red-100 rounded-lg">
+                            {errors.map(err => (
+                                <p key={err} className="text-xs text-red-600 font-bold">{err}</p>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="px-6 py-4 border-t border-gray-100 flex gap-2 shrink-0">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 py-2.5 bg-gray-200 text-gray-600 rounded-lg font-bold text-sm hover:bg-gray-300 transition-colors"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        className="flex-1 py-2.5 bg-primary text-white rounded-lg font-bold text-sm hover:bg-primary-dark transition-colors flex items-center justify-center gap-2"
+                    >
+                        <span className="material-symbols-outlined text-base">check</span>
+                        Importar Agenda
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SpreadsheetMappingModal;
@@ -1,19 +1,5 @@
 import React, { useState, useEffect } from 'react';
-
-type ContactType = 'address' | 'phone' | 'whatsapp' | 'email' | 'text';
-
-interface ContactItem {
-    id: string;
-    type: ContactType;
-    label?: string;
-    value: string;
-}
-
-interface UnitData {
-    id: string;
-    title: string;
-    items: ContactItem[];
-}
+import { ContactType, ContactItem, UnitData } from '../types';
 
 interface UnitEditModalProps {
     unitData: UnitData;
@@ -54,6 +40,19 @@ const UnitEditModal: React.FC<UnitEditModalProps> = ({ unitData, onSave, onCance
         });
     };
 
+    // Only one item per type is used in patient messages
+    const handleToggleMessageItem = (itemId: string) => {
+        const target = editForm.items.find(i => i.id === itemId);
+        if (!target) return;
+        setEditForm({
+            ...editForm,
+            items: editForm.items.map(item => {
+                if (item.id === itemId) return { ...item, useInMessages: !item.useInMessages };
+                return item.type === target.type ? { ...item, useInMessages: false } : item;
+            })
+        });
+    };
+
     const handleSave = () => {
         onSave(editForm);
     };
@@ -80,6 +79,18 @@ const UnitEditModal: React.FC<UnitEditModalProps> = ({ unitData, onSave, onCance
                         />
                     </div>
 
+                    {/* Display Name (used in patient messages) */}
+                    <div className="mb-6">
+                        <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Nome nas Mensagens</label>
+                        <input
+                            type="text"
+                            value={editForm.displayName || ''}
+                            onChange={(e) => setEditForm({ ...editForm, displayName: e.target.value })}
+                            placeholder="Ex: Centro de Diagnóstico Unimed (CDU)"
+                            className="w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none"
+                        />
+                    </div>
+
                     {/* Items List */}
                     <div className="space-y-4">
                         <div className="flex justify-between items-center border-b border-gray-100 pb-2">
@@ -107,6 +118,7 @@ const UnitEditModal: React.FC<UnitEditModalProps> = ({ unitData, onSave, onCance
                                         <option value="phone">Telefone</option>
                                         <option value="whatsapp">WhatsApp</option>
                                         <option value="email">Email</option>
+                                        <option value="floor">Andar / Setor</option>
                                     </select>
                                 </div>
 
@@ -126,6 +138,17 @@ const UnitEditModal: React.FC<UnitEditModalProps> = ({ unitData, onSave, onCance
                                         placeholder="Valor (ex: (14) 9999-9999)"
                                         className="w-full p-2 border border-gray-300 rounded text-xs focus:border-primary outline-none"
                                     />
+                                    {['address', 'phone', 'whatsapp', 'floor'].includes(item.type) && (
+                                        <label className="flex items-center gap-1.5 text-[10px] font-bold text-gray-500 uppercase cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!item.useInMessages}
+                                                onChange={() => handleToggleMessageItem(item.id)}
+                                                className="accent-primary"
+                                            />
+                                            Usar nas mensagens aos pacientes
+                                        </label>
+                                    )}
                                 </div>
 
                                 {/* Delete Button */}
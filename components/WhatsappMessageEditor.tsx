@@ -0,0 +1,135 @@
+import React, { useEffect, useRef } from 'react';
+import {
+    WHATSAPP_LONG_MESSAGE_CHARS,
+    WhatsappEdit,
+    WhatsappSegment,
+    checkWhatsappMessage,
+    parseWhatsappMessage,
+    toggleWhatsappList,
+    toggleWhatsappMarker
+} from '../services/whatsappFormatService';
+
+interface WhatsappMessageEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    placeholder?: string;
+    className?: string; // Sizing of the editor inside the parent layout
+    previewText?: (value: string) => string; // E.g. [MEU_NOME] replaced by the user's name
+}
+
+const TOOLBAR: { icon: string, title: string, apply: (text: string, start: number, end: number) => WhatsappEdit }[] = [
+    { icon: 'format_bold', title: 'Negrito (*texto*)', apply: (text, start, end) => toggleWhatsappMarker(text, start, end, '*') },
+    { icon: 'format_italic', title: 'Itálico (_texto_)', apply: (text, start, end) => toggleWhatsappMarker(text, start, end, '_') },
+    { icon: 'strikethrough_s', title: 'Tachado (~texto~)', apply: (text, start, end) => toggleWhatsappMarker(text, start, end, '~') },
+    { icon: 'code', title: 'Monoespaçado (```texto```)', apply: (text, start, end) => toggleWhatsappMarker(text, start, end, '```') },
+    { icon: 'format_list_bulleted', title: 'Lista (- item)', apply: (text, start, end) => toggleWhatsappList(text, start, end, 'bullet') },
+    { icon: 'format_list_numbered', title: 'Lista numerada (1. item)', apply: (text, start, end) => toggleWhatsappList(text, start, end, 'numbered') }
+];
+
+const segmentClass = (segment: WhatsappSegment) => [
+    segment.bold ? 'font-bold' : '',
+    segment.italic ? 'italic' : '',
+    segment.strike ? 'line-through' : '',
+    segment.mono ? 'font-mono text-[13px]' : ''
+].filter(Boolean).join(' ');
+
+/**
+ * Message textarea with the WhatsApp markup toolbar and a preview of how the
+ * patient will see it.
+ */
+const WhatsappMessageEditor: React.FC<WhatsappMessageEditorProps> = ({ value, onChange, placeholder, className = '', previewText }) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    // Selection to restore once the edited value is rendered
+    const pendingSelection = useRef<[number, number] | null>(null);
+
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea || !pendingSelection.current) return;
+        textarea.focus();
+        textarea.setSelectionRange(...pendingSelection.current);
+        pendingSelection.current = null;
+    }, [value]);
+
+    const handleToolbar = (apply: (text: string, start: number, end: number) => WhatsappEdit) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const edit = apply(value, textarea.selectionStart, textarea.selectionEnd);
+        pendingSelection.current = [edit.selectionStart, edit.selectionEnd];
+        onChange(edit.text);
+    };
+
+    const preview = previewText ? previewText(value) : value;
+    const lines = parseWhatsappMessage(preview);
+    const warnings = checkWhatsappMessage(value);
+
+    return (
+        <div className={`flex flex-col gap-2 ${className}`}>
+            {/* Toolbar */}
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-0.5">
+                    {TOOLBAR.map(button => (
+                        <button
+                            key={button.icon}
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()} // Keeps the textarea selection
+                            onClick={() => handleToolbar(button.apply)}
+                            className="p-1 rounded text-gray-500 hover:bg-gray-100 hover:text-primary transition-colors flex items-center"
+                            title={button.title}
+                        >
+                            <span className="material-symbols-outlined text-lg">{button.icon}</span>
+                        </button>
+                    ))}
+                </div>
+                <span className={`text-[10px] font-bold ${value.length > WHATSAPP_LONG_MESSAGE_CHARS ? 'text-amber-700' : 'text-gray-400'}`}>
+                    {value.length} caracteres
+                </span>
+            </div>
+
+            {/* Editor and preview side by side */}
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-3 min-h-[200px]">
+                <textarea
+                    ref={textareaRef}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={placeholder}
+                    className="w-full h-full min-h-[200px] bg-gray-50 rounded-lg p-4 border border-gray-200 resize-none outline-none text-gray-800 text-sm leading-relaxed focus:border-primary transition-all"
+                />
+                <div className="rounded-lg bg-[#efeae2] p-4 overflow-y-auto min-h-[200px]">
+                    <p className="text-[10px] font-bold text-gray-500 uppercase mb-2">Como o paciente verá</p>
+                    <div className="bg-[#d9fdd3] rounded-lg rounded-tr-none shadow-sm px-3 py-2 text-sm text-gray-800 leading-relaxed break-words">
+                        {value.trim() ? lines.map((line, index) => (
+                            <div
+                                key={index}
+                                className={`whitespace-pre-wrap min-h-[1.25rem] ${line.kind === 'quote' ? 'border-l-4 border-gray-400/50 pl-2 text-gray-600' : ''} ${line.kind === 'bullet' || line.kind === 'numbered' ? 'flex gap-1.5 pl-1' : ''}`}
+                            >
+                                {line.kind === 'bullet' && <span>•</span>}
+                                {line.kind === 'numbered' && <span>{line.marker}</span>}
+                                <span>
+                                    {line.segments.map((segment, segmentIndex) => (
+                                        <span key={segmentIndex} className={segmentClass(segment)}>{segment.text}</span>
+                                    ))}
+                                </span>
+                            </div>
+                        )) : (
+                            <span className="text-gray-400 italic">Mensagem vazia</span>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Markup problems and length */}
+            {warnings.length > 0 && (
+                <div className="p-2.5 bg-amber-50 border border-amber-200 rounded-lg flex flex-col gap-1">
+                    {warnings.map(warning => (
+                        <p key={warning.message} className="text-xs text-amber-700 font-bold flex items-center gap-1.5">
+                            <span className="material-symbols-outlined text-sm">{warning.kind === 'long' ? 'short_text' : 'format_clear'}</span>
+                            {warning.message}
+                        </p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WhatsappMessageEditor;
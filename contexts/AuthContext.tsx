@@ -43,7 +43,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       if (error) {
         console.error('Error fetching profile:', error);
       } else if (data) {
-        setUser(data as User);
+        // Table column is snake_case (is_admin)
+        setUser({ ...data, isAdmin: !!(data.is_admin ?? data.isAdmin) } as User);
       }
     } catch (err) {
       console.error('Unexpected error fetching profile:', err);
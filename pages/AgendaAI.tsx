@@ -1,7 +1,58 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { processDocumentLocally } from '../services/localDocumentService';
-import { ExtractedData, DocumentAnalysisResult, Preparation } from '../types';
+import { buildLocalResults, generateResultMessage, ParsedAppointment } from '../services/localDocumentService';
+import {
+    assignPreparation, buildSpecialtyLookup, deletePreparation, fetchPreparations, fetchPreparationVersions, hasPreparationRules,
+    dismissLegacyPreparations, fetchDeletedPreparations, findLegacyPreparations, importLegacyPreparations, loadCachedPreparations, parseRuleKeywords,
+    restoreDeletedPreparation, restorePreparationVersion, savePreparation, subscribeToPreparations
+} from '../services/preparationService';
+import { ANALYSIS_ENGINE_LABELS, ANALYSIS_STAGE_LABELS, AnalysisError, AnalysisOutput, AnalysisProgress, AnalysisServiceType, analysisProgress, loadAnalysisProviderId } from '../services/analysisProvider';
+import { getAnalysisProvider, runAnalysisWithFallback } from '../services/analysisProviders';
+import { AgendaUpload, addAgendaFiles, needsColumnMapping } from '../services/agendaUploadService';
+import { AgendaDiff, appointmentsFromResults, buildSnapshots, changedAppointmentKeys, diffSnapshots, findLatestSnapshot, loadSnapshots, saveSnapshots } from '../services/agendaSnapshotService';
+import { loadAgendaLayouts, saveAgendaLayouts, findAgendaLayout, DEFAULT_AGENDA_LAYOUT } from '../services/agendaLayoutService';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/ocrService';
+import {
+    SpreadsheetColumnMapping,
+    isSpreadsheetFile,
+    readSpreadsheet,
+    guessSpreadsheetMapping,
+    loadSpreadsheetMapping,
+    saveSpreadsheetMapping,
+    spreadsheetToAppointments
+} from '../services/spreadsheetService';
+import { ExtractedData, DocumentAnalysisResult, Doctor, Preparation, PreparationAssignment, PreparationVersion, FreeSlot, SlotReservation, AgendaLayoutProfile, FieldConfidence, MessageTemplate, OutreachCampaign, OutreachStatus, PatientNameFormat, ProcedureDetails, SendQueue, SendQueueItem } from '../types';
+import { ARRIVAL_OFFSET_OPTIONS, DEFAULT_PROCEDURE_DETAILS, PROCEDURE_AUTHORIZATION_LABELS, detectProcedureDetails, procedureTemplateValues } from '../services/procedureService';
 import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../services/supabase';
+import AgendaLayoutModal from '../components/AgendaLayoutModal';
+import SpreadsheetMappingModal from '../components/SpreadsheetMappingModal';
+import MessageTemplateModal from '../components/MessageTemplateModal';
+import { loadMessageTemplates, fetchMessageTemplates, saveMessageTemplate, subscribeToMessageTemplates, getMessageTemplate, renderTemplate } from '../services/messageTemplateService';
+import { loadUnits, listUnitMessageOptions, resolveUnitMessageOption, UNITS_UPDATED_EVENT } from '../services/unitService';
+import { PATIENT_NAME_FORMAT_LABELS, formatPatientName, loadUserNameFormat, resolvePatientNameFormat, saveUserNameFormat } from '../services/patientNameService';
+import { buildWhatsappUrl, formatPhone, hasWhatsappPhone, pickWhatsappPhone } from '../services/phoneService';
+import { isPrivacyModeActive } from '../services/redactionService';
+import {
+    loadCampaigns,
+    saveCampaigns,
+    createCampaign,
+    appointmentKey,
+    updateEntryStatus,
+    updateEntryMessage,
+    setCampaignClosed,
+    OUTREACH_STATUS_LABELS
+} from '../services/outreachService';
+import AgendaDiffPanel from '../components/AgendaDiffPanel';
+import OutreachCampaignPanel, { OUTREACH_STATUS_STYLES } from '../components/OutreachCampaignPanel';
+import SendQueuePanel from '../components/SendQueuePanel';
+import AgendaUploadList from '../components/AgendaUploadList';
+import RescheduleAssistantPanel from '../components/RescheduleAssistantPanel';
+import ChatReplyPanel from '../components/ChatReplyPanel';
+import { ChatReconciliation, REPLY_INTENT_STATUS, readChatExports, reconcileChatReplies } from '../services/chatImportService';
+import WhatsappMessageEditor from '../components/WhatsappMessageEditor';
+import { fetchReservations, listFreeSlots, pruneReservations, reserveSlot, subscribeToReservations } from '../services/rescheduleService';
+import { buildExportRows, exportBatchCsv, exportBatchXlsx, exportCallSheetPdf } from '../services/batchExportService';
+import { createSendQueue, currentQueueItem, loadSendQueue, saveSendQueue, setQueueItemState, setQueuePaused } from '../services/sendQueueService';
 
 interface AgendaAIProps {
     type?: 'reschedule' | 'confirmation' | 'procedure_confirmation' | 'daily_summary';
@@ -9,51 +60,211 @@ interface AgendaAIProps {
 
 const AgendaAI: React.FC<AgendaAIProps> = ({ type = 'reschedule' }) => {
     const { user } = useAuth();
-    const [file, setFile] = useState<File | null>(null);
+    // Files of the batch, processed one after the other
+    const [uploads, setUploads] = useState<AgendaUpload[]>([]);
+    const [dragActive, setDragActive] = useState(false);
     const [loading, setLoading] = useState(false);
     const [progress, setProgress] = useState(0);
+    const [progressStep, setProgressStep] = useState<AnalysisProgress | null>(null);
+    const analysisAbortRef = useRef<AbortController | null>(null);
     const [mode, setMode] = useState<'individual' | 'batch'>('individual');
 
     // Preparation Management State
-    const [preparations, setPreparations] = useState<Preparation[]>([]);
+    // Shared library (Supabase); the cached copy is shown until the first fetch
+    const [preparations, setPreparations] = useState<Preparation[]>(() => loadCachedPreparations());
+    const [prepLibraryError, setPrepLibraryError] = useState<string | null>(null);
+    // Preparations this browser kept locally before the shared library, not imported yet
+    const [legacyPreparations, setLegacyPreparations] = useState<Preparation[]>([]);
+    const [savingPrep, setSavingPrep] = useState(false);
+    const [historyPrep, setHistoryPrep] = useState<Preparation | null>(null);
+    const [prepVersions, setPrepVersions] = useState<PreparationVersion[]>([]);
+    const [showDeletedPreps, setShowDeletedPreps] = useState(false);
+    const [deletedPreparations, setDeletedPreparations] = useState<Preparation[]>([]);
     const [selectedPrepId, setSelectedPrepId] = useState<string>('');
     const [showPrepModal, setShowPrepModal] = useState(false);
     const [viewingPrep, setViewingPrep] = useState<Preparation | null>(null);
 
     // Prep Form State
-    const [newPrep, setNewPrep] = useState({ title: '', text: '' });
+    const [newPrep, setNewPrep] = useState({ title: '', text: '', procedures: '', doctors: '', specialties: '' });
     const [editingPrepId, setEditingPrepId] = useState<string | null>(null);
 
-    // Load preparations from localStorage on mount
+    // Agenda Layout Profiles (column order / keywords used by the local parser)
+    const [layouts, setLayouts] = useState<AgendaLayoutProfile[]>(() => loadAgendaLayouts());
+    const [selectedLayoutId, setSelectedLayoutId] = useState<string>(
+        () => localStorage.getItem('mediportal_agenda_layout_selected') || DEFAULT_AGENDA_LAYOUT.id
+    );
+    const [showLayoutModal, setShowLayoutModal] = useState(false);
+    const isAdmin = !!user?.isAdmin;
+
+    // 'columns' rebuilds table cells from PDF coordinates instead of guessing from joined lines
+    const [extractionMode, setExtractionMode] = useState<'text' | 'columns'>(
+        () => (localStorage.getItem('mediportal_agenda_extraction_mode') as 'text' | 'columns') || 'text'
+    );
+
     useEffect(() => {
-        const savedPreps = localStorage.getItem('mediportal_preparations');
-        if (savedPreps) {
-            setPreparations(JSON.parse(savedPreps));
-        } else {
-            // Default mocks if empty
-            const defaults: Preparation[] = [
-                { id: '1', title: 'Jejum 8h', text: 'Necessário jejum absoluto de 8 horas (inclusive água).' },
-                { id: '2', title: 'Bexiga Cheia', text: 'Tomar 4 copos de água 1 hora antes do exame e não urinar.' },
-                { id: '3', title: 'Chegar com Antecedência', text: 'Chegar com 30 minutos de antecedência para dilatação da pupila.' }
-            ];
-            setPreparations(defaults);
-            localStorage.setItem('mediportal_preparations', JSON.stringify(defaults));
-        }
+        localStorage.setItem('mediportal_agenda_layout_selected', selectedLayoutId);
+    }, [selectedLayoutId]);
+
+    useEffect(() => {
+        localStorage.setItem('mediportal_agenda_extraction_mode', extractionMode);
+    }, [extractionMode]);
+
+    const handleSaveLayouts = (updated: AgendaLayoutProfile[]) => {
+        setLayouts(updated);
+        saveAgendaLayouts(updated);
+        if (!updated.some(l => l.id === selectedLayoutId)) setSelectedLayoutId(DEFAULT_AGENDA_LAYOUT.id);
+    };
+
+    // Patient message templates (edited by admins, shared by manual and file modes)
+    const [messageTemplates, setMessageTemplates] = useState<MessageTemplate[]>(() => loadMessageTemplates());
+    const [showTemplateModal, setShowTemplateModal] = useState(false);
+
+    // Only the edited template goes to the shared table; errors are shown by the modal
+    const handleSaveTemplates = async (updated: MessageTemplate[]) => {
+        const saved = await Promise.all(updated.filter(t => !messageTemplates.includes(t)).map(saveMessageTemplate));
+        setMessageTemplates(prev => prev.map(t => saved.find(s => s.id === t.id) || t));
+    };
+
+    // Unit / floor whose contacts (address, phone, WhatsApp) go into the messages
+    const [units, setUnits] = useState(() => loadUnits());
+    const [selectedUnitKey, setSelectedUnitKey] = useState<string>(
+        () => localStorage.getItem('mediportal_agenda_unit_selected') || 'CDU'
+    );
+    const unitOptions = listUnitMessageOptions(units);
+    const unitValues = resolveUnitMessageOption(units, selectedUnitKey);
+
+    useEffect(() => {
+        localStorage.setItem('mediportal_agenda_unit_selected', selectedUnitKey);
+    }, [selectedUnitKey]);
+
+    // Set when the chosen reader failed validation and another one produced the rows
+    const [analysisNotice, setAnalysisNotice] = useState<string | null>(null);
+
+    // Shown next to the reader; the admin setting lives in Supabase
+    const [privacyModeActive, setPrivacyModeActive] = useState(false);
+    useEffect(() => {
+        isPrivacyModeActive().then(setPrivacyModeActive);
     }, []);
 
-    // Save preparations when updated
+    // Differences against the previous version of the uploaded agenda
+    const [agendaDiffs, setAgendaDiffs] = useState<AgendaDiff[]>([]);
+    const [showOnlyChanged, setShowOnlyChanged] = useState(false);
+
+    // WhatsApp send queue of this page's type, kept in localStorage so a reload can resume it
+    const [sendQueue, setSendQueue] = useState<SendQueue | null>(null);
+    const [queueResumed, setQueueResumed] = useState(false);
+
+    // Reschedule assistant: free slots of the stored agendas and the ones already promised to patients
+    // (reservations are shared in Supabase, so every receptionist sees the slots taken by the others)
+    const [freeSlots, setFreeSlots] = useState<FreeSlot[]>([]);
+    const [allReservations, setAllReservations] = useState<SlotReservation[]>([]);
+    const reservations = pruneReservations(allReservations, freeSlots);
+
+    const refreshFreeSlots = () => {
+        setFreeSlots(listFreeSlots(loadSnapshots()));
+    };
+
     useEffect(() => {
-        if (preparations.length > 0) {
-            localStorage.setItem('mediportal_preparations', JSON.stringify(preparations));
-        }
-    }, [preparations]);
+        if (type !== 'reschedule') return;
+        const refresh = () => fetchReservations()
+            .then(setAllReservations)
+            .catch(error => console.error('Error fetching slot reservations:', error));
+        refresh();
+        return subscribeToReservations(refresh);
+    }, [type]);
+
+    // Template used by this page's messages
+    const templateId = type === 'procedure_confirmation' || type === 'reschedule' ? type : 'confirmation';
+
+    // Patient name format chosen by this user (null = follow the template)
+    const [userNameFormat, setUserNameFormat] = useState<PatientNameFormat | null>(() => loadUserNameFormat(user?.id));
+
+    useEffect(() => {
+        setUserNameFormat(loadUserNameFormat(user?.id));
+    }, [user?.id]);
+
+    const handleNameFormatChange = (format: PatientNameFormat | null) => {
+        setUserNameFormat(format);
+        if (user?.id) saveUserNameFormat(user.id, format);
+    };
+
+    // Edits in the unit boards (UnitEditModal) apply to the next generated message
+    useEffect(() => {
+        const refreshUnits = () => setUnits(loadUnits());
+        window.addEventListener(UNITS_UPDATED_EVENT, refreshUnits);
+        return () => window.removeEventListener(UNITS_UPDATED_EVENT, refreshUnits);
+    }, []);
+
+    // Doctors' specialties, used by the preparation rules
+    const [doctors, setDoctors] = useState<Doctor[]>([]);
+
+    useEffect(() => {
+        const fetchDoctors = async () => {
+            try {
+                const { data, error } = await supabase
+                    .from('profiles')
+                    .select('*')
+                    .eq('role', 'doctor');
+
+                if (error) throw error;
+
+                if (data) {
+                    setDoctors(data.map((p: any) => ({
+                        id: p.id,
+                        name: p.name || 'Sem Nome',
+                        specialty: p.specialty || '',
+                        phone: p.phone || '',
+                        avatar: p.avatar || '',
+                        color: p.color || '',
+                        status: (p.status as any) || 'active'
+                    })));
+                }
+            } catch (error) {
+                console.error('Error fetching doctors:', error);
+            }
+        };
+        fetchDoctors();
+    }, []);
+
+    // Load the shared preparation library and follow changes made by other users
+    useEffect(() => {
+        const refresh = () => fetchPreparations()
+            .then(list => {
+                setPreparations(list);
+                setLegacyPreparations(findLegacyPreparations(list));
+                setPrepLibraryError(null);
+            })
+            .catch(error => {
+                console.error('Error fetching preparations:', error);
+                setPrepLibraryError('Biblioteca de preparos indisponível. Exibindo a última cópia salva neste navegador.');
+            });
+        refresh();
+        return subscribeToPreparations(refresh);
+    }, []);
+
+    // Load the shared message templates and follow the edits made by admins
+    useEffect(() => {
+        const refresh = () => fetchMessageTemplates()
+            .then(setMessageTemplates)
+            .catch(error => console.error('Error fetching message templates:', error));
+        refresh();
+        return subscribeToMessageTemplates(refresh);
+    }, []);
 
     // Helper to reset internal state
     const resetState = () => {
-        setFile(null);
+        setUploads([]);
+        setActiveCampaignId(null);
+        setChatReport(null);
+        setMappingUploadId(null);
         setIndividualResult(null);
         setBatchResults([]);
         setSelectedBatchIndex(null);
+        setBatchDoctorFilter('');
+        setBatchDateFilter('');
+        setAgendaDiffs([]);
+        setShowOnlyChanged(false);
+        setAnalysisNotice(null);
         setManualForm({
             patientName: '',
             doctorName: '',
@@ -62,6 +273,7 @@ const AgendaAI: React.FC<AgendaAIProps> = ({ type = 'reschedule' }) => {
             contact: '',
             procedure: ''
         });
+        setManualProcedure(DEFAULT_PROCEDURE_DETAILS);
         setContext('');
         setProgress(0);
         setSelectedPrepId('');
@@ -74,12 +286,23 @@ const AgendaAI: React.FC<AgendaAIProps> = ({ type = 'reschedule' }) => {
     useEffect(() => {
         resetState();
 
+        // An interrupted queue of this type is shown again (batch mode, where the panel lives)
+        const savedQueue = loadSendQueue();
+        const resumable = savedQueue && savedQueue.type === type && currentQueueItem(savedQueue) ? savedQueue : null;
+        setSendQueue(resumable);
+        setQueueResumed(!!resumable);
+
+        if (type === 'reschedule') refreshFreeSlots();
+
         // Logic to enforce specific modes based on type
-        if (type === 'procedure_confirmation') {
-            setMode('individual');
-        } else if (type === 'daily_summary') {
+        if (type === 'daily_summary' || resumable) {
             setMode('batch');
+        } else if (type === 'procedure_confirmation') {
+            setMode('individual');
         }
+
+        // Leaving the page (or switching type) stops a reading still in progress
+        return () => analysisAbortRef.current?.abort();
     }, [type]);
 
     // Helper to get user's short name (First 2 names)
@@ -109,11 +332,29 @@ const AgendaAI: React.FC<AgendaAIProps> = ({ type = 'reschedule' }) => {
         procedure: ''
     });
 
+    // Procedure confirmations (manual mode): arrival, companion and guia
+    const [manualProcedure, setManualProcedure] = useState<ProcedureDetails>(DEFAULT_PROCEDURE_DETAILS);
+
     const [individualResult, setIndividualResult] = useState<DocumentAnalysisResult | null>(null);
     const [batchResults, setBatchResults] = useState<DocumentAnalysisResult[]>([]);
     // Index of the currently selected patient in batch mode
     const [selectedBatchIndex, setSelectedBatchIndex] = useState<number | null>(null);
 
+    // Batch grouping/filtering (agendas may hold several doctors or days)
+    const [batchGroupBy, setBatchGroupBy] = useState<'none' | 'file' | 'doctor' | 'date'>('none');
+    const [batchDoctorFilter, setBatchDoctorFilter] = useState('');
+    const [batchDateFilter, setBatchDateFilter] = useState('');
+
+    // Spreadsheet (CSV/XLSX) import - mapping is remembered per export format
+    const [mappingUploadId, setMappingUploadId] = useState<string | null>(null);
+    const mappingUpload = uploads.find(u => u.id === mappingUploadId) || null;
+
+    // Outreach tracking (who was contacted and what they answered), one campaign per batch
+    const [campaigns, setCampaigns] = useState<OutreachCampaign[]>(() => loadCampaigns());
+    const [activeCampaignId, setActiveCampaignId] = useState<string | null>(null);
+    // Last import of exported WhatsApp chats (replies recorded + those left for a person)
+    const [chatReport, setChatReport] = useState<ChatReconciliation | null>(null);
+
     const [context, setContext] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -128,7 +369,7 @@ const AgendaAI: React.FC<AgendaAIProps> = ({ type = 'reschedule' }) => {
 
     // Intelligent check to see if there is data to clear (more robust check)
     const hasData =
-        file !== null ||
+        uploads.length > 0 ||
         batchResults.length > 0 ||
         individualResult !== null ||
         manualForm.patientName !== '' ||
@@ -140,62 +381,193 @@ const AgendaAI: React.FC<AgendaAIProps> = ({ type = 'reschedule' }) => {
         resetState();
     };
 
+    const addFiles = async (selected: File[]) => {
+        const { queue, added, rejected } = addAgendaFiles(uploads, selected);
+        if (rejected.length > 0) alert(`Formato não suportado (use PDF, foto ou planilha): ${rejected.join(', ')}`);
+        if (added.length === 0) return;
+        setUploads(queue);
+        setBatchResults([]);
+        setIndividualResult(null); // Clear summary result
+        setSelectedBatchIndex(null);
+        setProgress(0);
+
+        for (const upload of added.filter(u => isSpreadsheetFile(u.file))) {
+            try {
+                const data = await readSpreadsheet(upload.file);
+                const saved = loadSpreadsheetMapping(data.signature);
+                updateUpload(upload.id, { spreadsheet: data, mapping: saved });
+                // First time we see this export format: ask how the columns map
+                if (!saved) setMappingUploadId(upload.id);
+            } catch (error: any) {
+                updateUpload(upload.id, { status: 'error', error: error.message });
+            }
+        }
+    };
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            setFile(e.target.files[0]);
-            setBatchResults([]);
-            setIndividualResult(null); // Clear summary result
-            setSelectedBatchIndex(null);
-            setProgress(0);
+        if (e.target.files && e.target.files.length > 0) {
+            addFiles(Array.from(e.target.files));
         }
+        // Lets the same file be picked again after being removed
+        e.target.value = '';
+    };
+
+    const handleFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setDragActive(false);
+        if (!loading && e.dataTransfer.files.length > 0) addFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const handleRemoveUpload = (id: string) => {
+        setUploads(prev => prev.filter(u => u.id !== id));
+    };
+
+    const handleConfirmMapping = (mapping: SpreadsheetColumnMapping) => {
+        if (!mappingUpload?.spreadsheet) return;
+        saveSpreadsheetMapping(mappingUpload.spreadsheet.signature, mapping);
+        // Other files of the same export format share the mapping
+        const signature = mappingUpload.spreadsheet.signature;
+        setUploads(prev => prev.map(u => u.spreadsheet?.signature === signature ? { ...u, mapping } : u));
+        setMappingUploadId(null);
     };
 
     const handleManualInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { name, value } = e.target;
         setManualForm(prev => ({ ...prev, [name]: value }));
+        // Sedation, dilation... suggest the companion notice (can still be unchecked)
+        if (name === 'procedure') {
+            setManualProcedure(prev => ({ ...prev, companionRequired: detectProcedureDetails(value).companionRequired }));
+        }
     };
 
     // --- PREPARATION HANDLERS ---
 
-    const handleSavePreparation = () => {
-        if (!newPrep.title.trim() || !newPrep.text.trim()) return;
+    const EMPTY_PREP_FORM = { title: '', text: '', procedures: '', doctors: '', specialties: '' };
+
+    const handleSavePreparation = async () => {
+        if (!isAdmin || !newPrep.title.trim() || !newPrep.text.trim()) return;
+        const rules = {
+            procedures: parseRuleKeywords(newPrep.procedures),
+            doctors: parseRuleKeywords(newPrep.doctors),
+            specialties: parseRuleKeywords(newPrep.specialties)
+        };
 
-        if (editingPrepId) {
-            // Update existing
-            setPreparations(prev => prev.map(p =>
-                p.id === editingPrepId ? { ...p, title: newPrep.title, text: newPrep.text } : p
-            ));
+        setSavingPrep(true);
+        try {
+            const saved = await savePreparation({ id: editingPrepId || undefined, title: newPrep.title, text: newPrep.text, rules });
+            setPreparations(prev => prev.some(p => p.id === saved.id)
+                ? prev.map(p => p.id === saved.id ? saved : p)
+                : [...prev, saved]);
+            // Auto select a new one
+            if (!editingPrepId) setSelectedPrepId(saved.id);
             setEditingPrepId(null);
-        } else {
-            // Create new
-            const newItem: Preparation = {
-                id: Date.now().toString(),
-                title: newPrep.title,
-                text: newPrep.text
-            };
-            setPreparations([...preparations, newItem]);
-            // Auto select the new one
-            setSelectedPrepId(newItem.id);
+            setNewPrep(EMPTY_PREP_FORM);
+        } catch (error: any) {
+            console.error('Error saving preparation:', error);
+            alert(`Erro ao salvar preparo: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setSavingPrep(false);
         }
-        // Reset form
-        setNewPrep({ title: '', text: '' });
     };
 
     const handleEditPreparation = (prep: Preparation) => {
-        setNewPrep({ title: prep.title, text: prep.text });
+        setNewPrep({
+            title: prep.title,
+            text: prep.text,
+            procedures: prep.rules?.procedures.join(', ') || '',
+            doctors: prep.rules?.doctors.join(', ') || '',
+            specialties: prep.rules?.specialties.join(', ') || ''
+        });
         setEditingPrepId(prep.id);
     };
 
     const handleCancelEditPrep = () => {
-        setNewPrep({ title: '', text: '' });
+        setNewPrep(EMPTY_PREP_FORM);
         setEditingPrepId(null);
     };
 
-    const handleDeletePreparation = (id: string) => {
-        if (window.confirm('Tem certeza que deseja excluir este preparo?')) {
-            setPreparations(preparations.filter(p => p.id !== id));
+    const handleDeletePreparation = async (id: string) => {
+        if (!isAdmin || !window.confirm('Tem certeza que deseja excluir este preparo?')) return;
+        try {
+            await deletePreparation(id);
+            setPreparations(prev => prev.filter(p => p.id !== id));
             if (selectedPrepId === id) setSelectedPrepId('');
             if (editingPrepId === id) handleCancelEditPrep();
+        } catch (error: any) {
+            console.error('Error deleting preparation:', error);
+            alert(`Erro ao excluir preparo: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const handleImportLegacyPreparations = async () => {
+        if (!isAdmin) return;
+        setSavingPrep(true);
+        try {
+            const imported = await importLegacyPreparations(legacyPreparations);
+            setPreparations(prev => [...prev, ...imported]);
+            setLegacyPreparations([]);
+        } catch (error: any) {
+            console.error('Error importing local preparations:', error);
+            alert(`Erro ao importar preparos: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setSavingPrep(false);
+        }
+    };
+
+    const handleDismissLegacyPreparations = () => {
+        dismissLegacyPreparations();
+        setLegacyPreparations([]);
+    };
+
+    const openPreparationHistory = async (prep: Preparation) => {
+        setHistoryPrep(prep);
+        setPrepVersions([]);
+        try {
+            setPrepVersions(await fetchPreparationVersions(prep.id));
+        } catch (error) {
+            console.error('Error fetching preparation history:', error);
+        }
+    };
+
+    const handleRestoreVersion = async (version: PreparationVersion) => {
+        if (!isAdmin || !window.confirm(`Restaurar a versão ${version.version} de "${version.title}"?`)) return;
+        try {
+            const restored = await restorePreparationVersion(version);
+            // Restoring a removed preparation brings it back to the library
+            setPreparations(prev => [...prev.filter(p => p.id !== restored.id), restored]);
+            setDeletedPreparations(prev => prev.filter(p => p.id !== restored.id));
+            setHistoryPrep(restored);
+            setPrepVersions(await fetchPreparationVersions(restored.id));
+        } catch (error: any) {
+            console.error('Error restoring preparation:', error);
+            alert(`Erro ao restaurar versão: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
+    const toggleDeletedPreparations = async () => {
+        const show = !showDeletedPreps;
+        setShowDeletedPreps(show);
+        if (!show) return;
+        setDeletedPreparations([]);
+        try {
+            setDeletedPreparations(await fetchDeletedPreparations());
+        } catch (error) {
+            console.error('Error fetching removed preparations:', error);
+        }
+    };
+
+    const handleRestoreDeletedPreparation = async (prep: Preparation) => {
+        if (!isAdmin || !window.confirm(`Restaurar o preparo "${prep.title}"?`)) return;
+        setSavingPrep(true);
+        try {
+            const restored = await restoreDeletedPreparation(prep.id);
+            setPreparations(prev => [...prev.filter(p => p.id !== restored.id), restored]);
+            setDeletedPreparations(prev => prev.filter(p => p.id !== restored.id));
+        } catch (error: any) {
+            console.error('Error restoring removed preparation:', error);
+            alert(`Erro ao restaurar preparo: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setSavingPrep(false);
         }
     };
 
@@ -218,152 +590,186 @@ const AgendaAI: React.FC<AgendaAIProps> = ({ type = 'reschedule' }) => {
                 formattedDoctor = `${prefix} ${formattedDoctor}`;
             }
 
-            let message = '';
             let prepText = '';
             if (selectedPrepId) {
                 const prep = preparations.find(p => p.id === selectedPrepId);
-                if (prep) {
-                    prepText = `\n📝 *Preparo Necessário:*\n${prep.text}\n`;
-                }
+                if (prep) prepText = prep.text;
             }
 
-            // Automatic signature logic
-            // Requested change: Remove "Atendimento Unimed" if user name is present.
-            const signature = userSignatureName
-                ? `Atenciosamente,\n${userSignatureName}`
-                : `Atenciosamente,\nAtendimento Unimed`;
-
-            if (type === 'reschedule') {
-                message = `Olá, ${manualForm.patientName}, este contato refere-se à sua consulta no Centro de Diagnóstico Unimed (CDU), 9º andar. Tentamos o contato telefônico, mas não conseguimos falar com você.
-
-Devido a um imprevisto na agenda do médico, sua consulta com o(a) ${formattedDoctor} precisou ser remarcada.
-
-✅ Novo Agendamento: 
-📅 Data: ${dateObj} 
-⏰ Hora: ${manualForm.time}${prepText}
-⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
-
-❌ Caso não seja possível a nova data agendada, por favor, entre em contato através da Central de Agendamento: 
-
-📞 Telefone: (14) 3235-3350 
-📱 WhatsApp: (14) 99648-4958
-
-Pedimos desculpas pelo transtorno e agradecemos a compreensão.
-
-${signature}`;
-            } else if (type === 'procedure_confirmation') {
-                // Requested change: Move "Podemos confirmar?" to the end (before signature)
-                message = `Olá, ${manualForm.patientName}, este contato é para confirmar seu agendamento no Centro de Diagnóstico Unimed (CDU), 9º andar (Oftalmologia), referente ao procedimento/Exame de *${manualForm.procedure}*.
-
-🩺 ${formattedDoctor}
-📅 Data: ${dateObj}
-⏰ Hora: ${manualForm.time}${prepText}
-⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
-
-Em caso de dúvidas ou necessidade de reagendar, entre em contato através da Central de Agendamento: (14) 3235-3350 ou WhatsApp (14) 99648-4958.
-
-Podemos confirmar?
-
-${signature}`;
-            } else {
-                // Confirmation Type
-                // Requested change: Move "Podemos confirmar?" to the end (before signature)
-                message = `Olá, ${manualForm.patientName}, este contato refere-se à sua consulta no Centro de Diagnóstico Unimed (CDU), 9º andar ( Oftalmologia ).
-
-🩺 ${formattedDoctor}
-📅 Data: ${dateObj}
-⏰ Hora: ${manualForm.time}${prepText}
-⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
-
-Em caso de dúvidas ou necessidade de reagendar, entre em contato através da Central de Agendamento: (14) 3235-3350 ou WhatsApp (14) 99648-4958.
-
-Podemos confirmar?
-
-${signature}`;
-            }
+            const template = getMessageTemplate(messageTemplates, templateId);
+            const patientName = formatPatientName(manualForm.patientName, resolvePatientNameFormat(template, userNameFormat));
+            const procedureDetails = type === 'procedure_confirmation' ? manualProcedure : undefined;
+            const message = renderTemplate(template.body, {
+                ...unitValues,
+                ...(procedureDetails ? procedureTemplateValues(procedureDetails, manualForm.time) : {}),
+                paciente: patientName,
+                medico: formattedDoctor,
+                data: dateObj,
+                hora: manualForm.time,
+                procedimento: manualForm.procedure,
+                preparo: prepText,
+                // Requested change: Remove "Atendimento Unimed" if user name is present.
+                assinatura: userSignatureName || 'Atendimento Unimed'
+            });
 
             setIndividualResult({
-                extractedData: { ...manualForm },
+                extractedData: { ...manualForm, patientName, rawPatientName: manualForm.patientName, procedureDetails },
                 generatedMessage: message
             });
             setLoading(false);
         }, 400);
     };
 
-    const convertToBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(file);
-            reader.onload = () => {
-                let encoded = reader.result?.toString().replace(/^data:(.*,)?/, '');
-                if (encoded) {
-                    if ((encoded.length % 4) > 0) {
-                        encoded += '='.repeat(4 - (encoded.length % 4));
-                    }
-                    resolve(encoded);
-                } else {
-                    reject("Error encoding file");
-                }
-            };
-            reader.onerror = (error) => reject(error);
+    const updateUpload = (id: string, patch: Partial<AgendaUpload>) => {
+        setUploads(prev => prev.map(u => u.id === id ? { ...u, ...patch } : u));
+    };
+
+    /**
+     * Reads one file of the batch. Spreadsheets skip text extraction, the rows are already structured.
+     */
+    const analyzeUpload = async (
+        upload: AgendaUpload,
+        signal: AbortSignal,
+        onProgress: (step: AnalysisProgress) => void
+    ): Promise<AnalysisOutput> => {
+        // Preparations are applied per row afterwards (withPreparations)
+        const prepText = '';
+
+        // Procedure confirmations keep their own template and details (arrival, companion, guia)
+        const serviceType = type as AnalysisServiceType;
+
+        if (isSpreadsheetFile(upload.file)) {
+            if (!upload.spreadsheet || !upload.mapping) throw new Error('Planilha sem colunas mapeadas.');
+            onProgress(analysisProgress('parse'));
+            const appointments = spreadsheetToAppointments(upload.spreadsheet, upload.mapping);
+            onProgress(analysisProgress('generate'));
+            const built = buildLocalResults(appointments, serviceType, prepText, userSignatureName, messageTemplates, unitValues, userNameFormat);
+            return { results: (Array.isArray(built) ? built : [built]).map(r => ({ ...r, engine: 'spreadsheet' as const })), appointments };
+        }
+
+        const provider = getAnalysisProvider(loadAnalysisProviderId());
+        return runAnalysisWithFallback(provider, {
+            file: upload.file,
+            type: serviceType,
+            mode: 'batch',
+            prepText,
+            userName: userSignatureName,
+            context,
+            templates: messageTemplates,
+            unit: unitValues,
+            nameFormat: userNameFormat,
+            layout: findAgendaLayout(layouts, selectedLayoutId),
+            extractionMode
+        }, {
+            signal,
+            onRetry: (attempt, error) => console.warn(`${provider.label}: nova tentativa ${attempt} (${error.kind})`),
+            onProgress
         });
     };
 
+    // Files are read one after the other; a failed file does not stop the others
     const handleBatchAnalyze = async () => {
-        if (!file) return;
+        if (uploads.length === 0) return;
+        const unmapped = uploads.find(needsColumnMapping);
+        if (unmapped) {
+            setMappingUploadId(unmapped.id);
+            return;
+        }
 
         setLoading(true);
+        setAnalysisNotice(null);
         setBatchResults([]);
         setIndividualResult(null);
         setSelectedBatchIndex(null);
+        setBatchDoctorFilter('');
+        setBatchDateFilter('');
         setProgress(0);
+        setProgressStep(null);
+        setUploads(prev => prev.map(u => ({ ...u, status: 'pending', error: undefined, resultCount: undefined })));
 
-        const progressInterval = setInterval(() => {
-            setProgress((prev) => {
-                if (prev >= 90) return prev;
-                return prev + Math.floor(Math.random() * 10);
-            });
-        }, 300); // Faster progress for local
-
-        try {
-            let prepText = '';
-            if (selectedPrepId) {
-                const prep = preparations.find(p => p.id === selectedPrepId);
-                if (prep) prepText = prep.text;
-            }
-
-            // Cast type
-            const serviceType = (type === 'procedure_confirmation' ? 'confirmation' : type) as 'reschedule' | 'confirmation' | 'daily_summary' | 'procedure_confirmation';
+        const controller = new AbortController();
+        analysisAbortRef.current = controller;
 
-            // Use Local Service with File Object
-            const result = await processDocumentLocally(file, serviceType, prepText, userSignatureName);
+        const results: DocumentAnalysisResult[] = [];
+        const diffs: AgendaDiff[] = [];
+        const notices: string[] = [];
+        let failed = 0;
 
-            clearInterval(progressInterval);
-            setProgress(100);
-
-            setTimeout(() => {
-                if (type === 'daily_summary') {
-                    if (!Array.isArray(result)) {
-                        setIndividualResult(result as DocumentAnalysisResult);
-                    } else if (result.length > 0) {
-                        setIndividualResult(result[0]);
+        try {
+            for (const [position, upload] of uploads.entries()) {
+                if (controller.signal.aborted) {
+                    updateUpload(upload.id, { status: 'cancelled' });
+                    continue;
+                }
+                updateUpload(upload.id, { status: 'processing' });
+                try {
+                    const output = await analyzeUpload(upload, controller.signal, step => {
+                        setProgressStep(step);
+                        // Overall bar: finished files plus the share of the current one
+                        setProgress(Math.round((position * 100 + step.percent) / uploads.length));
+                    });
+                    results.push(...output.results.map(r => ({ ...r, sourceFile: upload.file.name })));
+                    // Local/mock/spreadsheet return the raw rows; the AI rows are rebuilt from its results
+                    const appointments = output.appointments || (type !== 'daily_summary' ? appointmentsFromResults(output.results) : undefined);
+                    if (appointments) diffs.push(...compareWithLastVersion(appointments, upload.file.name, !output.appointments));
+                    if (output.fallbackFrom) {
+                        notices.push(`${upload.file.name}: a resposta de "${getAnalysisProvider(output.fallbackFrom.providerId).label}" não passou na validação (${output.fallbackFrom.reason}). A agenda foi lida pelo leitor local.`);
                     }
-                } else {
-                    if (Array.isArray(result)) {
-                        setBatchResults(result);
-                        if (result.length > 0) setSelectedBatchIndex(0);
+                    updateUpload(upload.id, { status: 'done', resultCount: output.results.length });
+                } catch (error: any) {
+                    if (error instanceof AnalysisError && error.kind === 'cancelled') {
+                        updateUpload(upload.id, { status: 'cancelled' });
+                        continue;
                     }
+                    console.error(error);
+                    failed++;
+                    updateUpload(upload.id, { status: 'error', error: error.message || 'Erro desconhecido' });
                 }
-                setLoading(false);
-            }, 500);
+            }
+        } finally {
+            if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+        }
 
-        } catch (error: any) {
-            console.error(error);
-            clearInterval(progressInterval);
+        if (failed > 0) notices.unshift(`${failed} de ${uploads.length} arquivo(s) não puderam ser lidos. Veja o erro na lista de arquivos.`);
+        setAnalysisNotice(notices.length > 0 ? notices.join(' ') : null);
+        if (type === 'reschedule') refreshFreeSlots();
+
+        // Cancelled before anything was read
+        if (results.length === 0 && controller.signal.aborted) {
             setLoading(false);
             setProgress(0);
-            alert(`Erro ao processar arquivo: ${error.message || 'Erro desconhecido'}`);
+            setProgressStep(null);
+            return;
         }
+
+        setProgress(100);
+        const sourceFiles = uploads.map(u => u.file.name).join(', ');
+
+        setTimeout(() => {
+            if (type === 'daily_summary') {
+                if (results.length === 1) {
+                    setIndividualResult(results[0]);
+                } else if (results.length > 1) {
+                    // One summary per doctor/day section
+                    setBatchResults(results);
+                    setSelectedBatchIndex(0);
+                }
+            } else {
+                setAgendaDiffs(diffs);
+                const rows = withPreparations(results);
+                setBatchResults(rows);
+                if (uploads.length > 1) setBatchGroupBy('file');
+                if (rows.length > 0) {
+                    setSelectedBatchIndex(0);
+                    startCampaign(rows, sourceFiles);
+                }
+            }
+            setLoading(false);
+        }, 500);
+    };
+
+    const handleCancelAnalysis = () => {
+        analysisAbortRef.current?.abort();
     };
 
     const handleIndividualMessageChange = (text: string) => {
@@ -380,52 +786,317 @@ ${signature}`;
                 generatedMessage: text
             };
             setBatchResults(newResults);
+            if (activeCampaign) {
+                commitCampaign(updateEntryMessage(activeCampaign, appointmentKey(newResults[selectedBatchIndex].extractedData), text));
+            }
         }
     };
 
+    // --- PREPARATION PER ROW ---
+    const hasPreparationRulesSet = preparations.some(hasPreparationRules);
+
+    const PREPARATION_SOURCE_LABELS: Record<PreparationAssignment['source'], string> = {
+        rule: 'pela regra',
+        fallback: 'padrão do lote (nenhuma regra)',
+        manual: 'escolhido manualmente',
+        none: 'nenhuma regra corresponde'
+    };
+
+    // A slot picked in the reschedule assistant replaces the agenda's date/time in the message
+    const renderWithPreparation = (result: DocumentAnalysisResult, preparation: PreparationAssignment): DocumentAnalysisResult => ({
+        ...result,
+        preparation,
+        generatedMessage: generateResultMessage(
+            result.newSlot ? { ...result.extractedData, ...result.newSlot } : result.extractedData,
+            templateId,
+            preparations.find(p => p.id === preparation.preparationId)?.text || '',
+            userSignatureName,
+            messageTemplates,
+            unitValues,
+            userNameFormat
+        )
+    });
+
+    // Rules first, then the preparation selected for the batch. Rows left without one keep the message as read.
+    const withPreparations = (results: DocumentAnalysisResult[]): DocumentAnalysisResult[] => {
+        const specialtyOf = buildSpecialtyLookup(doctors);
+        return results.map(row => {
+            // Slots promised earlier to the same appointment (e.g. the agenda was uploaded again)
+            const reserved = type === 'reschedule' ? reservations.find(r => r.appointmentKey === appointmentKey(row.extractedData)) : undefined;
+            const result = reserved ? { ...row, newSlot: { date: reserved.date, time: reserved.time } } : row;
+            const preparation = assignPreparation(result.extractedData, preparations, selectedPrepId, specialtyOf);
+            return preparation.preparationId || result.newSlot ? renderWithPreparation(result, preparation) : { ...result, preparation };
+        });
+    };
+
+    const handleRowPreparationChange = (preparationId: string) => {
+        if (selectedBatchIndex === null || !batchResults[selectedBatchIndex]) return;
+        const updated = renderWithPreparation(batchResults[selectedBatchIndex], { preparationId: preparationId || null, source: 'manual' });
+        const newResults = [...batchResults];
+        newResults[selectedBatchIndex] = updated;
+        setBatchResults(newResults);
+        if (activeCampaign) {
+            commitCampaign(updateEntryMessage(activeCampaign, appointmentKey(updated.extractedData), updated.generatedMessage));
+        }
+    };
+
+    const handleRowProcedureChange = (patch: Partial<ProcedureDetails>) => {
+        if (selectedBatchIndex === null || !batchResults[selectedBatchIndex]) return;
+        const result = batchResults[selectedBatchIndex];
+        const procedureDetails = { ...(result.extractedData.procedureDetails || DEFAULT_PROCEDURE_DETAILS), ...patch };
+        const updated = renderWithPreparation(
+            { ...result, extractedData: { ...result.extractedData, procedureDetails } },
+            result.preparation || { preparationId: null, source: 'none' }
+        );
+        const newResults = [...batchResults];
+        newResults[selectedBatchIndex] = updated;
+        setBatchResults(newResults);
+        if (activeCampaign) {
+            commitCampaign(updateEntryMessage(activeCampaign, appointmentKey(updated.extractedData), updated.generatedMessage));
+        }
+    };
+
+    const handleAssignSlot = async (index: number, slot: FreeSlot | null) => {
+        const result = batchResults[index];
+        if (!result) return;
+        const key = appointmentKey(result.extractedData);
+        try {
+            const reserved = await reserveSlot(slot, {
+                appointmentKey: key,
+                patientName: result.extractedData.rawPatientName || result.extractedData.patientName
+            });
+            setAllReservations(prev => [...prev.filter(r => r.appointmentKey !== key), ...(reserved ? [reserved] : [])]);
+        } catch (error: any) {
+            console.error('Error reserving slot:', error);
+            alert(error.message || 'Erro ao reservar horário.');
+            return;
+        }
+
+        const updated = renderWithPreparation(
+            { ...result, newSlot: slot ? { date: slot.date, time: slot.time } : undefined },
+            result.preparation || { preparationId: null, source: 'none' }
+        );
+        const newResults = [...batchResults];
+        newResults[index] = updated;
+        setBatchResults(newResults);
+        setSelectedBatchIndex(index);
+        if (activeCampaign) {
+            commitCampaign(updateEntryMessage(activeCampaign, appointmentKey(updated.extractedData), updated.generatedMessage));
+        }
+    };
+
+    // --- OUTREACH CAMPAIGNS ---
+    const activeCampaign = campaigns.find(c => c.id === activeCampaignId) || null;
+    const recentCampaigns = campaigns.filter(c => c.type === type).slice(0, 5);
+    const actorName = user?.name || 'Atendimento';
+
+    const commitCampaign = (campaign: OutreachCampaign) => {
+        setCampaigns(prev => {
+            const next = prev.some(c => c.id === campaign.id)
+                ? prev.map(c => c.id === campaign.id ? campaign : c)
+                : [campaign, ...prev];
+            saveCampaigns(next);
+            return next;
+        });
+    };
+
+    // Each upload is stored per doctor/day and compared with the previous version of the same agenda
+    const compareWithLastVersion = (appointments: ParsedAppointment[], sourceFile: string, freeSlotsUnknown = false): AgendaDiff[] => {
+        const stored = loadSnapshots();
+        const snapshots = buildSnapshots(appointments, { createdBy: actorName, sourceFile, freeSlotsUnknown });
+        const diffs: AgendaDiff[] = [];
+        for (const snapshot of snapshots) {
+            const previous = findLatestSnapshot(stored, snapshot.id);
+            if (previous) diffs.push(diffSnapshots(previous, snapshot));
+        }
+        saveSnapshots([...snapshots, ...stored]);
+        return diffs;
+    };
+
+    const startCampaign = (results: DocumentAnalysisResult[], sourceFile: string) => {
+        if (type === 'daily_summary') return;
+        const dates = uniqueValues(results.map(r => r.extractedData.date));
+        const campaign = createCampaign(campaigns, results, {
+            name: `${title} – ${dates.length > 0 ? dates.join(', ') : new Date().toLocaleDateString('pt-BR')}`,
+            type: type as OutreachCampaign['type'],
+            createdBy: actorName,
+            sourceFile
+        });
+        commitCampaign(campaign);
+        setActiveCampaignId(campaign.id);
+    };
+
+    const openCampaign = (campaign: OutreachCampaign) => {
+        resetState();
+        setBatchResults(campaign.entries.map(e => e.result));
+        setSelectedBatchIndex(campaign.entries.length > 0 ? 0 : null);
+        setActiveCampaignId(campaign.id);
+    };
+
+    const getOutreachStatus = (result: DocumentAnalysisResult): OutreachStatus | null => {
+        if (!activeCampaign) return null;
+        const key = appointmentKey(result.extractedData);
+        return activeCampaign.entries.find(e => e.id === key)?.status || null;
+    };
+
+    const handleOutreachStatusChange = (entryId: string, status: OutreachStatus) => {
+        if (activeCampaign) commitCampaign(updateEntryStatus(activeCampaign, entryId, status, actorName));
+    };
+
+    // Replies read from exported chats are recorded like a receptionist would, with the text as note
+    const handleImportChats = async (files: File[]) => {
+        if (!activeCampaign) return;
+        const chatExport = await readChatExports(files);
+        const sentAt = (key: string) =>
+            [...(activeCampaign.entries.find(e => e.id === key)?.history || [])].reverse().find(e => e.status === 'sent')?.at;
+        const report = reconcileChatReplies(chatExport, batchResults, { sentAt, since: activeCampaign.createdAt });
+
+        let updated = activeCampaign;
+        for (const appointment of report.appointments) {
+            if (appointment.intent === 'unclear') continue;
+            const status = REPLY_INTENT_STATUS[appointment.intent];
+            const entry = updated.entries.find(e => e.id === appointment.key);
+            if (!entry || entry.status === status) continue;
+            const text = appointment.reply.text.replace(/\s+/g, ' ');
+            updated = updateEntryStatus(updated, appointment.key, status, actorName,
+                `WhatsApp: "${text.length > 60 ? `${text.slice(0, 60)}…` : text}"`);
+        }
+        if (updated !== activeCampaign) commitCampaign(updated);
+        setChatReport(report);
+    };
+
+    // Opening WhatsApp counts as "sent" unless the patient already answered
+    const markAsSent = (campaign: OutreachCampaign, results: DocumentAnalysisResult[]): OutreachCampaign => {
+        let updated = campaign;
+        for (const result of results) {
+            const key = appointmentKey(result.extractedData);
+            const entry = updated.entries.find(e => e.id === key);
+            if (entry && (entry.status === 'not_sent' || entry.status === 'no_answer')) {
+                updated = updateEntryStatus(updated, key, 'sent', actorName);
+            }
+        }
+        return updated;
+    };
+
     const copyToClipboard = (text: string, e?: React.MouseEvent) => {
         if (e) e.stopPropagation();
         navigator.clipboard.writeText(text);
     };
 
     // Helper to get the active result/data regardless of mode for the editor view
-    // For Daily Summary, we always look at individualResult (since it's a single summary)
+    // For Daily Summary, we look at individualResult unless the agenda produced one summary per section
+    const selectedBatchResult = selectedBatchIndex !== null ? batchResults[selectedBatchIndex] || null : null;
     const activeResult = type === 'daily_summary'
-        ? individualResult
-        : (mode === 'individual' ? individualResult : (selectedBatchIndex !== null ? batchResults[selectedBatchIndex] : null));
+        ? (batchResults.length > 0 ? selectedBatchResult : individualResult)
+        : (mode === 'individual' ? individualResult : selectedBatchResult);
+
+    // --- BATCH GROUPING / FILTERING ---
+    const uniqueValues = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+    const batchDoctors = uniqueValues(batchResults.map(r => r.extractedData.doctorName));
+    const batchDates = uniqueValues(batchResults.map(r => r.extractedData.date));
+
+    const changedKeys = changedAppointmentKeys(agendaDiffs);
+    const filteredBatchEntries = batchResults
+        .map((result, index) => ({ result, index }))
+        .filter(({ result }) =>
+            (!batchDoctorFilter || result.extractedData.doctorName === batchDoctorFilter) &&
+            (!batchDateFilter || result.extractedData.date === batchDateFilter) &&
+            (!showOnlyChanged || changedKeys.has(appointmentKey(result.extractedData)))
+        );
+
+    const batchGroups: { label: string, entries: { result: DocumentAnalysisResult, index: number }[] }[] = [];
+    if (batchGroupBy === 'none') {
+        batchGroups.push({ label: '', entries: filteredBatchEntries });
+    } else {
+        for (const entry of filteredBatchEntries) {
+            const data = entry.result.extractedData;
+            const label = batchGroupBy === 'file'
+                ? `${entry.result.sourceFile || 'Arquivo'} · ${data.doctorName || 'Médico não identificado'}`
+                : (batchGroupBy === 'doctor' ? data.doctorName : data.date) || 'Não identificado';
+            const group = batchGroups.find(g => g.label === label);
+            if (group) group.entries.push(entry);
+            else batchGroups.push({ label, entries: [entry] });
+        }
+    }
+
+    // --- OCR CONFIDENCE ---
+    const CONFIDENCE_FIELD_LABELS: Record<keyof FieldConfidence, string> = {
+        patientName: 'Paciente',
+        doctorName: 'Médico',
+        date: 'Data',
+        time: 'Horário',
+        procedure: 'Evento',
+        contact: 'Contato'
+    };
+
+    const confidenceEntries = (data: ExtractedData) =>
+        (Object.keys(CONFIDENCE_FIELD_LABELS) as (keyof FieldConfidence)[])
+            .filter(field => data.confidence?.[field] !== undefined)
+            .map(field => ({ field, label: CONFIDENCE_FIELD_LABELS[field], value: data.confidence![field]! }));
+
+    const hasLowConfidence = (data: ExtractedData) =>
+        confidenceEntries(data).some(entry => entry.value < LOW_CONFIDENCE_THRESHOLD);
+
+    const selectedWhatsappPhone = activeResult ? pickWhatsappPhone(activeResult.extractedData.contact) : null;
 
     const sendToWhatsapp = () => {
         if (activeResult) {
-            const phoneRaw = activeResult.extractedData.contact.replace(/\D/g, '');
-            const phone = phoneRaw.length >= 10 ? `55${phoneRaw}` : '';
+            window.open(buildWhatsappUrl(activeResult.extractedData.contact, activeResult.generatedMessage), '_blank');
+            if (activeCampaign && !activeCampaign.closedAt) commitCampaign(markAsSent(activeCampaign, [activeResult]));
+        }
+    };
 
-            const url = phone
-                ? `https://wa.me/${phone}?text=${encodeURIComponent(activeResult.generatedMessage)}`
-                : `https://wa.me/?text=${encodeURIComponent(activeResult.generatedMessage)}`;
+    // --- EXPORT (supervisors / paper call sheet), rows currently listed ---
+    const exportBatch = (format: 'csv' | 'xlsx' | 'pdf') => {
+        const rows = buildExportRows(
+            filteredBatchEntries.map(e => e.result),
+            getOutreachStatus,
+            result => preparations.find(p => p.id === result.preparation?.preparationId)?.title || ''
+        );
+        if (rows.length === 0) return;
+        const slug = title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, '_');
+        const fileName = `${slug}_${new Date().toISOString().split('T')[0]}`;
+        if (format === 'csv') exportBatchCsv(rows, fileName);
+        else if (format === 'xlsx') exportBatchXlsx(rows, fileName);
+        else exportCallSheetPdf(rows, { title: `${title} – Lista de Ligações`, generatedBy: actorName }, fileName);
+    };
 
-            window.open(url, '_blank');
-        }
+    // --- SEND QUEUE ---
+    const commitSendQueue = (queue: SendQueue | null) => {
+        setSendQueue(queue);
+        saveSendQueue(queue);
     };
 
-    const sendAllBatchToWhatsapp = () => {
-        if (batchResults.length === 0) return;
+    // Queues the rows currently listed (filters apply), one patient per click instead of timed popups
+    const startSendQueue = () => {
+        const results = filteredBatchEntries.map(e => e.result);
+        if (results.length === 0) return;
+        if (sendQueue && currentQueueItem(sendQueue) &&
+            !window.confirm('Já existe uma fila de envio em andamento. Deseja substituí-la pela lista atual?')) return;
+
+        commitSendQueue(createSendQueue(results, {
+            type: type as SendQueue['type'],
+            createdBy: actorName,
+            campaignId: activeCampaign && !activeCampaign.closedAt ? activeCampaign.id : undefined
+        }));
+        setQueueResumed(false);
+    };
 
-        const confirmed = window.confirm(
-            `Atenção: Esta ação tentará abrir ${batchResults.length} abas do WhatsApp Web sequencialmente.\n\n` +
-            `Certifique-se de que os bloqueadores de popup estejam desativados para este site.\n\nDeseja continuar?`
-        );
+    const sendQueueItem = (item: SendQueueItem) => {
+        if (!sendQueue) return;
+        // The message may have been edited in the preview after the queue started
+        const latest = batchResults.find(r => appointmentKey(r.extractedData) === item.id) || item.result;
+        window.open(buildWhatsappUrl(latest.extractedData.contact, latest.generatedMessage), '_blank');
+        commitSendQueue(setQueueItemState(sendQueue, item.id, 'sent'));
 
-        if (!confirmed) return;
+        const campaign = campaigns.find(c => c.id === sendQueue.campaignId);
+        if (campaign && !campaign.closedAt) commitCampaign(markAsSent(campaign, [latest]));
+    };
 
-        batchResults.forEach((result, index) => {
-            setTimeout(() => {
-                const phoneRaw = result.extractedData.contact.replace(/\D/g, '');
-                const phone = phoneRaw.length >= 10 ? `55${phoneRaw}` : '';
-                const text = encodeURIComponent(result.generatedMessage);
-                const url = phone ? `https://wa.me/${phone}?text=${text}` : `https://wa.me/?text=${text}`;
-                window.open(url, '_blank');
-            }, index * 1500);
-        });
+    const closeSendQueue = () => {
+        if (sendQueue && currentQueueItem(sendQueue) &&
+            !window.confirm('Ainda há pacientes na fila. Deseja encerrar a fila de envio?')) return;
+        commitSendQueue(null);
     };
 
     return (
@@ -441,27 +1112,39 @@ ${signature}`;
                     </p>
                 </div>
 
-                {/* Mode Toggles - HIDE for Procedure Confirmation AND Daily Summary */}
-                {type !== 'procedure_confirmation' && type !== 'daily_summary' && (
-                    <div className="flex bg-gray-100 p-1 rounded-lg">
-                        <button
-                            onClick={() => { setMode('individual'); resetState(); }}
-                            className={`px-4 py-1.5 text-xs font-bold rounded-md transition-all ${mode === 'individual' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'
-                                }`}
-                            disabled={loading}
-                        >
-                            Manual
-                        </button>
+                <div className="flex items-center gap-2">
+                    {type !== 'daily_summary' && (
                         <button
-                            onClick={() => { setMode('batch'); resetState(); }}
-                            className={`px-4 py-1.5 text-xs font-bold rounded-md transition-all ${mode === 'batch' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'
-                                }`}
-                            disabled={loading}
+                            onClick={() => setShowTemplateModal(true)}
+                            className="px-3 py-1.5 text-xs font-bold text-gray-600 bg-white border border-gray-200 rounded-lg hover:border-primary hover:text-primary transition-colors flex items-center gap-1"
                         >
-                            PDF em Lote
+                            <span className="material-symbols-outlined text-sm">edit_note</span>
+                            Modelos
                         </button>
-                    </div>
-                )}
+                    )}
+
+                    {/* Mode Toggles - HIDE for Daily Summary */}
+                    {type !== 'daily_summary' && (
+                        <div className="flex bg-gray-100 p-1 rounded-lg">
+                            <button
+                                onClick={() => { setMode('individual'); resetState(); }}
+                                className={`px-4 py-1.5 text-xs font-bold rounded-md transition-all ${mode === 'individual' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                                    }`}
+                                disabled={loading}
+                            >
+                                Manual
+                            </button>
+                            <button
+                                onClick={() => { setMode('batch'); resetState(); }}
+                                className={`px-4 py-1.5 text-xs font-bold rounded-md transition-all ${mode === 'batch' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                                    }`}
+                                disabled={loading}
+                            >
+                                PDF em Lote
+                            </button>
+                        </div>
+                    )}
+                </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 h-full">
@@ -486,6 +1169,58 @@ ${signature}`;
                             )}
                         </div>
 
+                        {/* Unit / Floor used in the message contacts */}
+                        {type !== 'daily_summary' && (
+                            <div className="mb-3">
+                                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Unidade / Andar</label>
+                                <div className="relative">
+                                    <select
+                                        value={selectedUnitKey}
+                                        onChange={(e) => setSelectedUnitKey(e.target.value)}
+                                        className="w-full p-2.5 border rounded-lg text-sm outline-none appearance-none bg-white border-gray-200 text-gray-700"
+                                        disabled={loading}
+                                    >
+                                        {unitOptions.map(option => (
+                                            <option key={option.value} value={option.value}>{option.label}</option>
+                                        ))}
+                                    </select>
+                                    <span className="material-symbols-outlined absolute right-2 top-2.5 text-gray-400 pointer-events-none text-lg">
+                                        keyboard_arrow_down
+                                    </span>
+                                </div>
+                                {unitValues.telefone && (
+                                    <p className="text-[10px] text-gray-400 mt-1 truncate" title={unitValues.endereco}>
+                                        📞 {unitValues.telefone}{unitValues.whatsapp && ` · 📱 ${unitValues.whatsapp}`}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {/* How the patient's name is written in the message */}
+                        {type !== 'daily_summary' && (
+                            <div className="mb-3">
+                                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Nome do Paciente na Mensagem</label>
+                                <div className="relative">
+                                    <select
+                                        value={userNameFormat || ''}
+                                        onChange={(e) => handleNameFormatChange((e.target.value || null) as PatientNameFormat | null)}
+                                        className="w-full p-2.5 border rounded-lg text-sm outline-none appearance-none bg-white border-gray-200 text-gray-700"
+                                        disabled={loading}
+                                    >
+                                        <option value="">
+                                            Padrão do modelo ({PATIENT_NAME_FORMAT_LABELS[resolvePatientNameFormat(getMessageTemplate(messageTemplates, templateId))]})
+                                        </option>
+                                        {(Object.keys(PATIENT_NAME_FORMAT_LABELS) as PatientNameFormat[]).map(f => (
+                                            <option key={f} value={f}>{PATIENT_NAME_FORMAT_LABELS[f]}</option>
+                                        ))}
+                                    </select>
+                                    <span className="material-symbols-outlined absolute right-2 top-2.5 text-gray-400 pointer-events-none text-lg">
+                                        keyboard_arrow_down
+                                    </span>
+                                </div>
+                            </div>
+                        )}
+
                         {/* --- INDIVIDUAL MODE --- */}
                         {mode === 'individual' && type !== 'daily_summary' && (
                             <div className="space-y-3 animate-in fade-in slide-in-from-left-4 duration-300">
@@ -516,6 +1251,51 @@ ${signature}`;
                                     </div>
                                 )}
 
+                                {type === 'procedure_confirmation' && (
+                                    <div className="bg-gray-50 p-2 rounded-lg border border-gray-200 grid grid-cols-2 gap-2">
+                                        <div>
+                                            <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Chegada</label>
+                                            <select
+                                                value={manualProcedure.arrivalOffsetMinutes}
+                                                onChange={(e) => setManualProcedure(prev => ({ ...prev, arrivalOffsetMinutes: Number(e.target.value) }))}
+                                                className="w-full p-2 border border-gray-200 rounded-lg text-xs outline-none bg-white"
+                                            >
+                                                {ARRIVAL_OFFSET_OPTIONS.map(minutes => (
+                                                    <option key={minutes} value={minutes}>{minutes === 0 ? 'No horário' : `${minutes} min antes`}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Guia</label>
+                                            <select
+                                                value={manualProcedure.authorization}
+                                                onChange={(e) => setManualProcedure(prev => ({ ...prev, authorization: e.target.value as ProcedureDetails['authorization'] }))}
+                                                className="w-full p-2 border border-gray-200 rounded-lg text-xs outline-none bg-white"
+                                            >
+                                                {(Object.keys(PROCEDURE_AUTHORIZATION_LABELS) as ProcedureDetails['authorization'][]).map(status => (
+                                                    <option key={status} value={status}>{PROCEDURE_AUTHORIZATION_LABELS[status]}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <input
+                                            type="text"
+                                            value={manualProcedure.guideNumber || ''}
+                                            onChange={(e) => setManualProcedure(prev => ({ ...prev, guideNumber: e.target.value.replace(/\D/g, '') || undefined }))}
+                                            className="w-full p-2 border border-gray-200 rounded-lg text-xs outline-none bg-white"
+                                            placeholder="Nº da guia (opcional)"
+                                        />
+                                        <label className="flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={manualProcedure.companionRequired}
+                                                onChange={(e) => setManualProcedure(prev => ({ ...prev, companionRequired: e.target.checked }))}
+                                                className="accent-primary"
+                                            />
+                                            Exige acompanhante
+                                        </label>
+                                    </div>
+                                )}
+
                                 <div className="bg-gray-50 p-2 rounded-lg border border-gray-200">
                                     <div className="flex justify-between items-center mb-1">
                                         <label className="block text-[10px] font-bold text-gray-500 uppercase">Instruções de Preparo</label>
@@ -611,41 +1391,96 @@ ${signature}`;
                         )}
 
                         {/* --- BATCH MODE (OR DAILY SUMMARY) --- */}
-                        {mode === 'batch' && type !== 'procedure_confirmation' && (
+                        {mode === 'batch' && (
                             <div className="animate-in fade-in slide-in-from-right-4 duration-300 flex flex-col gap-4">
-                                {/* Upload Box */}
+                                {/* Upload Box - several agendas at once (e.g. one per doctor) */}
                                 <div
-                                    className={`relative border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-all ${file
-                                        ? 'border-primary bg-primary-light/20'
-                                        : 'border-gray-300 hover:border-primary hover:bg-gray-50'
+                                    className={`relative border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-all ${dragActive
+                                        ? 'border-primary bg-primary-light/40'
+                                        : uploads.length > 0
+                                            ? 'border-primary bg-primary-light/20'
+                                            : 'border-gray-300 hover:border-primary hover:bg-gray-50'
                                         }`}
                                     onClick={() => !loading && fileInputRef.current?.click()}
+                                    onDragOver={(e) => { e.preventDefault(); if (!loading) setDragActive(true); }}
+                                    onDragLeave={() => setDragActive(false)}
+                                    onDrop={handleFileDrop}
                                 >
                                     <input
                                         type="file"
-                                        accept="application/pdf,image/*"
+                                        accept="application/pdf,image/*,.csv,.xlsx,.xls"
+                                        multiple
                                         className="hidden"
                                         ref={fileInputRef}
                                         onChange={handleFileChange}
                                         disabled={loading}
                                     />
 
-                                    <span className={`material-symbols-outlined text-3xl mb-1 ${file ? 'text-primary' : 'text-gray-400'}`}>
-                                        {file ? 'description' : 'cloud_upload'}
+                                    <span className={`material-symbols-outlined text-3xl mb-1 ${uploads.length > 0 || dragActive ? 'text-primary' : 'text-gray-400'}`}>
+                                        {uploads.length > 0 ? 'library_add' : 'cloud_upload'}
                                     </span>
 
-                                    {file ? (
+                                    {uploads.length > 0 ? (
                                         <div>
-                                            <p className="font-bold text-xs text-primary truncate max-w-[150px]">{file.name}</p>
-                                            <p className="text-[10px] text-gray-400 mt-1">Clique para trocar</p>
+                                            <p className="font-bold text-xs text-primary">{uploads.length} arquivo(s) selecionado(s)</p>
+                                            <p className="text-[10px] text-gray-400 mt-1">Clique ou arraste para adicionar mais</p>
                                         </div>
                                     ) : (
                                         <p className="text-xs font-medium text-gray-500">
-                                            {type === 'daily_summary' ? 'Dia do Prestador - PDF' : 'Selecionar Arquivo'}
+                                            {type === 'daily_summary' ? 'Dia do Prestador - PDF, Foto ou Planilha' : 'Selecionar ou Arrastar Arquivos (PDF, Foto ou Planilha)'}
                                         </p>
                                     )}
                                 </div>
 
+                                {/* Per-file queue, status and errors (spreadsheet column mapping per file) */}
+                                {uploads.length > 0 && (
+                                    <AgendaUploadList
+                                        uploads={uploads}
+                                        disabled={loading}
+                                        onRemove={handleRemoveUpload}
+                                        onMapColumns={setMappingUploadId}
+                                    />
+                                )}
+
+                                {/* Layout Profile - applies to every agenda type */}
+                                <div className="bg-gray-50 p-2 rounded-lg border border-gray-200">
+                                    <div className="flex justify-between items-center mb-1">
+                                        <label className="block text-[10px] font-bold text-gray-500 uppercase">Layout da Agenda</label>
+                                        <button
+                                            onClick={() => setShowLayoutModal(true)}
+                                            className="text-[10px] text-primary font-bold hover:underline flex items-center gap-1"
+                                        >
+                                            <span className="material-symbols-outlined text-xs">{isAdmin ? 'settings' : 'visibility'}</span>
+                                            {isAdmin ? 'Gerenciar' : 'Ver'}
+                                        </button>
+                                    </div>
+                                    <div className="relative">
+                                        <select
+                                            value={selectedLayoutId}
+                                            onChange={(e) => setSelectedLayoutId(e.target.value)}
+                                            className="w-full p-2.5 border rounded-lg text-sm outline-none appearance-none bg-white border-gray-200 text-gray-700"
+                                            disabled={loading}
+                                        >
+                                            {layouts.map(l => (
+                                                <option key={l.id} value={l.id}>{l.name}</option>
+                                            ))}
+                                        </select>
+                                        <span className="material-symbols-outlined absolute right-2 top-2.5 text-gray-400 pointer-events-none text-lg">
+                                            keyboard_arrow_down
+                                        </span>
+                                    </div>
+                                    <label className="mt-2 flex items-center gap-2 text-[10px] text-gray-500 font-bold cursor-pointer pl-1">
+                                        <input
+                                            type="checkbox"
+                                            checked={extractionMode === 'columns'}
+                                            onChange={(e) => setExtractionMode(e.target.checked ? 'columns' : 'text')}
+                                            disabled={loading}
+                                            className="accent-primary"
+                                        />
+                                        Detectar colunas da tabela (posição no PDF)
+                                    </label>
+                                </div>
+
                                 {/* Prep and Context - Hidden for Daily Summary as it's just stats */}
                                 {type !== 'daily_summary' && (
                                     <>
@@ -668,7 +1503,7 @@ ${signature}`;
                                                         }`}
                                                     disabled={loading}
                                                 >
-                                                    <option value="">Nenhum preparo selecionado</option>
+                                                    <option value="">{hasPreparationRulesSet ? 'Somente regras automáticas' : 'Nenhum preparo selecionado'}</option>
                                                     {preparations.map(p => (
                                                         <option key={p.id} value={p.id}>{p.title}</option>
                                                     ))}
@@ -677,6 +1512,11 @@ ${signature}`;
                                                     keyboard_arrow_down
                                                 </span>
                                             </div>
+                                            {hasPreparationRulesSet && (
+                                                <p className="mt-1 text-[10px] text-gray-500 pl-1">
+                                                    Preparos com regras são aplicados por procedimento/médico; o selecionado vale para as linhas sem regra.
+                                                </p>
+                                            )}
                                         </div>
 
                                         <div>
@@ -712,12 +1552,17 @@ ${signature}`;
                                 <div className="relative rounded-lg overflow-hidden">
                                     <button
                                         onClick={handleBatchAnalyze}
-                                        disabled={!file || loading}
-                                        className={`relative w-full py-2.5 font-bold text-sm text-white transition-all flex items-center justify-center gap-2 z-10 rounded-lg ${!file ? 'bg-gray-300 cursor-not-allowed' : 'bg-secondary hover:bg-gray-700'
+                                        disabled={uploads.length === 0 || loading}
+                                        className={`relative w-full py-2.5 font-bold text-sm text-white transition-all flex items-center justify-center gap-2 z-10 rounded-lg ${uploads.length === 0 ? 'bg-gray-300 cursor-not-allowed' : 'bg-secondary hover:bg-gray-700'
                                             }`}
                                     >
                                         {loading ? (
-                                            <span>{progress < 100 ? `${progress}%` : 'Finalizando...'}</span>
+                                            <span>
+                                                {uploads.length > 1 && progress < 100 && `Arquivo ${Math.max(1, uploads.findIndex(u => u.status === 'processing') + 1)}/${uploads.length} · `}
+                                                {progress < 100 && progressStep
+                                                    ? `${ANALYSIS_STAGE_LABELS[progressStep.stage]}${progressStep.pages ? ` · página ${progressStep.page}/${progressStep.pages}` : ''} · ${progress}%`
+                                                    : progress < 100 ? `${progress}%` : 'Finalizando...'}
+                                            </span>
                                         ) : (
                                             <>
                                                 <span className="material-symbols-outlined text-lg">auto_awesome_motion</span>
@@ -732,6 +1577,21 @@ ${signature}`;
                                         ></div>
                                     )}
                                 </div>
+                                {loading && progress < 100 && (
+                                    <button
+                                        onClick={handleCancelAnalysis}
+                                        className="text-[10px] font-bold uppercase text-gray-500 hover:text-red-600 transition-colors flex items-center justify-center gap-1 -mt-1"
+                                    >
+                                        <span className="material-symbols-outlined text-sm">cancel</span>
+                                        Cancelar leitura
+                                    </button>
+                                )}
+                                {(uploads.length === 0 || uploads.some(u => !isSpreadsheetFile(u.file))) && (
+                                    <p className="text-[10px] text-gray-400 text-center -mt-1">
+                                        Leitura: {getAnalysisProvider(loadAnalysisProviderId()).label}
+                                        {loadAnalysisProviderId() === 'gemini' && privacyModeActive && ' · modo privacidade'} (alterar em Configurações)
+                                    </p>
+                                )}
 
                                 {/* SEND BUTTONS - Hidden for Daily Summary */}
                                 {type !== 'daily_summary' && batchResults.length > 0 && selectedBatchIndex !== null && (
@@ -746,11 +1606,11 @@ ${signature}`;
                                         </button>
 
                                         <button
-                                            onClick={sendAllBatchToWhatsapp}
+                                            onClick={startSendQueue}
                                             className="w-full mt-2 py-3 font-bold text-sm text-primary border border-primary bg-primary-light/30 hover:bg-primary-light transition-all flex items-center justify-center gap-2 rounded-lg"
                                         >
                                             <span className="material-symbols-outlined">send_to_mobile</span>
-                                            <span>Enviar Todas ({batchResults.length})</span>
+                                            <span>Enviar Todas ({filteredBatchEntries.length})</span>
                                         </button>
                                     </div>
                                 )}
@@ -781,82 +1641,316 @@ ${signature}`;
                                 )}
                             </div>
 
-                            <div className="flex-1 bg-gray-50 rounded-lg border border-gray-200 p-4 relative">
-                                {activeResult ? (
-                                    <textarea
-                                        className="w-full h-full bg-transparent border-none resize-none outline-none text-gray-800 leading-relaxed font-sans text-sm"
-                                        value={activeResult.generatedMessage}
-                                        onChange={(e) => handleIndividualMessageChange(e.target.value)}
-                                    />
-                                ) : (
-                                    <div className="h-full flex flex-col items-center justify-center text-gray-400 text-sm">
-                                        <span className="material-symbols-outlined text-3xl mb-2 opacity-50">description</span>
-                                        <p>Carregue o PDF do "Dia do Prestador" para gerar o resumo aqui.</p>
-                                    </div>
-                                )}
-                            </div>
+                            {/* One summary per doctor/day when the agenda holds several sections */}
+                            {batchResults.length > 1 && (
+                                <div className="flex flex-wrap gap-2 mb-3">
+                                    {batchResults.map((summary, index) => (
+                                        <button
+                                            key={index}
+                                            onClick={() => setSelectedBatchIndex(index)}
+                                            className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${selectedBatchIndex === index
+                                                ? 'bg-primary border-primary text-white'
+                                                : 'bg-white border-gray-200 text-gray-600 hover:border-primary hover:text-primary'
+                                                }`}
+                                        >
+                                            {summary.extractedData.doctorName} · {summary.extractedData.date}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
+                            {analysisNotice && (
+                                <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 flex items-start gap-2">
+                                    <span className="material-symbols-outlined text-base">sync_problem</span>
+                                    <span>{analysisNotice}</span>
+                                </div>
+                            )}
+
+                            {/* Counts the local reader could not determine */}
+                            {activeResult?.warnings && activeResult.warnings.length > 0 && (
+                                <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg flex flex-col gap-1">
+                                    {activeResult.warnings.map(warning => (
+                                        <p key={warning} className="text-xs text-amber-700 font-bold flex items-center gap-1.5">
+                                            <span className="material-symbols-outlined text-sm">warning</span>
+                                            {warning}
+                                        </p>
+                                    ))}
+                                </div>
+                            )}
+
+                            {activeResult ? (
+                                <WhatsappMessageEditor
+                                    className="flex-1"
+                                    value={activeResult.generatedMessage}
+                                    onChange={(value) => batchResults.length > 0
+                                        ? handleBatchMessageChange(value)
+                                        : handleIndividualMessageChange(value)}
+                                />
+                            ) : (
+                                <div className="flex-1 bg-gray-50 rounded-lg border border-gray-200 p-4 flex flex-col items-center justify-center text-gray-400 text-sm">
+                                    <span className="material-symbols-outlined text-3xl mb-2 opacity-50">description</span>
+                                    <p>Carregue o PDF do "Dia do Prestador" para gerar o resumo aqui.</p>
+                                </div>
+                            )}
                         </div>
                     )}
 
                     {/* --- BATCH MODE: TAGS GRID & PREVIEW --- */}
                     {mode === 'batch' && type !== 'daily_summary' && (
                         <div className="flex flex-col gap-4 h-full">
+                            {/* The chosen reader failed validation, another one took over */}
+                            {analysisNotice && (
+                                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 flex items-start gap-2">
+                                    <span className="material-symbols-outlined text-base">sync_problem</span>
+                                    <span>{analysisNotice}</span>
+                                </div>
+                            )}
+
+                            {/* Paced WhatsApp sending, one patient at a time */}
+                            {sendQueue && (
+                                <SendQueuePanel
+                                    queue={sendQueue}
+                                    resumed={queueResumed}
+                                    onSend={sendQueueItem}
+                                    onSkip={(item) => commitSendQueue(setQueueItemState(sendQueue, item.id, 'skipped'))}
+                                    onRequeue={(item) => commitSendQueue(setQueueItemState(sendQueue, item.id, 'pending'))}
+                                    onTogglePause={() => commitSendQueue(setQueuePaused(sendQueue, !sendQueue.paused))}
+                                    onClose={closeSendQueue}
+                                />
+                            )}
+
+                            {/* Changes since the previous upload of the same agenda */}
+                            {agendaDiffs.length > 0 && batchResults.length > 0 && (
+                                <AgendaDiffPanel
+                                    diffs={agendaDiffs}
+                                    showOnlyChanged={showOnlyChanged}
+                                    onToggleOnlyChanged={setShowOnlyChanged}
+                                />
+                            )}
+
+                            {/* Reschedule: offer the free slots of the loaded agendas */}
+                            {type === 'reschedule' && batchResults.length > 0 && (
+                                <RescheduleAssistantPanel
+                                    entries={filteredBatchEntries}
+                                    slots={freeSlots}
+                                    reservations={reservations}
+                                    selectedIndex={selectedBatchIndex}
+                                    onAssign={handleAssignSlot}
+                                    onSelect={setSelectedBatchIndex}
+                                />
+                            )}
+
+                            {/* Outreach Campaign Progress */}
+                            {activeCampaign && batchResults.length > 0 && (
+                                <OutreachCampaignPanel
+                                    campaign={activeCampaign}
+                                    selectedEntryId={activeResult && selectedBatchIndex !== null ? appointmentKey(activeResult.extractedData) : null}
+                                    onStatusChange={handleOutreachStatusChange}
+                                    onToggleClosed={() => commitCampaign(setCampaignClosed(activeCampaign, !activeCampaign.closedAt))}
+                                    onImportChats={handleImportChats}
+                                />
+                            )}
+
+                            {/* Replies imported from WhatsApp chats */}
+                            {chatReport && batchResults.length > 0 && (
+                                <ChatReplyPanel
+                                    report={chatReport}
+                                    results={batchResults}
+                                    onSelect={setSelectedBatchIndex}
+                                    onClose={() => setChatReport(null)}
+                                />
+                            )}
+
                             {/* Tags Container */}
                             {batchResults.length > 0 ? (
                                 <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
-                                    <div className="flex justify-between items-center mb-4">
+                                    <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
                                         <h3 className="font-bold text-gray-700 text-sm flex items-center gap-2">
                                             <span className="material-symbols-outlined text-primary text-lg">checklist</span>
-                                            Pacientes Identificados ({batchResults.length})
+                                            Pacientes Identificados ({filteredBatchEntries.length !== batchResults.length
+                                                ? `${filteredBatchEntries.length} de ${batchResults.length}`
+                                                : batchResults.length})
                                         </h3>
-                                        <span className="text-xs text-gray-400">Selecione para conferir</span>
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            {batchDoctors.length > 1 && (
+                                                <select
+                                                    value={batchDoctorFilter}
+                                                    onChange={(e) => setBatchDoctorFilter(e.target.value)}
+                                                    className="p-1.5 border border-gray-200 rounded-lg text-xs outline-none bg-white text-gray-600"
+                                                >
+                                                    <option value="">Todos os médicos</option>
+                                                    {batchDoctors.map(d => <option key={d} value={d}>{d}</option>)}
+                                                </select>
+                                            )}
+                                            {batchDates.length > 1 && (
+                                                <select
+                                                    value={batchDateFilter}
+                                                    onChange={(e) => setBatchDateFilter(e.target.value)}
+                                                    className="p-1.5 border border-gray-200 rounded-lg text-xs outline-none bg-white text-gray-600"
+                                                >
+                                                    <option value="">Todos os dias</option>
+                                                    {batchDates.map(d => <option key={d} value={d}>{d}</option>)}
+                                                </select>
+                                            )}
+                                            <div className="flex bg-gray-100 p-0.5 rounded-lg" title="Exportar os pacientes listados">
+                                                {([['csv', 'CSV', 'table_view'], ['xlsx', 'XLSX', 'grid_on'], ['pdf', 'PDF', 'print']] as const).map(([format, label, icon]) => (
+                                                    <button
+                                                        key={format}
+                                                        onClick={() => exportBatch(format)}
+                                                        className="px-2 py-1 text-[10px] font-bold rounded-md transition-all text-gray-500 hover:text-primary hover:bg-white flex items-center gap-0.5"
+                                                    >
+                                                        <span className="material-symbols-outlined text-sm">{icon}</span>
+                                                        {label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <div className="flex bg-gray-100 p-0.5 rounded-lg">
+                                                {([['none', 'Lista'], ['file', 'Por arquivo'], ['doctor', 'Por médico'], ['date', 'Por dia']] as const).map(([value, label]) => (
+                                                    <button
+                                                        key={value}
+                                                        onClick={() => setBatchGroupBy(value)}
+                                                        className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${batchGroupBy === value ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
                                     </div>
 
-                                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-4 xl:grid-cols-5 gap-3">
-                                        {batchResults.map((result, index) => (
-                                            <button
-                                                key={index}
-                                                onClick={() => setSelectedBatchIndex(index)}
-                                                className={`
+                                    <div className="flex flex-col gap-4">
+                                        {batchGroups.map(group => (
+                                            <div key={group.label || 'all'}>
+                                                {group.label && (
+                                                    <p className="text-[10px] font-bold text-gray-400 uppercase mb-2 flex items-center gap-1">
+                                                        <span className="material-symbols-outlined text-sm">{batchGroupBy === 'file' ? 'description' : batchGroupBy === 'doctor' ? 'stethoscope' : 'calendar_today'}</span>
+                                                        {group.label} ({group.entries.length})
+                                                    </p>
+                                                )}
+                                                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-4 xl:grid-cols-5 gap-3">
+                                                    {group.entries.map(({ result, index }) => (
+                                                        <button
+                                                            key={index}
+                                                            onClick={() => setSelectedBatchIndex(index)}
+                                                            className={`
                                             relative px-3 py-2.5 rounded-lg border text-left transition-all group
                                             ${selectedBatchIndex === index
-                                                        ? 'bg-primary border-primary text-white shadow-md transform scale-105 z-10'
-                                                        : 'bg-white border-gray-100 text-gray-600 hover:border-primary hover:text-primary hover:shadow-sm'
-                                                    }
+                                                                    ? 'bg-primary border-primary text-white shadow-md transform scale-105 z-10'
+                                                                    : 'bg-white border-gray-100 text-gray-600 hover:border-primary hover:text-primary hover:shadow-sm'
+                                                                }
                                         `}
-                                            >
-                                                <div className="font-bold text-xs truncate w-full">
-                                                    {result.extractedData.patientName || `Paciente ${index + 1}`}
-                                                </div>
-                                                <div className={`text-[10px] mt-0.5 truncate ${selectedBatchIndex === index ? 'text-green-100' : 'text-gray-400'}`}>
-                                                    {result.extractedData.time} - {result.extractedData.doctorName.split(' ').slice(0, 2).join(' ')}
-                                                </div>
-
-                                                {/* Copiar rápido na etiqueta */}
-                                                <div
-                                                    onClick={(e) => copyToClipboard(result.generatedMessage, e)}
-                                                    className={`absolute top-1 right-1 p-1 rounded hover:bg-black/10 opacity-0 group-hover:opacity-100 transition-opacity ${selectedBatchIndex === index ? 'text-white' : 'text-gray-400'}`}
-                                                    title="Copiar texto"
-                                                >
-                                                    <span className="material-symbols-outlined text-[10px]">content_copy</span>
+                                                        >
+                                                            <div className="font-bold text-xs truncate w-full flex items-center gap-1">
+                                                                {hasLowConfidence(result.extractedData) && (
+                                                                    <span
+                                                                        className={`material-symbols-outlined text-[12px] ${selectedBatchIndex === index ? 'text-yellow-200' : 'text-amber-500'}`}
+                                                                        title="Leitura por OCR com baixa confiança - confira os dados"
+                                                                    >warning</span>
+                                                                )}
+                                                                {!hasWhatsappPhone(result.extractedData.contact) && (
+                                                                    <span
+                                                                        className={`material-symbols-outlined text-[12px] ${selectedBatchIndex === index ? 'text-red-200' : 'text-red-500'}`}
+                                                                        title="Sem celular válido para WhatsApp"
+                                                                    >phone_disabled</span>
+                                                                )}
+                                                                {hasPreparationRulesSet && (result.preparation?.source === 'none' || result.preparation?.source === 'fallback') && (
+                                                                    <span
+                                                                        className={`material-symbols-outlined text-[12px] ${selectedBatchIndex === index ? 'text-yellow-200' : 'text-amber-500'}`}
+                                                                        title="Nenhuma regra de preparo corresponde a este procedimento"
+                                                                    >medication</span>
+                                                                )}
+                                                                <span className="truncate">{result.extractedData.patientName || `Paciente ${index + 1}`}</span>
+                                                            </div>
+                                                            {getOutreachStatus(result) && getOutreachStatus(result) !== 'not_sent' && (
+                                                                <div
+                                                                    className={`mt-1 inline-flex items-center gap-0.5 text-[9px] font-bold px-1.5 py-0.5 rounded-full border ${OUTREACH_STATUS_STYLES[getOutreachStatus(result)!].chip}`}
+                                                                >
+                                                                    <span className="material-symbols-outlined text-[10px]">{OUTREACH_STATUS_STYLES[getOutreachStatus(result)!].icon}</span>
+                                                                    {OUTREACH_STATUS_LABELS[getOutreachStatus(result)!]}
+                                                                </div>
+                                                            )}
+                                                            <div className={`text-[10px] mt-0.5 truncate ${selectedBatchIndex === index ? 'text-green-100' : 'text-gray-400'}`}>
+                                                                {result.engine && (
+                                                                    <span className="font-bold uppercase mr-1" title="Leitor que gerou esta linha">{ANALYSIS_ENGINE_LABELS[result.engine]} ·</span>
+                                                                )}
+                                                                {result.extractedData.time} - {batchGroupBy === 'doctor' || batchGroupBy === 'file'
+                                                                    ? result.extractedData.date
+                                                                    : result.extractedData.doctorName.split(' ').slice(0, 2).join(' ')}
+                                                            </div>
+
+                                                            {/* Copiar rápido na etiqueta */}
+                                                            <div
+                                                                onClick={(e) => copyToClipboard(result.generatedMessage, e)}
+                                                                className={`absolute top-1 right-1 p-1 rounded hover:bg-black/10 opacity-0 group-hover:opacity-100 transition-opacity ${selectedBatchIndex === index ? 'text-white' : 'text-gray-400'}`}
+                                                                title="Copiar texto"
+                                                            >
+                                                                <span className="material-symbols-outlined text-[10px]">content_copy</span>
+                                                            </div>
+                                                        </button>
+                                                    ))}
                                                 </div>
-                                            </button>
+                                            </div>
                                         ))}
                                     </div>
                                 </div>
                             ) : !loading && (
-                                /* Empty State */
-                                <div className="h-64 flex flex-col items-center justify-center text-center bg-white rounded-xl border border-dashed border-gray-300">
-                                    <span className="material-symbols-outlined text-4xl text-gray-300 mb-2">grid_view</span>
-                                    <p className="text-gray-500 text-sm font-medium">Os pacientes aparecerão aqui como etiquetas.</p>
-                                </div>
+                                <>
+                                    {/* Empty State */}
+                                    <div className="h-64 flex flex-col items-center justify-center text-center bg-white rounded-xl border border-dashed border-gray-300">
+                                        <span className="material-symbols-outlined text-4xl text-gray-300 mb-2">grid_view</span>
+                                        <p className="text-gray-500 text-sm font-medium">Os pacientes aparecerão aqui como etiquetas.</p>
+                                    </div>
+
+                                    {/* Recent campaigns - continue yesterday's confirmations */}
+                                    {recentCampaigns.length > 0 && (
+                                        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+                                            <h3 className="font-bold text-gray-700 text-sm flex items-center gap-2 mb-3">
+                                                <span className="material-symbols-outlined text-primary text-lg">history</span>
+                                                Campanhas Recentes
+                                            </h3>
+                                            <div className="flex flex-col gap-2">
+                                                {recentCampaigns.map(campaign => {
+                                                    const pending = campaign.entries.filter(e => e.status === 'not_sent' || e.status === 'sent' || e.status === 'no_answer').length;
+                                                    return (
+                                                        <div key={campaign.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-100 hover:border-primary/40 transition-colors">
+                                                            <div className="min-w-0">
+                                                                <p className="text-sm font-bold text-gray-700 truncate">{campaign.name}</p>
+                                                                <p className="text-[10px] text-gray-400">
+                                                                    {new Date(campaign.createdAt).toLocaleString()} · {campaign.entries.length} pacientes · {pending} pendentes
+                                                                    {campaign.closedAt && ' · Encerrada'}
+                                                                </p>
+                                                            </div>
+                                                            <button
+                                                                onClick={() => {
+                                                                    const reopened = campaign.closedAt ? setCampaignClosed(campaign, false) : campaign;
+                                                                    if (reopened !== campaign) commitCampaign(reopened);
+                                                                    openCampaign(reopened);
+                                                                }}
+                                                                className="shrink-0 text-xs font-bold px-3 py-1.5 rounded-lg bg-primary-light/30 text-primary border border-primary/30 hover:bg-primary-light transition-colors"
+                                                            >
+                                                                {campaign.closedAt ? 'Reabrir' : 'Continuar'}
+                                                            </button>
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        </div>
+                                    )}
+                                </>
                             )}
 
                             {/* Message Preview Area (Clean View for Batch) */}
                             {selectedBatchIndex !== null && activeResult && (
                                 <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex-1 animate-in fade-in slide-in-from-bottom-4">
                                     <div className="flex items-center justify-between mb-2">
-                                        <h3 className="font-bold text-gray-800 text-sm">Conferência da Mensagem</h3>
+                                        <h3 className="font-bold text-gray-800 text-sm flex items-center gap-2">
+                                            Conferência da Mensagem
+                                            {activeResult.engine && (
+                                                <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded-full bg-gray-100 text-gray-500 border border-gray-200">
+                                                    {ANALYSIS_ENGINE_LABELS[activeResult.engine]}
+                                                </span>
+                                            )}
+                                        </h3>
                                         <button
                                             onClick={() => copyToClipboard(activeResult.generatedMessage)}
                                             className="text-gray-400 hover:text-primary text-xs flex items-center gap-1"
@@ -865,10 +1959,103 @@ ${signature}`;
                                             Copiar
                                         </button>
                                     </div>
-                                    <textarea
-                                        className="w-full h-full min-h-[200px] bg-gray-50 rounded-lg p-4 border-none resize-none outline-none text-gray-700 text-sm leading-relaxed focus:ring-1 focus:ring-primary/20 transition-all"
+                                    {activeResult.warnings && activeResult.warnings.length > 0 && (
+                                        <div className="mb-2 p-2 bg-amber-50 border border-amber-200 rounded-lg flex flex-col gap-0.5">
+                                            {activeResult.warnings.map(warning => (
+                                                <p key={warning} className="text-[11px] text-amber-700 flex items-center gap-1">
+                                                    <span className="material-symbols-outlined text-sm">info</span>
+                                                    {warning}
+                                                </p>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {/* Number the WhatsApp link will open */}
+                                    <div className="flex flex-wrap items-center gap-1.5 mb-2">
+                                        {selectedWhatsappPhone ? (
+                                            <span className="text-[10px] font-bold px-2 py-0.5 rounded-full border bg-green-50 border-green-200 text-green-700 flex items-center gap-1">
+                                                <span className="material-symbols-outlined text-[12px]">smartphone</span>
+                                                WhatsApp: {formatPhone(selectedWhatsappPhone)}
+                                                {selectedWhatsappPhone.fixedNinthDigit && ' (9º dígito incluído)'}
+                                            </span>
+                                        ) : (
+                                            <span className="text-[10px] font-bold px-2 py-0.5 rounded-full border bg-red-50 border-red-200 text-red-700 flex items-center gap-1">
+                                                <span className="material-symbols-outlined text-[12px]">phone_disabled</span>
+                                                Sem celular válido{activeResult.extractedData.contact ? ` (${activeResult.extractedData.contact})` : ''}
+                                            </span>
+                                        )}
+                                    </div>
+                                    {/* Preparation of this row (rule match, batch default or picked by hand) */}
+                                    <div className="flex flex-wrap items-center gap-1.5 mb-2">
+                                        <span className="text-[10px] font-bold text-gray-400 uppercase">Preparo:</span>
+                                        <select
+                                            value={activeResult.preparation?.preparationId || ''}
+                                            onChange={(e) => handleRowPreparationChange(e.target.value)}
+                                            className="p-1 border border-gray-200 rounded-lg text-xs outline-none focus:border-primary bg-white"
+                                        >
+                                            <option value="">Sem preparo</option>
+                                            {preparations.map(p => (
+                                                <option key={p.id} value={p.id}>{p.title}</option>
+                                            ))}
+                                        </select>
+                                        {activeResult.preparation && (
+                                            <span className={`text-[10px] ${activeResult.preparation.source === 'rule' || activeResult.preparation.source === 'manual' || !hasPreparationRulesSet ? 'text-gray-400' : 'font-bold text-amber-700'}`}>
+                                                {PREPARATION_SOURCE_LABELS[activeResult.preparation.source]}
+                                            </span>
+                                        )}
+                                    </div>
+                                    {/* Procedure details of this row (read from the agenda, adjustable before sending) */}
+                                    {type === 'procedure_confirmation' && mode === 'batch' && (
+                                        <div className="flex flex-wrap items-center gap-1.5 mb-2">
+                                            <span className="text-[10px] font-bold text-gray-400 uppercase">Procedimento:</span>
+                                            <select
+                                                value={(activeResult.extractedData.procedureDetails || DEFAULT_PROCEDURE_DETAILS).arrivalOffsetMinutes}
+                                                onChange={(e) => handleRowProcedureChange({ arrivalOffsetMinutes: Number(e.target.value) })}
+                                                className="p-1 border border-gray-200 rounded-lg text-xs outline-none focus:border-primary bg-white"
+                                            >
+                                                {ARRIVAL_OFFSET_OPTIONS.map(minutes => (
+                                                    <option key={minutes} value={minutes}>{minutes === 0 ? 'Chegar no horário' : `Chegar ${minutes} min antes`}</option>
+                                                ))}
+                                            </select>
+                                            <select
+                                                value={(activeResult.extractedData.procedureDetails || DEFAULT_PROCEDURE_DETAILS).authorization}
+                                                onChange={(e) => handleRowProcedureChange({ authorization: e.target.value as ProcedureDetails['authorization'] })}
+                                                className="p-1 border border-gray-200 rounded-lg text-xs outline-none focus:border-primary bg-white"
+                                            >
+                                                {(Object.keys(PROCEDURE_AUTHORIZATION_LABELS) as ProcedureDetails['authorization'][]).map(status => (
+                                                    <option key={status} value={status}>Guia: {PROCEDURE_AUTHORIZATION_LABELS[status]}</option>
+                                                ))}
+                                            </select>
+                                            <label className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!activeResult.extractedData.procedureDetails?.companionRequired}
+                                                    onChange={(e) => handleRowProcedureChange({ companionRequired: e.target.checked })}
+                                                    className="accent-primary"
+                                                />
+                                                Acompanhante
+                                            </label>
+                                        </div>
+                                    )}
+                                    {confidenceEntries(activeResult.extractedData).length > 0 && (
+                                        <div className="flex flex-wrap items-center gap-1.5 mb-2">
+                                            <span className="text-[10px] font-bold text-gray-400 uppercase">Confiança OCR:</span>
+                                            {confidenceEntries(activeResult.extractedData).map(entry => (
+                                                <span
+                                                    key={entry.field}
+                                                    className={`text-[10px] font-bold px-2 py-0.5 rounded-full border ${entry.value < LOW_CONFIDENCE_THRESHOLD
+                                                        ? 'bg-amber-50 border-amber-200 text-amber-700'
+                                                        : 'bg-green-50 border-green-200 text-green-700'
+                                                        }`}
+                                                >
+                                                    {entry.label} {entry.value}%
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <WhatsappMessageEditor
+                                        className="h-full"
                                         value={activeResult.generatedMessage}
-                                        onChange={(e) => handleBatchMessageChange(e.target.value)}
+                                        onChange={handleBatchMessageChange}
                                     />
                                 </div>
                             )}
@@ -896,20 +2083,18 @@ ${signature}`;
                                     )}
                                 </div>
 
-                                <div className="flex-1 bg-gray-50 rounded-lg border border-gray-200 p-4 relative">
-                                    {activeResult ? (
-                                        <textarea
-                                            className="w-full h-full bg-transparent border-none resize-none outline-none text-gray-800 leading-relaxed font-sans text-sm"
-                                            value={activeResult.generatedMessage}
-                                            onChange={(e) => handleIndividualMessageChange(e.target.value)}
-                                        />
-                                    ) : (
-                                        <div className="h-full flex flex-col items-center justify-center text-gray-400 text-sm">
-                                            <span className="material-symbols-outlined text-3xl mb-2 opacity-50">edit_square</span>
-                                            <p>Preencha os dados à esquerda para gerar a mensagem aqui.</p>
-                                        </div>
-                                    )}
-                                </div>
+                                {activeResult ? (
+                                    <WhatsappMessageEditor
+                                        className="flex-1"
+                                        value={activeResult.generatedMessage}
+                                        onChange={handleIndividualMessageChange}
+                                    />
+                                ) : (
+                                    <div className="flex-1 bg-gray-50 rounded-lg border border-gray-200 p-4 flex flex-col items-center justify-center text-gray-400 text-sm">
+                                        <span className="material-symbols-outlined text-3xl mb-2 opacity-50">edit_square</span>
+                                        <p>Preencha os dados à esquerda para gerar a mensagem aqui.</p>
+                                    </div>
+                                )}
 
                                 {/* NEW FOOTER HERE */}
                                 {activeResult && (
@@ -936,6 +2121,38 @@ ${signature}`;
                 </div>
             </div>
 
+            {/* Agenda Layout Profiles Modal */}
+            {showTemplateModal && (
+                <MessageTemplateModal
+                    templates={messageTemplates}
+                    canEdit={isAdmin}
+                    userName={userSignatureName}
+                    initialTemplateId={type === 'daily_summary' ? undefined : type}
+                    unitValues={unitValues}
+                    onSave={handleSaveTemplates}
+                    onClose={() => setShowTemplateModal(false)}
+                />
+            )}
+
+            {mappingUpload?.spreadsheet && (
+                <SpreadsheetMappingModal
+                    fileName={mappingUpload.file.name}
+                    data={mappingUpload.spreadsheet}
+                    initialMapping={mappingUpload.mapping || guessSpreadsheetMapping(mappingUpload.spreadsheet.headers, findAgendaLayout(layouts, selectedLayoutId))}
+                    onConfirm={handleConfirmMapping}
+                    onClose={() => setMappingUploadId(null)}
+                />
+            )}
+
+            {showLayoutModal && (
+                <AgendaLayoutModal
+                    layouts={layouts}
+                    canEdit={isAdmin}
+                    onSave={handleSaveLayouts}
+                    onClose={() => setShowLayoutModal(false)}
+                />
+            )}
+
             {/* Preparation Management Modal - EXPANDED & IMPROVED */}
             {showPrepModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
@@ -972,6 +2189,58 @@ ${signature}`;
                             </div>
                         )}
 
+                        {/* Version History Overlay */}
+                        {historyPrep && (
+                            <div className="absolute inset-0 z-20 bg-white/95 backdrop-blur flex flex-col p-8 animate-in fade-in duration-200">
+                                <div className="flex justify-between items-start mb-6 border-b border-gray-100 pb-4">
+                                    <div>
+                                        <h3 className="text-xl font-bold text-gray-900">{historyPrep.title}</h3>
+                                        <p className="text-xs text-gray-500 font-bold uppercase mt-1">Histórico de Versões</p>
+                                    </div>
+                                    <button
+                                        onClick={() => setHistoryPrep(null)}
+                                        className="text-gray-400 hover:text-gray-600 p-2 hover:bg-gray-100 rounded-full transition-colors"
+                                    >
+                                        <span className="material-symbols-outlined text-2xl">close</span>
+                                    </button>
+                                </div>
+                                <div className="flex-1 overflow-y-auto space-y-3">
+                                    {prepVersions.length === 0 ? (
+                                        <p className="text-sm text-gray-400 text-center py-10">Nenhuma versão registrada.</p>
+                                    ) : prepVersions.map(version => (
+                                        <div key={version.id} className="p-4 border border-gray-200 rounded-lg bg-gray-50">
+                                            <div className="flex justify-between items-start gap-2 mb-2">
+                                                <div>
+                                                    <p className="text-sm font-bold text-gray-800">
+                                                        v{version.version} · {version.title}
+                                                        {version.version === historyPrep.version && (
+                                                            <span className="ml-2 text-[10px] font-bold uppercase bg-green-100 text-green-700 px-2 py-0.5 rounded-full">Atual</span>
+                                                        )}
+                                                        {version.deleted && (
+                                                            <span className="ml-2 text-[10px] font-bold uppercase bg-red-100 text-red-700 px-2 py-0.5 rounded-full">Excluído</span>
+                                                        )}
+                                                    </p>
+                                                    <p className="text-[10px] text-gray-400">
+                                                        {new Date(version.createdAt).toLocaleString()}{version.createdBy && ` por ${version.createdBy}`}
+                                                    </p>
+                                                </div>
+                                                {isAdmin && version.version !== historyPrep.version && !version.deleted && (
+                                                    <button
+                                                        onClick={() => handleRestoreVersion(version)}
+                                                        className="shrink-0 text-xs font-bold px-3 py-1.5 rounded-lg bg-primary-light/30 text-primary border border-primary/30 hover:bg-primary-light transition-colors flex items-center gap-1"
+                                                    >
+                                                        <span className="material-symbols-outlined text-sm">restore</span>
+                                                        Restaurar
+                                                    </button>
+                                                )}
+                                            </div>
+                                            <p className="whitespace-pre-wrap text-xs text-gray-700 leading-relaxed">{version.text}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-primary text-white shrink-0">
                             <h3 className="font-bold text-lg flex items-center gap-2">
                                 <span className="material-symbols-outlined">medical_information</span>
@@ -983,118 +2252,272 @@ ${signature}`;
                         </div>
 
                         <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
-                            {/* Left: Editor Column */}
-                            <div className="md:w-1/2 p-6 overflow-y-auto border-r border-gray-100 bg-gray-50">
-                                <h4 className="text-sm font-bold text-gray-700 mb-4 flex items-center gap-2">
-                                    <span className="material-symbols-outlined text-base">{editingPrepId ? 'edit' : 'add_circle'}</span>
-                                    {editingPrepId ? 'Editar Preparo' : 'Novo Preparo'}
-                                </h4>
-                                <div className="space-y-4">
-                                    <div>
-                                        <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Título</label>
-                                        <input
-                                            type="text"
-                                            placeholder="Ex: Jejum 8h"
-                                            value={newPrep.title}
-                                            onChange={(e) => setNewPrep({ ...newPrep, title: e.target.value })}
-                                            className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none bg-white"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Instruções</label>
-                                        <textarea
-                                            placeholder="Digite as instruções completas aqui..."
-                                            value={newPrep.text}
-                                            onChange={(e) => setNewPrep({ ...newPrep, text: e.target.value })}
-                                            className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none resize-none h-40 bg-white leading-relaxed"
-                                        />
-                                        <p className="text-[10px] text-gray-400 mt-1 text-right">Quebras de linha serão respeitadas.</p>
-                                    </div>
+                            {/* Left: Editor Column (admins only, the library is shared by everyone) */}
+                            {isAdmin ? (
+                                <div className="md:w-1/2 p-6 overflow-y-auto border-r border-gray-100 bg-gray-50">
+                                    <h4 className="text-sm font-bold text-gray-700 mb-4 flex items-center gap-2">
+                                        <span className="material-symbols-outlined text-base">{editingPrepId ? 'edit' : 'add_circle'}</span>
+                                        {editingPrepId ? 'Editar Preparo' : 'Novo Preparo'}
+                                    </h4>
+                                    <div className="space-y-4">
+                                        <div>
+                                            <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Título</label>
+                                            <input
+                                                type="text"
+                                                placeholder="Ex: Jejum 8h"
+                                                value={newPrep.title}
+                                                onChange={(e) => setNewPrep({ ...newPrep, title: e.target.value })}
+                                                className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none bg-white"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Instruções</label>
+                                            <textarea
+                                                placeholder="Digite as instruções completas aqui..."
+                                                value={newPrep.text}
+                                                onChange={(e) => setNewPrep({ ...newPrep, text: e.target.value })}
+                                                className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none resize-none h-40 bg-white leading-relaxed"
+                                            />
+                                            <p className="text-[10px] text-gray-400 mt-1 text-right">Quebras de linha serão respeitadas.</p>
+                                        </div>
 
-                                    <div className="flex gap-2">
-                                        {editingPrepId && (
+                                        {/* Rules used to pick this preparation for each row of a batch */}
+                                        <div className="p-3 bg-white border border-gray-200 rounded-lg space-y-3">
+                                            <div>
+                                                <p className="text-[10px] font-bold text-gray-500 uppercase">Aplicar automaticamente (lote)</p>
+                                                <p className="text-[10px] text-gray-400">Separe por vírgula. Campos vazios valem para todos; sem nenhuma regra o preparo só é aplicado manualmente.</p>
+                                            </div>
+                                            <div>
+                                                <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Procedimentos (palavras-chave)</label>
+                                                <input
+                                                    type="text"
+                                                    placeholder="Ex: Colonoscopia, Retossigmoidoscopia"
+                                                    value={newPrep.procedures}
+                                                    onChange={(e) => setNewPrep({ ...newPrep, procedures: e.target.value })}
+                                                    className="w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none bg-white"
+                                                />
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Médicos</label>
+                                                    <input
+                                                        type="text"
+                                                        placeholder="Ex: Orlando Costa"
+                                                        value={newPrep.doctors}
+                                                        onChange={(e) => setNewPrep({ ...newPrep, doctors: e.target.value })}
+                                                        className="w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none bg-white"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Especialidades</label>
+                                                    <input
+                                                        type="text"
+                                                        placeholder="Ex: Gastroenterologia"
+                                                        value={newPrep.specialties}
+                                                        onChange={(e) => setNewPrep({ ...newPrep, specialties: e.target.value })}
+                                                        className="w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none bg-white"
+                                                    />
+                                                </div>
+                                            </div>
+                                        </div>
+
+                                        <div className="flex gap-2">
+                                            {editingPrepId && (
+                                                <button
+                                                    onClick={handleCancelEditPrep}
+                                                    className="flex-1 py-2.5 bg-gray-200 text-gray-600 rounded-lg font-bold text-sm hover:bg-gray-300 transition-colors"
+                                                >
+                                                    Cancelar
+                                                </button>
+                                            )}
                                             <button
-                                                onClick={handleCancelEditPrep}
-                                                className="flex-1 py-2.5 bg-gray-200 text-gray-600 rounded-lg font-bold text-sm hover:bg-gray-300 transition-colors"
+                                                onClick={handleSavePreparation}
+                                                disabled={savingPrep || !newPrep.title.trim() || !newPrep.text.trim()}
+                                                className={`flex-1 py-2.5 rounded-lg font-bold text-sm transition-colors shadow-sm flex items-center justify-center gap-2 ${newPrep.title.trim() && newPrep.text.trim()
+                                                    ? (editingPrepId ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-primary text-white hover:bg-primary-dark')
+                                                    : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                                                    }`}
                                             >
-                                                Cancelar
+                                                <span className="material-symbols-outlined text-base">{editingPrepId ? 'save' : 'add'}</span>
+                                                {editingPrepId ? 'Salvar Alterações' : 'Adicionar'}
                                             </button>
-                                        )}
-                                        <button
-                                            onClick={handleSavePreparation}
-                                            disabled={!newPrep.title.trim() || !newPrep.text.trim()}
-                                            className={`flex-1 py-2.5 rounded-lg font-bold text-sm transition-colors shadow-sm flex items-center justify-center gap-2 ${newPrep.title.trim() && newPrep.text.trim()
-                                                ? (editingPrepId ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-primary text-white hover:bg-primary-dark')
-                                                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                                                }`}
-                                        >
-                                            <span className="material-symbols-outlined text-base">{editingPrepId ? 'save' : 'add'}</span>
-                                            {editingPrepId ? 'Salvar Alterações' : 'Adicionar'}
-                                        </button>
+                                        </div>
                                     </div>
                                 </div>
-                            </div>
+                            ) : (
+                                <div className="md:w-1/2 p-6 border-r border-gray-100 bg-gray-50 flex flex-col items-center justify-center text-center text-gray-500 gap-2">
+                                    <span className="material-symbols-outlined text-3xl opacity-40">lock</span>
+                                    <p className="text-sm font-bold">Biblioteca compartilhada</p>
+                                    <p className="text-xs">Somente administradores podem criar, editar ou restaurar preparos.</p>
+                                </div>
+                            )}
 
                             {/* Right: List Column */}
                             <div className="md:w-1/2 p-6 overflow-y-auto">
                                 <div className="flex justify-between items-center mb-4">
-                                    <h4 className="text-sm font-bold text-gray-700">Preparos Cadastrados ({preparations.length})</h4>
+                                    <h4 className="text-sm font-bold text-gray-700">
+                                        {showDeletedPreps ? `Preparos Removidos (${deletedPreparations.length})` : `Preparos Cadastrados (${preparations.length})`}
+                                    </h4>
+                                    <button
+                                        onClick={toggleDeletedPreparations}
+                                        className="text-xs font-bold text-gray-500 hover:text-primary flex items-center gap-1 transition-colors"
+                                    >
+                                        <span className="material-symbols-outlined text-base">{showDeletedPreps ? 'list' : 'delete_sweep'}</span>
+                                        {showDeletedPreps ? 'Ver cadastrados' : 'Ver removidos'}
+                                    </button>
                                 </div>
-
-                                <div className="space-y-3">
-                                    {preparations.length === 0 ? (
-                                        <div className="text-center py-10 text-gray-400 border-2 border-dashed border-gray-100 rounded-lg">
-                                            <span className="material-symbols-outlined text-3xl mb-2 opacity-30">playlist_add</span>
-                                            <p className="text-sm">Nenhum preparo cadastrado.</p>
-                                        </div>
-                                    ) : (
-                                        preparations.map(prep => (
-                                            <div
-                                                key={prep.id}
-                                                className={`flex items-center justify-between p-3 border rounded-lg transition-all group ${editingPrepId === prep.id
-                                                    ? 'border-blue-300 bg-blue-50 ring-1 ring-blue-300'
-                                                    : 'border-gray-200 hover:border-primary/50 hover:shadow-sm bg-white'
-                                                    }`}
+                                {prepLibraryError && (
+                                    <div className="mb-3 p-2 bg-amber-50 border border-amber-200 rounded-lg text-[11px] text-amber-800 flex items-center gap-1">
+                                        <span className="material-symbols-outlined text-sm">cloud_off</span>
+                                        {prepLibraryError}
+                                    </div>
+                                )}
+                                {legacyPreparations.length > 0 && (
+                                    <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-[11px] text-blue-800 flex flex-col gap-2">
+                                        <p className="flex items-start gap-1">
+                                            <span className="material-symbols-outlined text-sm">upload</span>
+                                            <span>
+                                                {legacyPreparations.length} preparo(s) salvo(s) apenas neste navegador, antes da biblioteca compartilhada:
+                                                {' '}<b>{legacyPreparations.map(p => p.title).join(', ')}</b>.
+                                                {!isAdmin && ' Peça a um administrador para cadastrá-los na biblioteca.'}
+                                            </span>
+                                        </p>
+                                        <div className="flex justify-end gap-2">
+                                            <button
+                                                onClick={handleDismissLegacyPreparations}
+                                                className="px-3 py-1 rounded-lg font-bold text-gray-500 hover:bg-blue-100 transition-colors"
                                             >
-                                                <div className="flex items-center gap-3 overflow-hidden">
-                                                    <div className={`size-8 rounded-full flex items-center justify-center shrink-0 ${editingPrepId === prep.id ? 'bg-blue-200 text-blue-700' : 'bg-gray-100 text-gray-500'}`}>
-                                                        <span className="material-symbols-outlined text-lg">format_list_bulleted</span>
-                                                    </div>
-                                                    <span className="font-bold text-sm text-gray-800 truncate">
-                                                        {prep.title}
+                                                Ignorar
+                                            </button>
+                                            {isAdmin && (
+                                                <button
+                                                    onClick={handleImportLegacyPreparations}
+                                                    disabled={savingPrep}
+                                                    className="px-3 py-1 rounded-lg font-bold bg-primary text-white hover:bg-primary-dark disabled:opacity-50 transition-colors"
+                                                >
+                                                    Importar para a biblioteca
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {showDeletedPreps ? (
+                                    <div className="space-y-3">
+                                        {deletedPreparations.length === 0 ? (
+                                            <div className="text-center py-10 text-gray-400 border-2 border-dashed border-gray-100 rounded-lg">
+                                                <span className="material-symbols-outlined text-3xl mb-2 opacity-30">delete_sweep</span>
+                                                <p className="text-sm">Nenhum preparo removido.</p>
+                                            </div>
+                                        ) : deletedPreparations.map(prep => (
+                                            <div key={prep.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg bg-gray-50">
+                                                <div className="min-w-0">
+                                                    <span className="font-bold text-sm text-gray-500 line-through truncate block">{prep.title}</span>
+                                                    <span className="text-[10px] text-gray-400 truncate block">
+                                                        Removido{prep.updatedBy && ` por ${prep.updatedBy}`}{prep.deletedAt && ` em ${new Date(prep.deletedAt).toLocaleString()}`}
                                                     </span>
                                                 </div>
-
-                                                <div className="flex gap-1 shrink-0 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                                                <div className="flex gap-1 shrink-0">
                                                     <button
-                                                        onClick={() => setViewingPrep(prep)}
-                                                        className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded transition-colors"
-                                                        title="Ver conteúdo"
+                                                        onClick={() => openPreparationHistory(prep)}
+                                                        className="p-1.5 text-gray-400 hover:text-primary hover:bg-primary-light/30 rounded transition-colors"
+                                                        title="Histórico de versões"
                                                     >
-                                                        <span className="material-symbols-outlined text-lg">visibility</span>
-                                                    </button>
-                                                    <button
-                                                        onClick={() => handleEditPreparation(prep)}
-                                                        className={`p-1.5 rounded transition-colors ${editingPrepId === prep.id
-                                                            ? 'text-blue-600 bg-blue-100'
-                                                            : 'text-gray-400 hover:text-blue-600 hover:bg-blue-50'
-                                                            }`}
-                                                        title="Editar"
-                                                    >
-                                                        <span className="material-symbols-outlined text-lg">edit</span>
-                                                    </button>
-                                                    <button
-                                                        onClick={() => handleDeletePreparation(prep.id)}
-                                                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
-                                                        title="Excluir"
-                                                    >
-                                                        <span className="material-symbols-outlined text-lg">delete</span>
+                                                        <span className="material-symbols-outlined text-lg">history</span>
                                                     </button>
+                                                    {isAdmin && (
+                                                        <button
+                                                            onClick={() => handleRestoreDeletedPreparation(prep)}
+                                                            disabled={savingPrep}
+                                                            className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded transition-colors disabled:opacity-50"
+                                                            title="Restaurar a última versão antes da exclusão"
+                                                        >
+                                                            <span className="material-symbols-outlined text-lg">restore_from_trash</span>
+                                                        </button>
+                                                    )}
                                                 </div>
                                             </div>
-                                        ))
-                                    )}
-                                </div>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {preparations.length === 0 ? (
+                                            <div className="text-center py-10 text-gray-400 border-2 border-dashed border-gray-100 rounded-lg">
+                                                <span className="material-symbols-outlined text-3xl mb-2 opacity-30">playlist_add</span>
+                                                <p className="text-sm">Nenhum preparo cadastrado.</p>
+                                            </div>
+                                        ) : (
+                                            preparations.map(prep => (
+                                                <div
+                                                    key={prep.id}
+                                                    className={`flex items-center justify-between p-3 border rounded-lg transition-all group ${editingPrepId === prep.id
+                                                        ? 'border-blue-300 bg-blue-50 ring-1 ring-blue-300'
+                                                        : 'border-gray-200 hover:border-primary/50 hover:shadow-sm bg-white'
+                                                        }`}
+                                                >
+                                                    <div className="flex items-center gap-3 overflow-hidden">
+                                                        <div className={`size-8 rounded-full flex items-center justify-center shrink-0 ${editingPrepId === prep.id ? 'bg-blue-200 text-blue-700' : 'bg-gray-100 text-gray-500'}`}>
+                                                            <span className="material-symbols-outlined text-lg">format_list_bulleted</span>
+                                                        </div>
+                                                        <div className="min-w-0">
+                                                            <span className="font-bold text-sm text-gray-800 truncate block">
+                                                                {prep.title}
+                                                            </span>
+                                                            {hasPreparationRules(prep) && (
+                                                                <span className="text-[10px] text-gray-400 truncate block" title="Regras de aplicação automática">
+                                                                    Auto: {[...prep.rules!.procedures, ...prep.rules!.doctors, ...prep.rules!.specialties].join(', ')}
+                                                                </span>
+                                                            )}
+                                                            {prep.version && (
+                                                                <span className="text-[10px] text-gray-400 truncate block">
+                                                                    v{prep.version}{prep.updatedBy && ` · ${prep.updatedBy}`}{prep.updatedAt && ` · ${new Date(prep.updatedAt).toLocaleString()}`}
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                    </div>
+
+                                                    <div className="flex gap-1 shrink-0 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                                                        <button
+                                                            onClick={() => setViewingPrep(prep)}
+                                                            className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded transition-colors"
+                                                            title="Ver conteúdo"
+                                                        >
+                                                            <span className="material-symbols-outlined text-lg">visibility</span>
+                                                        </button>
+                                                        <button
+                                                            onClick={() => openPreparationHistory(prep)}
+                                                            className="p-1.5 text-gray-400 hover:text-primary hover:bg-primary-light/30 rounded transition-colors"
+                                                            title="Histórico de versões"
+                                                        >
+                                                            <span className="material-symbols-outlined text-lg">history</span>
+                                                        </button>
+                                                        {isAdmin && (
+                                                            <>
+                                                                <button
+                                                                    onClick={() => handleEditPreparation(prep)}
+                                                                    className={`p-1.5 rounded transition-colors ${editingPrepId === prep.id
+                                                                        ? 'text-blue-600 bg-blue-100'
+                                                                        : 'text-gray-400 hover:text-blue-600 hover:bg-blue-50'
+                                                                        }`}
+                                                                    title="Editar"
+                                                                >
+                                                                    <span className="material-symbols-outlined text-lg">edit</span>
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => handleDeletePreparation(prep.id)}
+                                                                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                                    title="Excluir"
+                                                                >
+                                                                    <span className="material-symbols-outlined text-lg">delete</span>
+                                                                </button>
+                                                            </>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            ))
+                                        )}
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
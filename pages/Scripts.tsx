@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Script, ScriptCategory } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import WhatsappMessageEditor from '../components/WhatsappMessageEditor';
 
 // Mock Data for Categories
 const INITIAL_CATEGORIES: ScriptCategory[] = [
@@ -432,11 +433,11 @@ const Scripts: React.FC = () => {
                             <div>
                                 <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Conteúdo da Mensagem *</label>
                                 <p className="text-[10px] text-gray-400 mb-1">Dica: Use <b>[MEU_NOME]</b> para o sistema inserir seu nome automaticamente ao copiar.</p>
-                                <textarea
+                                <WhatsappMessageEditor
                                     value={scriptForm.content}
-                                    onChange={(e) => setScriptForm({ ...scriptForm, content: e.target.value })}
-                                    className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:border-primary outline-none min-h-[120px] resize-none"
+                                    onChange={(content) => setScriptForm({ ...scriptForm, content })}
                                     placeholder="Ex: Olá! Eu sou [MEU_NOME] da Central de Agendamento..."
+                                    previewText={(content) => content.replace(/\[MEU_NOME\]/g, getUserShortName() || '[Seu Nome]')}
                                 />
                             </div>
 
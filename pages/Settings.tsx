@@ -1,10 +1,97 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { MessageTemplate } from '../types';
+import {
+    dismissLegacyMessageTemplates, fetchMessageTemplates, findLegacyMessageTemplates, importLegacyMessageTemplates,
+    loadMessageTemplates, saveMessageTemplate, subscribeToMessageTemplates
+} from '../services/messageTemplateService';
+import MessageTemplateModal from '../components/MessageTemplateModal';
+import { AnalysisProviderId, loadAnalysisProviderId, saveAnalysisProviderId } from '../services/analysisProvider';
+import { ANALYSIS_PROVIDERS } from '../services/analysisProviders';
+import { fetchPrivacyEnforced, loadPrivacySettings, PrivacySettings, savePrivacyEnforced, savePrivacySettings } from '../services/redactionService';
 
 const Settings: React.FC = () => {
     const { user } = useAuth();
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // --- Message Templates ---
+    const [messageTemplates, setMessageTemplates] = useState<MessageTemplate[]>(() => loadMessageTemplates());
+    const [showTemplateModal, setShowTemplateModal] = useState(false);
+    const [legacyTemplates, setLegacyTemplates] = useState<MessageTemplate[]>([]);
+    const [importingTemplates, setImportingTemplates] = useState(false);
+
+    // Shared templates, followed live so an admin's edit reaches everyone
+    useEffect(() => {
+        const refresh = () => fetchMessageTemplates()
+            .then(list => {
+                setMessageTemplates(list);
+                setLegacyTemplates(findLegacyMessageTemplates(list));
+            })
+            .catch(error => console.error('Error fetching message templates:', error));
+        refresh();
+        return subscribeToMessageTemplates(refresh);
+    }, []);
+
+    // Only the edited template goes to the shared table; errors are shown by the modal
+    const handleSaveTemplates = async (updated: MessageTemplate[]) => {
+        const saved = await Promise.all(updated.filter(t => !messageTemplates.includes(t)).map(saveMessageTemplate));
+        setMessageTemplates(prev => prev.map(t => saved.find(s => s.id === t.id) || t));
+    };
+
+    const handleImportLegacyTemplates = async () => {
+        if (!user?.isAdmin) return;
+        setImportingTemplates(true);
+        try {
+            const imported = await importLegacyMessageTemplates(legacyTemplates);
+            setMessageTemplates(prev => prev.map(t => imported.find(i => i.id === t.id) || t));
+            setLegacyTemplates([]);
+        } catch (error: any) {
+            console.error('Error importing local message templates:', error);
+            alert(`Erro ao publicar modelos: ${error.message || 'Erro desconhecido'}`);
+        } finally {
+            setImportingTemplates(false);
+        }
+    };
+
+    const handleDismissLegacyTemplates = () => {
+        dismissLegacyMessageTemplates();
+        setLegacyTemplates([]);
+    };
+
+    // --- Document Analysis Provider ---
+    const [analysisProviderId, setAnalysisProviderId] = useState<AnalysisProviderId>(() => loadAnalysisProviderId());
+
+    const handleProviderChange = (id: AnalysisProviderId) => {
+        setAnalysisProviderId(id);
+        saveAnalysisProviderId(id);
+    };
+
+    // --- Privacy Mode (redacted text sent to the AI) ---
+    const [privacy, setPrivacy] = useState<PrivacySettings>(() => loadPrivacySettings());
+
+    const handlePrivacyChange = (changes: Partial<PrivacySettings>) => {
+        const updated = { ...privacy, ...changes };
+        setPrivacy(updated);
+        savePrivacySettings(updated);
+    };
+
+    useEffect(() => {
+        fetchPrivacyEnforced()
+            .then(enforced => setPrivacy(prev => ({ ...prev, enforced })))
+            .catch(error => console.error('Error fetching the privacy mode setting:', error));
+    }, []);
+
+    // Applies to every user, so it is stored in Supabase (admins only)
+    const handlePrivacyEnforcedChange = async (enforced: boolean) => {
+        try {
+            await savePrivacyEnforced(enforced);
+            setPrivacy(prev => ({ ...prev, enforced }));
+        } catch (error: any) {
+            console.error('Error saving the privacy mode setting:', error);
+            alert(`Erro ao salvar a exigência do modo privacidade: ${error.message || 'Erro desconhecido'}`);
+        }
+    };
+
     // --- Stats State ---
     const [stats, setStats] = useState({
         professionals: 0,
@@ -54,6 +141,14 @@ const Settings: React.FC = () => {
                 mediportal_allocations: localStorage.getItem('mediportal_allocations'),
                 mediportal_preparations: localStorage.getItem('mediportal_preparations'),
                 mediportal_units_info: localStorage.getItem('mediportal_units_info'),
+                mediportal_agenda_layouts: localStorage.getItem('mediportal_agenda_layouts'),
+                mediportal_spreadsheet_mappings: localStorage.getItem('mediportal_spreadsheet_mappings'),
+                mediportal_message_templates: localStorage.getItem('mediportal_message_templates'),
+                mediportal_outreach_campaigns: localStorage.getItem('mediportal_outreach_campaigns'),
+                mediportal_patient_name_format: localStorage.getItem('mediportal_patient_name_format'),
+                mediportal_agenda_snapshots: localStorage.getItem('mediportal_agenda_snapshots'),
+                mediportal_analysis_provider: localStorage.getItem('mediportal_analysis_provider'),
+                mediportal_privacy_mode: localStorage.getItem('mediportal_privacy_mode'),
             }
         };
 
@@ -248,6 +343,134 @@ const Settings: React.FC = () => {
                 </div>
             </div>
 
+            {/* Message Templates Section */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex items-center gap-2">
+                    <span className="material-symbols-outlined text-gray-500">edit_note</span>
+                    <h3 className="font-bold text-gray-800">Modelos de Mensagem</h3>
+                </div>
+                <div className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex flex-col gap-1">
+                        {messageTemplates.map(t => (
+                            <p key={t.id} className="text-sm text-gray-600">
+                                <span className="font-bold text-gray-800">{t.name}</span>
+                                <span className="text-xs text-gray-400 ml-2">
+                                    {t.updatedAt ? `Editado em ${new Date(t.updatedAt).toLocaleDateString()}` : 'Texto original'}
+                                </span>
+                            </p>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => setShowTemplateModal(true)}
+                        className="px-5 py-2.5 bg-primary hover:bg-primary-dark text-white font-bold rounded-xl transition-colors flex items-center justify-center gap-2"
+                    >
+                        <span className="material-symbols-outlined">{user?.isAdmin ? 'edit' : 'visibility'}</span>
+                        {user?.isAdmin ? 'Editar Modelos' : 'Ver Modelos'}
+                    </button>
+                </div>
+                {user?.isAdmin && legacyTemplates.length > 0 && (
+                    <div className="mx-6 mb-6 p-3 bg-blue-50 border border-blue-200 rounded-lg text-xs text-blue-800 flex flex-col md:flex-row md:items-center justify-between gap-2">
+                        <p className="flex items-start gap-1">
+                            <span className="material-symbols-outlined text-sm">upload</span>
+                            <span>
+                                Modelo(s) editado(s) apenas neste navegador, antes de os modelos serem compartilhados:
+                                {' '}<b>{legacyTemplates.map(t => t.name).join(', ')}</b>. Publique-os para que todos os usuários passem a usá-los.
+                            </span>
+                        </p>
+                        <div className="flex justify-end gap-2 shrink-0">
+                            <button
+                                onClick={handleDismissLegacyTemplates}
+                                className="px-3 py-1 rounded-lg font-bold text-gray-500 hover:bg-blue-100 transition-colors"
+                            >
+                                Ignorar
+                            </button>
+                            <button
+                                onClick={handleImportLegacyTemplates}
+                                disabled={importingTemplates}
+                                className="px-3 py-1 rounded-lg font-bold bg-primary text-white hover:bg-primary-dark disabled:opacity-50 transition-colors"
+                            >
+                                Publicar para todos
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Document Analysis Provider Section */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex items-center gap-2">
+                    <span className="material-symbols-outlined text-gray-500">document_scanner</span>
+                    <h3 className="font-bold text-gray-800">Leitura de Agendas</h3>
+                </div>
+                <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {ANALYSIS_PROVIDERS.map(provider => {
+                        const unavailable = provider.unavailableReason();
+                        const selected = analysisProviderId === provider.id;
+                        return (
+                            <button
+                                key={provider.id}
+                                onClick={() => handleProviderChange(provider.id)}
+                                className={`p-4 rounded-xl border text-left transition-all flex flex-col gap-1 ${selected
+                                    ? 'border-primary bg-primary-light/20 ring-1 ring-primary'
+                                    : 'border-gray-200 hover:border-primary/50'
+                                    }`}
+                            >
+                                <span className="font-bold text-sm text-gray-800 flex items-center gap-1.5">
+                                    <span className={`material-symbols-outlined text-lg ${selected ? 'text-primary' : 'text-gray-400'}`}>
+                                        {selected ? 'radio_button_checked' : 'radio_button_unchecked'}
+                                    </span>
+                                    {provider.label}
+                                </span>
+                                <span className="text-xs text-gray-500 leading-relaxed">{provider.description}</span>
+                                <span className="text-[10px] text-gray-400">
+                                    {provider.requiresNetwork ? 'Requer internet' : 'Funciona sem internet'} · limite de {Math.round(provider.timeoutMs / 1000)}s
+                                    {provider.maxRetries > 0 && ` · até ${provider.maxRetries} nova(s) tentativa(s)`}
+                                </span>
+                                {unavailable && (
+                                    <span className="text-[10px] font-bold text-amber-700 flex items-center gap-1 mt-1">
+                                        <span className="material-symbols-outlined text-sm">warning</span>
+                                        {unavailable}
+                                    </span>
+                                )}
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="px-6 pb-6 flex flex-col gap-2">
+                    <label className={`flex items-start gap-3 p-4 rounded-xl border border-gray-200 ${privacy.enforced ? 'opacity-70' : 'cursor-pointer'}`}>
+                        <input
+                            type="checkbox"
+                            checked={privacy.enabled || privacy.enforced}
+                            disabled={privacy.enforced}
+                            onChange={(e) => handlePrivacyChange({ enabled: e.target.checked })}
+                            className="accent-primary mt-0.5"
+                        />
+                        <span className="flex flex-col gap-0.5">
+                            <span className="font-bold text-sm text-gray-800 flex items-center gap-1.5">
+                                <span className="material-symbols-outlined text-lg text-primary">shield_person</span>
+                                Modo privacidade
+                                {privacy.enforced && <span className="text-[10px] font-bold text-primary bg-primary-light/30 px-2 py-0.5 rounded-full">Obrigatório</span>}
+                            </span>
+                            <span className="text-xs text-gray-500 leading-relaxed">
+                                Com a leitura por IA, o texto da agenda é extraído no navegador e nomes, telefones, carteirinhas e CPFs
+                                são trocados por marcadores antes do envio. Os dados reais são recolocados nas mensagens localmente.
+                            </span>
+                        </span>
+                    </label>
+                    {user?.isAdmin && (
+                        <label className="flex items-center gap-2 text-xs text-gray-500 cursor-pointer ml-1">
+                            <input
+                                type="checkbox"
+                                checked={privacy.enforced}
+                                onChange={(e) => handlePrivacyEnforcedChange(e.target.checked)}
+                                className="accent-primary"
+                            />
+                            Exigir o modo privacidade para todos os usuários
+                        </label>
+                    )}
+                </div>
+            </div>
+
             {/* Info Section */}
             <div className="bg-blue-50 border border-blue-100 rounded-xl p-6 flex items-start gap-4">
                 <span className="material-symbols-outlined text-blue-600 text-3xl">info</span>
@@ -260,6 +483,16 @@ const Settings: React.FC = () => {
                 </div>
             </div>
 
+            {showTemplateModal && (
+                <MessageTemplateModal
+                    templates={messageTemplates}
+                    canEdit={!!user?.isAdmin}
+                    userName={user?.name}
+                    onSave={handleSaveTemplates}
+                    onClose={() => setShowTemplateModal(false)}
+                />
+            )}
+
         </div>
     );
 };
@@ -0,0 +1,106 @@
+import { AgendaColumn, AgendaLayoutProfile } from "../types";
+
+const STORAGE_KEY = 'mediportal_agenda_layouts';
+
+export const AGENDA_COLUMN_LABELS: Record<AgendaColumn, string> = {
+    time: 'Horário',
+    patient: 'Descrição (Paciente)',
+    event: 'Evento',
+    insurance: 'Convênio',
+    contact: 'Contato',
+    status: 'Status'
+};
+
+/**
+ * Built-in profile matching the CDU "Dia do Prestador" export:
+ * "HORÁRIO | DESCRIÇÃO | EVENTO | CONVÊNIO | CONTATO | STATUS"
+ */
+export const DEFAULT_AGENDA_LAYOUT: AgendaLayoutProfile = {
+    id: 'default',
+    name: 'Padrão CDU (Dia do Prestador)',
+    isDefault: true,
+    columns: ['time', 'patient', 'event', 'insurance', 'contact', 'status'],
+    columnHeaders: {
+        time: ['HORÁRIO', 'HORA'],
+        patient: ['DESCRIÇÃO', 'PACIENTE'],
+        event: ['EVENTO'],
+        insurance: ['CONVÊNIO', 'PLANO'],
+        contact: ['CONTATO', 'TELEFONE'],
+        status: ['STATUS', 'SITUAÇÃO']
+    },
+    statusKeywords: ['Confirmado', 'Realizado', 'Falta', 'Agendado', 'Desistencia', 'Cancelado', 'Atendido', 'Em Atendimento'],
+    insuranceKeywords: [
+        'Unimed', 'Particular', 'Cassi', 'Iamspe', 'Bradesco', 'Sulamerica', 'Allianz', 'Porto Seguro',
+        'Amil', 'Mediservice', 'Fusex', 'Apas', 'Cabesp', 'Geap', 'Saude Caixa', 'Postal Saude'
+    ],
+    eventKeywords: [
+        'Primeira Consulta', 'Segunda Consulta', 'Consulta', 'Retorno de Consulta', 'Retorno', 'Exame', 'Procedimento', 'Cirurgia', 'Avaliação',
+        'Ecografia', 'Bioimpedancia', 'Teste Cutaneo', 'Imunoterapia', 'Pequena Cirurgia'
+    ],
+    junkTerms: [
+        'Intercambio', 'Intercâmbio', 'Bauru', 'Cooperado', 'Beneficiario', 'Dependente', 'Titular'
+    ],
+    // Removed 'LIVRE' so we can track free slots
+    ignoredLines: ['BLOQUEIO', 'Agenda do Dia', 'Relatório', 'Página', 'Impresso em', 'Emissão', 'Total', 'Qtde'],
+    stampTerms: ['Impresso em', 'Emissão', 'Gerado em', 'Página'],
+    doctorHeaderPattern: '(Dr\\.|Dra\\.|Medico|Prestador)[:\\s]+([A-Za-z\\s\\._]+)',
+    dateHeaderPattern: '(\\d{2}\\/\\d{2}\\/\\d{4})'
+};
+
+/**
+ * Compiles a user supplied regex source. Returns null when the pattern is invalid
+ * so a broken profile never crashes the parser.
+ */
+export const compileHeaderPattern = (source: string): RegExp | null => {
+    if (!source.trim()) return null;
+    try {
+        return new RegExp(source, 'i');
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Returns a list of problems with the profile, empty when it can be saved.
+ */
+export const validateAgendaLayout = (profile: AgendaLayoutProfile): string[] => {
+    const errors: string[] = [];
+    if (!profile.name.trim()) errors.push('Informe um nome para o layout.');
+    if (!profile.columns.includes('time')) errors.push('O layout precisa da coluna Horário.');
+    if (!profile.columns.includes('patient')) errors.push('O layout precisa da coluna Paciente.');
+    if (new Set(profile.columns).size !== profile.columns.length) errors.push('Colunas repetidas no layout.');
+    if (profile.doctorHeaderPattern.trim() && !compileHeaderPattern(profile.doctorHeaderPattern)) {
+        errors.push('Expressão do cabeçalho de médico inválida.');
+    }
+    if (profile.dateHeaderPattern.trim() && !compileHeaderPattern(profile.dateHeaderPattern)) {
+        errors.push('Expressão do cabeçalho de data inválida.');
+    }
+    return errors;
+};
+
+/**
+ * Loads custom profiles from localStorage. The built-in profile is always first.
+ */
+export const loadAgendaLayouts = (): AgendaLayoutProfile[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        const custom: AgendaLayoutProfile[] = saved ? JSON.parse(saved) : [];
+        // Older saves may miss newer fields, fill them from the default profile
+        return [DEFAULT_AGENDA_LAYOUT, ...custom.map(p => ({ ...DEFAULT_AGENDA_LAYOUT, ...p, isDefault: false }))];
+    } catch (e) {
+        console.error('Error loading agenda layouts:', e);
+        return [DEFAULT_AGENDA_LAYOUT];
+    }
+};
+
+/**
+ * Persists custom profiles only, the built-in one lives in code.
+ */
+export const saveAgendaLayouts = (profiles: AgendaLayoutProfile[]) => {
+    const custom = profiles.filter(p => !p.isDefault);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+};
+
+export const findAgendaLayout = (profiles: AgendaLayoutProfile[], id: string): AgendaLayoutProfile => {
+    return profiles.find(p => p.id === id) || DEFAULT_AGENDA_LAYOUT;
+};
@@ -0,0 +1,179 @@
+import { AgendaSnapshot, AgendaSnapshotEntry, DocumentAnalysisResult, ExtractedData } from "../types";
+import { ParsedAppointment } from "./localDocumentService";
+import { appointmentKey } from "./outreachService";
+
+const STORAGE_KEY = 'mediportal_agenda_snapshots';
+
+// Versions kept per doctor/day, and overall, so localStorage does not grow forever
+const MAX_VERSIONS_PER_AGENDA = 5;
+const MAX_SNAPSHOTS = 200;
+
+const CANCELLED_STATUS = /cancel|desist/i;
+
+const normalize = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toUpperCase();
+
+export const snapshotId = (doctor: string, date: string) => `${normalize(doctor)}|${normalize(date)}`;
+
+export const isCancelledStatus = (status: string) => CANCELLED_STATUS.test(normalize(status));
+
+export const loadSnapshots = (): AgendaSnapshot[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error('Error loading agenda snapshots:', e);
+        return [];
+    }
+};
+
+export const saveSnapshots = (snapshots: AgendaSnapshot[]) => {
+    const sorted = [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const perAgenda = new Map<string, number>();
+    const kept = sorted.filter(snapshot => {
+        const count = (perAgenda.get(snapshot.id) || 0) + 1;
+        perAgenda.set(snapshot.id, count);
+        return count <= MAX_VERSIONS_PER_AGENDA;
+    }).slice(0, MAX_SNAPSHOTS);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+};
+
+export const findLatestSnapshot = (snapshots: AgendaSnapshot[], id: string): AgendaSnapshot | null =>
+    snapshots
+        .filter(s => s.id === id)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null;
+
+/**
+ * Groups a parsed agenda into one snapshot per doctor/day.
+ * Sections without doctor and date are skipped: they cannot be matched with a later upload.
+ */
+export const buildSnapshots = (
+    appointments: ParsedAppointment[],
+    info: { createdBy: string, sourceFile?: string, freeSlotsUnknown?: boolean }
+): AgendaSnapshot[] => {
+    const createdAt = new Date().toISOString();
+    const sections = new Map<string, AgendaSnapshot>();
+
+    for (const appt of appointments) {
+        const doctor = appt.doctor || '';
+        const date = appt.date || '';
+        if (!doctor && !date) continue;
+        const id = snapshotId(doctor, date);
+        if (!sections.has(id)) {
+            sections.set(id, {
+                id, doctor, date, createdAt, createdBy: info.createdBy, sourceFile: info.sourceFile, appointments: [], freeSlots: [],
+                ...(info.freeSlotsUnknown ? { freeSlotsUnknown: true } : {})
+            });
+        }
+        const snapshot = sections.get(id)!;
+        if (appt.patientName.toUpperCase().includes('LIVRE')) {
+            snapshot.freeSlots.push(appt.time);
+        } else {
+            snapshot.appointments.push({
+                patientName: appt.patientName,
+                time: appt.time,
+                status: appt.status,
+                contact: appt.contact || undefined,
+                procedure: appt.procedure || undefined
+            });
+        }
+    }
+    return Array.from(sections.values());
+};
+
+/**
+ * Agenda rows rebuilt from the results of a reader that returns messages only (Gemini),
+ * so its uploads are compared too. Free slots are not in the results: see freeSlotsUnknown.
+ */
+export const appointmentsFromResults = (results: DocumentAnalysisResult[]): ParsedAppointment[] =>
+    results.map(({ extractedData: data }) => ({
+        patientName: data.rawPatientName || data.patientName,
+        time: data.time,
+        contact: data.contact,
+        status: data.status || '',
+        doctor: data.doctorName,
+        date: data.date,
+        procedure: data.procedure
+    }));
+
+export interface AgendaDiff {
+    snapshot: AgendaSnapshot; // The new version
+    previous: AgendaSnapshot;
+    added: AgendaSnapshotEntry[];
+    cancelled: { entry: AgendaSnapshotEntry, reason: 'status' | 'removed' }[];
+    moved: { entry: AgendaSnapshotEntry, previousTime: string }[];
+    freedSlots: string[];
+}
+
+/**
+ * Compares two versions of the same agenda. Patients are matched by name
+ * (same name and time first, so a patient with two appointments is not reported as moved).
+ */
+export const diffSnapshots = (previous: AgendaSnapshot, snapshot: AgendaSnapshot): AgendaDiff => {
+    const diff: AgendaDiff = { snapshot, previous, added: [], cancelled: [], moved: [], freedSlots: [] };
+    const pending = [...previous.appointments];
+
+    const take = (predicate: (e: AgendaSnapshotEntry) => boolean) => {
+        const index = pending.findIndex(predicate);
+        return index >= 0 ? pending.splice(index, 1)[0] : undefined;
+    };
+
+    // Exact matches are taken first, the remaining ones by name only
+    const matches = new Map<AgendaSnapshotEntry, AgendaSnapshotEntry | undefined>();
+    for (const entry of snapshot.appointments) {
+        const exact = take(p => normalize(p.patientName) === normalize(entry.patientName) && p.time === entry.time);
+        if (exact) matches.set(entry, exact);
+    }
+    for (const entry of snapshot.appointments) {
+        if (!matches.has(entry)) matches.set(entry, take(p => normalize(p.patientName) === normalize(entry.patientName)));
+    }
+
+    for (const entry of snapshot.appointments) {
+        const before = matches.get(entry);
+        const cancelledNow = isCancelledStatus(entry.status);
+        if (!before) {
+            if (!cancelledNow) diff.added.push(entry);
+        } else if (cancelledNow && !isCancelledStatus(before.status)) {
+            diff.cancelled.push({ entry, reason: 'status' });
+        } else if (!cancelledNow && before.time !== entry.time) {
+            diff.moved.push({ entry, previousTime: before.time });
+        }
+    }
+
+    // Rows that disappeared from the agenda
+    for (const entry of pending) {
+        if (!isCancelledStatus(entry.status)) diff.cancelled.push({ entry, reason: 'removed' });
+    }
+
+    // Freed slots need the LIVRE rows of both versions
+    if (!previous.freeSlotsUnknown && !snapshot.freeSlotsUnknown) {
+        const previousFree = new Set(previous.freeSlots);
+        diff.freedSlots = snapshot.freeSlots.filter(time => !previousFree.has(time));
+    }
+    return diff;
+};
+
+export const hasChanges = (diff: AgendaDiff) =>
+    diff.added.length + diff.cancelled.length + diff.moved.length + diff.freedSlots.length > 0;
+
+/**
+ * Outreach keys (see appointmentKey) of the patients that need a new message: added and moved.
+ */
+export const changedAppointmentKeys = (diffs: AgendaDiff[]): Set<string> => {
+    const keys = new Set<string>();
+    for (const diff of diffs) {
+        for (const entry of [...diff.added, ...diff.moved.map(m => m.entry)]) {
+            const data: ExtractedData = {
+                patientName: entry.patientName,
+                rawPatientName: entry.patientName,
+                doctorName: diff.snapshot.doctor,
+                date: diff.snapshot.date,
+                time: entry.time,
+                procedure: entry.procedure || '',
+                contact: entry.contact || ''
+            };
+            keys.add(appointmentKey(data));
+        }
+    }
+    return keys;
+};
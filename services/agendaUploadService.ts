@@ -0,0 +1,54 @@
+import { isSpreadsheetFile, SpreadsheetColumnMapping, SpreadsheetData } from "./spreadsheetService";
+
+export type AgendaUploadStatus = 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+
+// One file of a batch upload (e.g. the morning agendas, one per doctor)
+export interface AgendaUpload {
+    id: string;
+    file: File;
+    status: AgendaUploadStatus;
+    error?: string;
+    resultCount?: number; // Rows (or summaries) read from the file
+    spreadsheet?: SpreadsheetData; // CSV/XLSX rows, read as soon as the file is added
+    mapping?: SpreadsheetColumnMapping | null; // Spreadsheet columns, null until mapped
+}
+
+export const AGENDA_UPLOAD_STATUS_LABELS: Record<AgendaUploadStatus, string> = {
+    pending: 'Na fila',
+    processing: 'Processando',
+    done: 'Concluído',
+    error: 'Erro',
+    cancelled: 'Cancelado'
+};
+
+// PDFs, photos/scans and exported agenda spreadsheets
+export const isAgendaFile = (file: File) =>
+    file.type === 'application/pdf' ||
+    /\.pdf$/i.test(file.name) ||
+    file.type.startsWith('image/') ||
+    isSpreadsheetFile(file);
+
+// The same file dropped twice keeps a single entry
+const uploadId = (file: File) => `${file.name}|${file.size}|${file.lastModified}`;
+
+/**
+ * Appends the selected or dropped files to the queue. Unsupported files are returned by name.
+ */
+export const addAgendaFiles = (queue: AgendaUpload[], files: File[]): { queue: AgendaUpload[], added: AgendaUpload[], rejected: string[] } => {
+    const added: AgendaUpload[] = [];
+    const rejected: string[] = [];
+    for (const file of files) {
+        if (!isAgendaFile(file)) {
+            rejected.push(file.name);
+            continue;
+        }
+        const id = uploadId(file);
+        if (queue.some(u => u.id === id) || added.some(u => u.id === id)) continue;
+        added.push({ id, file, status: 'pending' });
+    }
+    return { queue: [...queue, ...added], added, rejected };
+};
+
+// Spreadsheets can only be processed once their columns are mapped
+export const needsColumnMapping = (upload: AgendaUpload) =>
+    isSpreadsheetFile(upload.file) && !!upload.spreadsheet && !upload.mapping;
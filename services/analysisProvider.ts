@@ -0,0 +1,174 @@
+import { AgendaLayoutProfile, AnalysisEngine, DocumentAnalysisResult, MessageTemplate, PatientNameFormat } from "../types";
+import { ParsedAppointment } from "./localDocumentService";
+import { UnitTemplateValues } from "./unitService";
+
+const STORAGE_KEY = 'mediportal_analysis_provider';
+
+export type AnalysisProviderId = Exclude<AnalysisEngine, 'spreadsheet'>;
+
+// Short names for the per-row engine badge
+export const ANALYSIS_ENGINE_LABELS: Record<AnalysisEngine, string> = {
+    local: 'Local',
+    gemini: 'IA',
+    mock: 'Simulação',
+    spreadsheet: 'Planilha'
+};
+
+export type AnalysisServiceType = 'reschedule' | 'confirmation' | 'daily_summary' | 'procedure_confirmation';
+
+export interface AnalysisRequest {
+    file: File;
+    type: AnalysisServiceType;
+    mode: 'individual' | 'batch';
+    prepText: string;
+    userName: string;
+    context?: string; // Free text from the user (AI providers only)
+    templates?: MessageTemplate[];
+    unit?: UnitTemplateValues;
+    nameFormat?: PatientNameFormat | null;
+    layout?: AgendaLayoutProfile;
+    extractionMode?: 'text' | 'columns';
+}
+
+// --- PROGRESS ---
+
+export type AnalysisStage = 'load' | 'extract' | 'parse' | 'generate';
+
+export interface AnalysisProgress {
+    stage: AnalysisStage;
+    percent: number; // 0-100 for the whole file
+    page?: number; // Pages done, extract stage of PDFs only
+    pages?: number;
+}
+
+export const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+    load: 'Abrindo arquivo',
+    extract: 'Lendo o texto',
+    parse: 'Interpretando a agenda',
+    generate: 'Gerando mensagens'
+};
+
+// Share of the progress bar of each stage. Extraction (text layer or OCR, page by page) is the slow part
+const STAGE_RANGES: Record<AnalysisStage, [number, number]> = {
+    load: [0, 5],
+    extract: [5, 85],
+    parse: [85, 95],
+    generate: [95, 100]
+};
+
+/**
+ * Progress at the start of a stage, or after `done` of `total` pages of the extract stage.
+ */
+export const analysisProgress = (stage: AnalysisStage, done?: number, total?: number): AnalysisProgress => {
+    const [from, to] = STAGE_RANGES[stage];
+    if (done === undefined || !total) return { stage, percent: from };
+    return { stage, percent: Math.round(from + (to - from) * Math.min(1, done / total)), page: done, pages: total };
+};
+
+export interface AnalysisOutput {
+    results: DocumentAnalysisResult[];
+    appointments?: ParsedAppointment[]; // Raw rows, only from providers that parse the agenda themselves (snapshots)
+    fallbackFrom?: { providerId: AnalysisProviderId, reason: string }; // Set when another provider had to take over
+}
+
+export interface AnalysisProvider {
+    id: AnalysisProviderId;
+    label: string;
+    description: string;
+    requiresNetwork: boolean;
+    timeoutMs: number;
+    maxRetries: number; // Extra attempts after the first one, for retryable errors only
+    // Why the provider cannot run right now (missing key...), null when ready
+    unavailableReason: () => string | null;
+    analyze: (request: AnalysisRequest, signal: AbortSignal, onProgress: (progress: AnalysisProgress) => void) => Promise<AnalysisOutput>;
+    classifyError: (error: unknown) => AnalysisError;
+}
+
+export type AnalysisErrorKind = 'config' | 'network' | 'timeout' | 'rate_limit' | 'invalid_response' | 'unsupported' | 'cancelled' | 'unknown';
+
+// Invalid answers are not retried: the file goes to the local parser instead (runAnalysisWithFallback)
+const RETRYABLE_KINDS: AnalysisErrorKind[] = ['network', 'timeout', 'rate_limit'];
+
+/**
+ * Error raised by any provider, with a message the reception can read and a kind used by the retry policy.
+ */
+export class AnalysisError extends Error {
+    kind: AnalysisErrorKind;
+    providerId?: AnalysisProviderId;
+    cause?: unknown;
+
+    constructor(kind: AnalysisErrorKind, message: string, cause?: unknown) {
+        super(message);
+        this.name = 'AnalysisError';
+        this.kind = kind;
+        this.cause = cause;
+    }
+
+    get retryable() {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new AnalysisError('cancelled', 'Processamento cancelado.'));
+    }, { once: true });
+});
+
+/**
+ * Runs the provider with its own timeout and retry policy (exponential backoff between attempts).
+ * Errors always come out as AnalysisError.
+ */
+export const runAnalysis = async (
+    provider: AnalysisProvider,
+    request: AnalysisRequest,
+    options: {
+        signal?: AbortSignal,
+        onRetry?: (attempt: number, error: AnalysisError) => void,
+        onProgress?: (progress: AnalysisProgress) => void
+    } = {}
+): Promise<AnalysisOutput> => {
+    const unavailable = provider.unavailableReason();
+    if (unavailable) throw Object.assign(new AnalysisError('config', unavailable), { providerId: provider.id });
+
+    for (let attempt = 0; ; attempt++) {
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        options.signal?.addEventListener('abort', abort, { once: true });
+        let timedOut = false;
+        const timer = setTimeout(() => { timedOut = true; controller.abort(); }, provider.timeoutMs);
+
+        try {
+            // The race also ends providers that ignore the abort signal
+            return await Promise.race([
+                provider.analyze(request, controller.signal, progress => {
+                    if (!controller.signal.aborted) options.onProgress?.(progress);
+                }),
+                new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () =>
+                    reject(new AnalysisError('cancelled', 'Processamento cancelado.')), { once: true }))
+            ]);
+        } catch (e) {
+            const error = timedOut
+                ? new AnalysisError('timeout', `O processamento excedeu ${Math.round(provider.timeoutMs / 1000)}s.`, e)
+                : e instanceof AnalysisError ? e : provider.classifyError(e);
+            error.providerId = provider.id;
+            if (!error.retryable || attempt >= provider.maxRetries || options.signal?.aborted) throw error;
+            options.onRetry?.(attempt + 1, error);
+            await wait(1000 * 2 ** attempt, options.signal);
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', abort);
+        }
+    }
+};
+
+export const loadAnalysisProviderId = (): AnalysisProviderId => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved === 'gemini' || saved === 'mock' ? saved : 'local';
+};
+
+export const saveAnalysisProviderId = (id: AnalysisProviderId) => {
+    localStorage.setItem(STORAGE_KEY, id);
+};
@@ -0,0 +1,34 @@
+import { AnalysisError, AnalysisOutput, AnalysisProvider, AnalysisProviderId, AnalysisRequest, runAnalysis } from "./analysisProvider";
+import { geminiProvider } from "./geminiService";
+import { localProvider } from "./localAnalysisProvider";
+import { mockProvider } from "./mockAnalysisProvider";
+
+// Providers offered in Settings, in display order
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [localProvider, geminiProvider, mockProvider];
+
+export const getAnalysisProvider = (id: AnalysisProviderId): AnalysisProvider =>
+    ANALYSIS_PROVIDERS.find(p => p.id === id) || localProvider;
+
+/**
+ * Runs the provider and tags every row with the engine that produced it.
+ * An AI answer that fails validation is reprocessed by the local parser, transparently.
+ */
+export const runAnalysisWithFallback = async (
+    provider: AnalysisProvider,
+    request: AnalysisRequest,
+    options: Parameters<typeof runAnalysis>[2] = {}
+): Promise<AnalysisOutput> => {
+    const tag = (output: AnalysisOutput, engine: AnalysisProviderId): AnalysisOutput => ({
+        ...output,
+        results: output.results.map(r => ({ ...r, engine: r.engine || engine }))
+    });
+
+    try {
+        return tag(await runAnalysis(provider, request, options), provider.id);
+    } catch (e) {
+        if (!(e instanceof AnalysisError) || e.kind !== 'invalid_response' || provider.id === localProvider.id) throw e;
+        console.warn(`${provider.label}: resposta inválida, usando a leitura local.`, e.message);
+        const output = await runAnalysis(localProvider, request, options);
+        return { ...tag(output, localProvider.id), fallbackFrom: { providerId: provider.id, reason: e.message } };
+    }
+};
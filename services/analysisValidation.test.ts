@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnalysisResponse } from './analysisValidation';
+import { AnalysisError } from './analysisProvider';
+
+const row = (extractedData: Record<string, unknown>, generatedMessage = 'Olá!') => ({ extractedData, generatedMessage });
+
+const errorOf = (fn: () => unknown): AnalysisError => {
+    try {
+        fn();
+    } catch (e) {
+        return e as AnalysisError;
+    }
+    throw new Error('Expected an error');
+};
+
+describe('parseAnalysisResponse', () => {
+    it('removes code fences and repairs dates, times and contacts', () => {
+        const text = '```json\n' + JSON.stringify([row({ patientName: 'MARIA', date: '2025-11-25', time: '8h', contact: '14997962690' })]) + '\n```';
+        const [result] = parseAnalysisResponse(text, 'array');
+
+        expect(result.extractedData).toMatchObject({ patientName: 'MARIA', date: '25/11/2025', time: '08:00', contact: '(14) 99796-2690', doctorName: '', procedure: '' });
+        expect(result.warnings).toHaveLength(2);
+    });
+
+    it('accepts a single object or a list wrapped in a property', () => {
+        const single = row({ patientName: 'MARIA', date: '25/11/2025', time: '08:00' });
+
+        expect(parseAnalysisResponse(JSON.stringify(single), 'array')).toHaveLength(1);
+        expect(parseAnalysisResponse(JSON.stringify({ results: [single, single] }), 'array')).toHaveLength(2);
+    });
+
+    it('rejects answers that cannot be used', () => {
+        expect(errorOf(() => parseAnalysisResponse('not json', 'array')).kind).toBe('invalid_response');
+        expect(errorOf(() => parseAnalysisResponse(JSON.stringify([row({ patientName: '' })]), 'array')).message).toContain('paciente sem nome');
+        expect(errorOf(() => parseAnalysisResponse(JSON.stringify([row({ patientName: 'A' }), row({ patientName: 'B' })]), 'object')).kind).toBe('invalid_response');
+    });
+
+    it('lets the daily summary go without a patient name', () => {
+        const [summary] = parseAnalysisResponse(JSON.stringify(row({ doctorName: 'Dr. Paulo', time: '08:00 - 12:00' })), 'object', true);
+
+        expect(summary.extractedData.time).toBe('08:00 - 12:00');
+    });
+});
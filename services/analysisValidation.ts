@@ -0,0 +1,129 @@
+import { DocumentAnalysisResult, ExtractedData } from "../types";
+import { AnalysisError } from "./analysisProvider";
+import { formatContact } from "./phoneService";
+import { parseProcedureDetails } from "./procedureService";
+
+// Fields every row must carry as strings (missing ones become '')
+const TEXT_FIELDS: (keyof Omit<ExtractedData, 'confidence' | 'procedureDetails'>)[] = ['patientName', 'doctorName', 'date', 'time', 'procedure', 'contact'];
+
+const pad = (n: number) => n < 10 ? `0${n}` : `${n}`;
+
+/**
+ * Brings the usual AI date formats to DD/MM/YYYY: "2025-11-25", "25-11-2025", "25.11.25", "5/1/2025".
+ * Unknown formats are returned unchanged.
+ */
+export const normalizeDate = (value: string): string => {
+    const text = value.trim();
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) return `${pad(Number(iso[3]))}/${pad(Number(iso[2]))}/${iso[1]}`;
+    const br = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+    if (br) {
+        const year = br[3].length === 2 ? `20${br[3]}` : br[3];
+        return `${pad(Number(br[1]))}/${pad(Number(br[2]))}/${year}`;
+    }
+    return text;
+};
+
+/**
+ * Brings times to HH:MM: "8:00", "08h00", "8h", "13:00 - 13:15" (start of the interval).
+ */
+export const normalizeTime = (value: string): string => {
+    const text = value.trim();
+    const match = text.match(/(\d{1,2})\s*[:hH]\s*(\d{2})?/);
+    if (!match) return text;
+    const hours = Number(match[1]);
+    const minutes = match[2] || '00';
+    return hours < 24 && Number(minutes) < 60 ? `${pad(hours)}:${minutes}` : text;
+};
+
+const asText = (value: unknown): string | null => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return null;
+};
+
+/**
+ * Checks one row and repairs what can be repaired. Returns the problem when the row is unusable.
+ */
+const validateRow = (raw: unknown, index: number, isSummary: boolean): DocumentAnalysisResult | string => {
+    const label = `Item ${index + 1}`;
+    if (!raw || typeof raw !== 'object') return `${label}: não é um objeto.`;
+    const row = raw as Record<string, unknown>;
+    if (!row.extractedData || typeof row.extractedData !== 'object') return `${label}: sem "extractedData".`;
+    if (typeof row.generatedMessage !== 'string' || !row.generatedMessage.trim()) return `${label}: sem mensagem gerada.`;
+
+    const source = row.extractedData as Record<string, unknown>;
+    const data = {} as ExtractedData;
+    const warnings: string[] = [];
+    for (const field of TEXT_FIELDS) {
+        const text = asText(source[field]);
+        if (text === null) return `${label}: campo "${field}" inválido.`;
+        data[field] = text.trim();
+    }
+    if (!isSummary && !data.patientName) return `${label}: paciente sem nome.`;
+
+    const date = normalizeDate(data.date);
+    if (date !== data.date) warnings.push(`Data ajustada de "${data.date}" para ${date}.`);
+    if (data.date && !/^\d{2}\/\d{2}\/\d{4}$/.test(date)) warnings.push(`Data não reconhecida: "${data.date}".`);
+    data.date = date;
+
+    // The daily summary uses the "first - last" period here
+    if (!isSummary) {
+        const time = normalizeTime(data.time);
+        if (time !== data.time) warnings.push(`Horário ajustado de "${data.time}" para ${time}.`);
+        if (!/^\d{2}:\d{2}$/.test(time)) warnings.push(`Horário não reconhecido: "${data.time}".`);
+        data.time = time;
+        data.contact = formatContact(data.contact);
+        // Procedure confirmations only
+        const procedureDetails = parseProcedureDetails(source.procedureDetails);
+        if (procedureDetails) data.procedureDetails = procedureDetails;
+    }
+
+    return {
+        extractedData: data,
+        generatedMessage: row.generatedMessage,
+        warnings: warnings.length > 0 ? warnings : undefined
+    };
+};
+
+/**
+ * Runtime check of an AI answer against DocumentAnalysisResult.
+ * Repairs fences, object-vs-array mismatches, missing text fields, dates and times;
+ * throws AnalysisError('invalid_response') when any row cannot be used.
+ */
+export const parseAnalysisResponse = (text: string, expect: 'object' | 'array', isSummary = false): DocumentAnalysisResult[] => {
+    const clean = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(clean);
+    } catch (e) {
+        throw new AnalysisError('invalid_response', 'A resposta da IA não é um JSON válido.', e);
+    }
+
+    // Common shapes: a single object in batch mode, or the list wrapped in a property
+    let rows: unknown[];
+    if (Array.isArray(parsed)) {
+        rows = parsed;
+    } else if (parsed && typeof parsed === 'object') {
+        const wrapped = Object.values(parsed as Record<string, unknown>).find(Array.isArray);
+        rows = 'extractedData' in (parsed as object) || !wrapped ? [parsed] : wrapped;
+    } else {
+        throw new AnalysisError('invalid_response', 'A resposta da IA está vazia ou em formato inesperado.');
+    }
+    if (expect === 'object' && rows.length !== 1) {
+        throw new AnalysisError('invalid_response', `Era esperado um único resultado, a IA devolveu ${rows.length}.`);
+    }
+
+    const results: DocumentAnalysisResult[] = [];
+    const problems: string[] = [];
+    rows.forEach((raw, index) => {
+        const row = validateRow(raw, index, isSummary);
+        if (typeof row === 'string') problems.push(row);
+        else results.push(row);
+    });
+    if (problems.length > 0) {
+        throw new AnalysisError('invalid_response', `Resposta da IA incompleta: ${problems.slice(0, 3).join(' ')}`);
+    }
+    return results;
+};
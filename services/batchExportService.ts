@@ -0,0 +1,178 @@
+import { jsPDF } from 'jspdf';
+import { utils, writeFile } from 'xlsx';
+import { DocumentAnalysisResult, OutreachStatus } from "../types";
+import { OUTREACH_STATUS_LABELS } from "./outreachService";
+import { formatPhone, pickWhatsappPhone } from "./phoneService";
+
+export interface BatchExportRow {
+    patientName: string; // Full name as read from the agenda
+    doctor: string;
+    date: string;
+    time: string;
+    procedure: string;
+    contact: string;
+    whatsapp: string; // Mobile used by the WhatsApp link, empty when there is none
+    preparation: string;
+    status: string; // Outreach status label
+    message: string;
+}
+
+// Spreadsheet headers, in column order
+const COLUMNS: { key: keyof BatchExportRow, label: string }[] = [
+    { key: 'patientName', label: 'Paciente' },
+    { key: 'doctor', label: 'Médico' },
+    { key: 'date', label: 'Data' },
+    { key: 'time', label: 'Horário' },
+    { key: 'procedure', label: 'Procedimento' },
+    { key: 'contact', label: 'Contato' },
+    { key: 'whatsapp', label: 'WhatsApp' },
+    { key: 'preparation', label: 'Preparo' },
+    { key: 'status', label: 'Status do contato' },
+    { key: 'message', label: 'Mensagem' }
+];
+
+export const buildExportRows = (
+    results: DocumentAnalysisResult[],
+    statusOf: (result: DocumentAnalysisResult) => OutreachStatus | null,
+    preparationTitleOf: (result: DocumentAnalysisResult) => string = () => ''
+): BatchExportRow[] =>
+    results.map(result => {
+        const data = result.extractedData;
+        const phone = pickWhatsappPhone(data.contact);
+        const status = statusOf(result);
+        return {
+            patientName: data.rawPatientName || data.patientName,
+            doctor: data.doctorName,
+            date: data.date,
+            time: data.time,
+            procedure: data.procedure,
+            contact: data.contact,
+            whatsapp: phone ? formatPhone(phone) : '',
+            preparation: preparationTitleOf(result),
+            status: status ? OUTREACH_STATUS_LABELS[status] : '',
+            message: result.generatedMessage
+        };
+    });
+
+const toSheet = (rows: BatchExportRow[]) =>
+    utils.aoa_to_sheet([
+        COLUMNS.map(c => c.label),
+        ...rows.map(row => COLUMNS.map(c => row[c.key]))
+    ]);
+
+export const exportBatchXlsx = (rows: BatchExportRow[], fileName: string) => {
+    const sheet = toSheet(rows);
+    sheet['!cols'] = COLUMNS.map(c => ({ wch: c.key === 'message' ? 60 : c.key === 'patientName' ? 32 : 16 }));
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, sheet, 'Agenda');
+    writeFile(workbook, `${fileName}.xlsx`);
+};
+
+/**
+ * CSV for Excel in Portuguese: ";" separator and a BOM so accents open correctly.
+ */
+export const exportBatchCsv = (rows: BatchExportRow[], fileName: string) => {
+    const csv = utils.sheet_to_csv(toSheet(rows), { FS: ';' });
+    const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// --- PDF CALL SHEET ---
+
+// A4 portrait, in mm
+const PAGE_MARGIN = 10;
+const LINE_HEIGHT = 4;
+const CALL_SHEET_COLUMNS: { label: string, width: number, value: (row: BatchExportRow) => string }[] = [
+    { label: '', width: 6, value: () => '' }, // Checkbox, ticked by hand
+    { label: 'Hora', width: 13, value: row => row.time },
+    { label: 'Paciente', width: 55, value: row => row.patientName },
+    { label: 'Telefone', width: 34, value: row => row.contact },
+    { label: 'Procedimento', width: 32, value: row => row.procedure },
+    { label: 'Situação', width: 22, value: row => row.status },
+    { label: 'Anotações', width: 28, value: () => '' }
+];
+
+/**
+ * Printable list for reception staff who phone the patients: one block per doctor/day,
+ * a checkbox and an empty notes column on each row.
+ */
+export const exportCallSheetPdf = (rows: BatchExportRow[], info: { title: string, generatedBy: string }, fileName: string) => {
+    const pdf = new jsPDF('p', 'mm', 'a4');
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    let y = PAGE_MARGIN;
+
+    const drawTableHeader = () => {
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(8);
+        pdf.setFillColor(240, 240, 240);
+        pdf.rect(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN * 2, 6, 'F');
+        let x = PAGE_MARGIN;
+        for (const column of CALL_SHEET_COLUMNS) {
+            pdf.text(column.label, x + 1, y + 4);
+            x += column.width;
+        }
+        y += 6;
+        pdf.setFont('helvetica', 'normal');
+    };
+
+    const ensureSpace = (height: number, repeatHeader: boolean) => {
+        if (y + height <= pageHeight - PAGE_MARGIN) return;
+        pdf.addPage();
+        y = PAGE_MARGIN;
+        if (repeatHeader) drawTableHeader();
+    };
+
+    // Title
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.text(info.title, PAGE_MARGIN, y + 5);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.text(`Gerado em ${new Date().toLocaleString('pt-BR')} por ${info.generatedBy} · ${rows.length} paciente(s)`, PAGE_MARGIN, y + 10);
+    y += 15;
+
+    const groups = new Map<string, BatchExportRow[]>();
+    for (const row of rows) {
+        const label = `${row.doctor || 'Médico não identificado'} · ${row.date || 'Data não identificada'}`;
+        groups.set(label, [...(groups.get(label) || []), row]);
+    }
+
+    for (const [label, groupRows] of groups) {
+        ensureSpace(20, false);
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(10);
+        pdf.text(label, PAGE_MARGIN, y + 4);
+        y += 7;
+        drawTableHeader();
+
+        for (const row of [...groupRows].sort((a, b) => a.time.localeCompare(b.time))) {
+            pdf.setFontSize(8);
+            const cells = CALL_SHEET_COLUMNS.map(column =>
+                (pdf.splitTextToSize(column.value(row), column.width - 2) as string[]).slice(0, 2));
+            const height = Math.max(1, ...cells.map(lines => lines.length)) * LINE_HEIGHT + 3;
+            ensureSpace(height, true);
+
+            let x = PAGE_MARGIN;
+            cells.forEach((lines, index) => {
+                if (index === 0) pdf.rect(x + 1.5, y + 1.5, 3, 3);
+                else pdf.text(lines, x + 1, y + 4);
+                x += CALL_SHEET_COLUMNS[index].width;
+            });
+            y += height;
+            pdf.setDrawColor(220, 220, 220);
+            pdf.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+            pdf.setDrawColor(0, 0, 0);
+        }
+        y += 5;
+    }
+
+    pdf.save(`${fileName}.pdf`);
+};
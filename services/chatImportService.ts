@@ -0,0 +1,285 @@
+import { CFB } from 'xlsx';
+import { DocumentAnalysisResult, OutreachStatus } from "../types";
+import { appointmentKey } from "./outreachService";
+import { normalizePhone, parsePhones } from "./phoneService";
+
+// --- WHATSAPP CHAT EXPORT ---
+// "Exportar conversa" on the clinic's phone gives one .txt per chat, or a .zip with the .txt
+// and the media. Android and iPhone write the lines differently:
+//   18/10/2026 09:15 - Maria Silva: Sim, confirmo
+//   [18/10/2026, 09:15:32] Maria Silva: Sim, confirmo
+
+export type ReplyIntent = 'confirmed' | 'reschedule' | 'cancelled' | 'unclear';
+
+export interface ChatMessage {
+    author: string; // Contact name as saved on the phone, or the number
+    at: string | null; // ISO timestamp, null when the date could not be read
+    text: string;
+}
+
+export interface ParsedChat {
+    title: string; // Contact of the chat, from the file name
+    messages: ChatMessage[];
+}
+
+export interface ChatExport {
+    chats: ParsedChat[];
+    errors: string[]; // Files that could not be read
+}
+
+export interface ChatReply extends ChatMessage {
+    intent: ReplyIntent;
+}
+
+export interface ReconciledAppointment {
+    key: string; // appointmentKey
+    intent: ReplyIntent;
+    reply: ChatReply; // Reply that decided the intent (the last one when unclear)
+    matchedBy: 'phone' | 'name';
+}
+
+export type ReplyReviewReason = 'unclear' | 'reschedule' | 'not_found' | 'ambiguous';
+
+export interface ReplyReview {
+    reason: ReplyReviewReason;
+    contact: string;
+    keys: string[]; // Appointments involved, empty when the contact is not in the agenda
+    replies: ChatReply[];
+}
+
+export interface ChatReconciliation {
+    chats: number;
+    appointments: ReconciledAppointment[];
+    review: ReplyReview[]; // Replies a receptionist still has to handle
+    errors: string[];
+}
+
+export const REPLY_INTENT_LABELS: Record<ReplyIntent, string> = {
+    confirmed: 'Confirmou',
+    reschedule: 'Quer reagendar',
+    cancelled: 'Cancelou',
+    unclear: 'Não reconhecida'
+};
+
+export const REPLY_REVIEW_LABELS: Record<ReplyReviewReason, string> = {
+    unclear: 'Resposta não reconhecida',
+    reschedule: 'Pediu para reagendar',
+    not_found: 'Contato não encontrado na agenda',
+    ambiguous: 'Número de mais de um paciente'
+};
+
+// Outreach status recorded for each recognized intent
+export const REPLY_INTENT_STATUS: Record<Exclude<ReplyIntent, 'unclear'>, OutreachStatus> = {
+    confirmed: 'confirmed',
+    reschedule: 'reschedule',
+    cancelled: 'cancelled'
+};
+
+// --- READING ---
+
+// Date, time (12h on phones set to English) and the separator before "Author: text"
+const LINE_PATTERN = /^\[?(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4}),? (\d{1,2}):(\d{2})(?::\d{2})?(?: ?([ap])\.? ?m\.?)?(?:\] | - )(.*)$/i;
+
+// iPhone exports mark lines with direction characters and use narrow spaces around the time
+const cleanLine = (line: string) =>
+    line.replace(/[\u200e\u200f\u202a-\u202e]/g, '').replace(/[\u00a0\u202f]/g, ' ');
+
+const CHAT_TITLE_PREFIXES = /^(conversa do whatsapp com|whatsapp chat with|whatsapp chat -|chat de whatsapp con)\s*/i;
+
+const chatTitle = (fileName: string) =>
+    fileName.replace(/^.*\//, '').replace(/\.(txt|zip)$/i, '').replace(CHAT_TITLE_PREFIXES, '').trim();
+
+const toIsoDate = (day: number, month: number, year: number, hour: number, minute: number, period?: string): string | null => {
+    // Day first as in Brazil; phones set to English write the month first
+    if (month > 12 && day <= 12) [day, month] = [month, day];
+    if (year < 100) year += 2000;
+    if (period) hour = (hour % 12) + (/p/i.test(period) ? 12 : 0);
+    const date = new Date(year, month - 1, day, hour, minute);
+    return isNaN(date.getTime()) || date.getDate() !== day ? null : date.toISOString();
+};
+
+/**
+ * Messages of one exported chat. Lines without a date continue the previous message;
+ * system lines ("As mensagens são protegidas...") have no author and are dropped.
+ */
+export const parseChatText = (text: string, title: string): ParsedChat => {
+    const messages: ChatMessage[] = [];
+    let current: ChatMessage | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = cleanLine(rawLine);
+        const match = line.match(LINE_PATTERN);
+        if (!match) {
+            if (current && line.trim()) current.text += `\n${line}`;
+            continue;
+        }
+        const [, day, month, year, hour, minute, period, rest] = match;
+        const separator = rest.indexOf(': ');
+        if (separator < 0) {
+            current = null;
+            continue;
+        }
+        current = {
+            author: rest.slice(0, separator).trim(),
+            at: toIsoDate(Number(day), Number(month), Number(year), Number(hour), Number(minute), period),
+            text: rest.slice(separator + 2).trim()
+        };
+        messages.push(current);
+    }
+    return { title, messages };
+};
+
+/**
+ * Reads the exported chats. A .zip may hold several files; the iPhone always names the
+ * chat "_chat.txt", so the contact comes from the .zip name.
+ */
+export const readChatExports = async (files: File[]): Promise<ChatExport> => {
+    const chats: ParsedChat[] = [];
+    const errors: string[] = [];
+
+    for (const file of files) {
+        try {
+            if (/\.zip$/i.test(file.name)) {
+                const container = CFB.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+                const texts = (container.FileIndex as { name: string, type: number, content?: Uint8Array }[])
+                    .filter(entry => entry.type === 2 && entry.content && /\.txt$/i.test(entry.name));
+                if (texts.length === 0) throw new Error('o .zip não contém a conversa (.txt)');
+                for (const entry of texts) {
+                    const title = entry.name === '_chat.txt' ? chatTitle(file.name) : chatTitle(entry.name);
+                    chats.push(parseChatText(new TextDecoder('utf-8').decode(entry.content), title));
+                }
+            } else if (/\.txt$/i.test(file.name)) {
+                chats.push(parseChatText(await file.text(), chatTitle(file.name)));
+            } else {
+                throw new Error('formato não suportado (use .txt ou .zip)');
+            }
+        } catch (e) {
+            errors.push(`${file.name}: ${e instanceof Error ? e.message : 'não foi possível ler o arquivo'}`);
+        }
+    }
+    return { chats, errors };
+};
+
+// --- CLASSIFICATION ---
+
+const normalize = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const RESCHEDULE_PHRASES = [
+    'remarcar', 'remarca', 'remarque', 'reagendar', 'reagenda', 'reagende', 'adiar',
+    'outro horario', 'outro dia', 'outra data', 'mudar o horario', 'mudar a data', 'trocar o horario', 'trocar a data'
+];
+const CANCEL_PHRASES = [
+    'cancelar', 'cancela', 'cancelo', 'cancele', 'desmarcar', 'desmarca', 'desmarque',
+    'nao vou comparecer', 'nao irei', 'nao vou mais', 'desisto', 'desistir', 'nao preciso mais'
+];
+// "Can't make it" without asking to cancel: the slot is offered again
+const CANNOT_ATTEND_PHRASES = ['nao posso', 'nao consigo', 'nao vou poder', 'nao poderei', 'nao da'];
+const CONFIRM_PHRASES = [
+    'sim', 'confirmo', 'confirmado', 'confirmada', 'confirmar', 'confirma', 'pode confirmar', 'ok', 'okay',
+    'estarei', 'estarei la', 'vou sim', 'irei', 'combinado', 'certo', 'positivo', 'beleza', 'perfeito'
+];
+const CONFIRM_EMOJIS = ['👍', '✅'];
+
+const hasPhrase = (text: string, phrases: string[]) => phrases.some(phrase => text.includes(` ${phrase} `));
+
+/**
+ * Keyword rules, most specific first. Confirmations that also say "não" or ask something
+ * are left to a person.
+ */
+export const classifyReply = (text: string): ReplyIntent => {
+    const normalized = ` ${normalize(text)} `;
+    if (hasPhrase(normalized, RESCHEDULE_PHRASES)) return 'reschedule';
+    if (hasPhrase(normalized, CANCEL_PHRASES)) return 'cancelled';
+    if (hasPhrase(normalized, CANNOT_ATTEND_PHRASES)) return 'reschedule';
+    const confirms = hasPhrase(normalized, CONFIRM_PHRASES) || CONFIRM_EMOJIS.some(emoji => text.includes(emoji));
+    if (confirms && !normalized.includes(' nao ') && !text.includes('?')) return 'confirmed';
+    return 'unclear';
+};
+
+// --- MATCHING ---
+
+const phoneId = (text: string): string | null => {
+    if (text.replace(/\D/g, '').length < 8) return null;
+    const phone = normalizePhone(text);
+    return phone ? `${phone.ddd}${phone.number}` : null;
+};
+
+const nameWords = (name: string) => normalize(name).split(' ').filter(word => word.length > 1);
+
+// Opening words of the messages the clinic sent, to tell its own lines apart from the patient's
+const messagePrefix = (message: string) => normalize(message).slice(0, 40);
+
+/**
+ * Matches the patients' replies to the batch by phone (the chat's number), or by the saved
+ * contact name when the number is not in the export. Replies older than the message sent
+ * to that patient are ignored.
+ */
+export const reconcileChatReplies = (
+    chatExport: ChatExport,
+    results: DocumentAnalysisResult[],
+    options: { sentAt: (key: string) => string | undefined, since?: string }
+): ChatReconciliation => {
+    const rows = results.map(result => ({
+        key: appointmentKey(result.extractedData),
+        patient: normalize(result.extractedData.rawPatientName || result.extractedData.patientName),
+        words: new Set(nameWords(result.extractedData.rawPatientName || result.extractedData.patientName)),
+        phones: new Set(parsePhones(result.extractedData.contact).map(p => `${p.ddd}${p.number}`))
+    }));
+
+    const sentPrefixes = new Set(results.map(r => messagePrefix(r.generatedMessage)).filter(Boolean));
+    const clinicAuthors = new Set(chatExport.chats.flatMap(chat => chat.messages)
+        .filter(message => sentPrefixes.has(messagePrefix(message.text)))
+        .map(message => message.author));
+
+    const appointments: ReconciledAppointment[] = [];
+    const review: ReplyReview[] = [];
+
+    for (const chat of chatExport.chats) {
+        const authors = Array.from(new Set(chat.messages.map(m => m.author)));
+        // Without a message of ours in the chat, the patient is the contact the chat is named after
+        const patientAuthors = authors.some(a => clinicAuthors.has(a))
+            ? authors.filter(a => !clinicAuthors.has(a))
+            : authors.includes(chat.title) ? [chat.title] : authors;
+
+        for (const author of patientAuthors) {
+            const phone = phoneId(author) || phoneId(chat.title);
+            const words = nameWords(author);
+            let matchedBy: ReconciledAppointment['matchedBy'] = 'phone';
+            let matches = phone ? rows.filter(row => row.phones.has(phone)) : [];
+            if (!phone && words.length >= 2) {
+                matchedBy = 'name';
+                matches = rows.filter(row => words.every(word => row.words.has(word)));
+            }
+
+            const keys = matches.map(m => m.key);
+            const sent = keys.map(options.sentAt).filter((at): at is string => !!at).sort()[0] || options.since;
+            const replies: ChatReply[] = chat.messages
+                .filter(m => m.author === author && (!sent || !m.at || m.at >= sent))
+                .map(m => ({ ...m, intent: classifyReply(m.text) }));
+            if (replies.length === 0) continue;
+
+            const contact = author === chat.title ? author : `${author} (${chat.title})`;
+            if (matches.length === 0) {
+                review.push({ reason: 'not_found', contact, keys, replies });
+                continue;
+            }
+            // Same number for different patients (e.g. a mother and her children)
+            if (new Set(matches.map(m => m.patient)).size > 1) {
+                review.push({ reason: 'ambiguous', contact, keys, replies });
+                continue;
+            }
+
+            const decisive = [...replies].reverse().find(r => r.intent !== 'unclear');
+            const last = replies[replies.length - 1];
+            for (const key of keys) {
+                appointments.push({ key, intent: decisive?.intent || 'unclear', reply: decisive || last, matchedBy });
+            }
+            // Something was said after the answer (a question, a photo of the guia...)
+            if (!decisive || last.intent === 'unclear') review.push({ reason: 'unclear', contact, keys, replies });
+            else if (decisive.intent === 'reschedule') review.push({ reason: 'reschedule', contact, keys, replies });
+        }
+    }
+
+    return { chats: chatExport.chats.length, appointments, review, errors: chatExport.errors };
+};
@@ -1,44 +1,66 @@
-import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
-import { DocumentAnalysisResult } from "../types";
-
-// Access API Key from environment
-// We check multiple sources to be robust across different Vite configurations
-const apiKey = (
-  import.meta.env.VITE_GEMINI_API_KEY ||
-  import.meta.env.GEMINI_API_KEY ||
-  process.env.GEMINI_API_KEY ||
-  process.env.API_KEY ||
-  ''
-).trim();
-
-if (!apiKey) {
-  console.error("Gemini API Key is missing. Check your .env file (VITE_GEMINI_API_KEY) or vite.config.ts");
-} else {
-  // Log masked key for debugging assurance
-  console.log(`Gemini Service initialized with Key: ${apiKey.substring(0, 4)}...${apiKey.substring(apiKey.length - 4)}`);
-}
-
-const genAI = new GoogleGenerativeAI(apiKey);
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  Part,
+  SchemaType
+} from "@google/generative-ai";
+import { DocumentAnalysisResult, MessageTemplate, MessageTemplateType } from "../types";
+import { DEFAULT_MESSAGE_TEMPLATES, getMessageTemplate, renderTemplate } from "./messageTemplateService";
+import { DEFAULT_UNIT_VALUES, UnitTemplateValues } from "./unitService";
+import { AnalysisError, AnalysisOutput, AnalysisProgress, AnalysisProvider, AnalysisRequest, analysisProgress } from "./analysisProvider";
+import { parseAnalysisResponse } from "./analysisValidation";
+import { extractDocumentText, parseAgendaText } from "./localDocumentService";
+import { formatPatientName, resolvePatientNameFormat } from "./patientNameService";
+import { DEFAULT_ARRIVAL_OFFSET_MINUTES } from "./procedureService";
+import { createRedactionSession, findUnredactedNames, isPrivacyModeActive, redactText, restoreResults } from "./redactionService";
+
+// The client is only built when Gemini is actually used, so the local flow never needs a key
+let client: GoogleGenerativeAI | null = null;
+
+const getApiKey = (): string => (import.meta.env.VITE_GEMINI_API_KEY || process.env.GEMINI_API_KEY || '').trim();
+
+const getClient = (): GoogleGenerativeAI => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new AnalysisError('config', "Chave de API do Gemini não encontrada. Verifique o GEMINI_API_KEY no .env.local.");
+  }
+  if (!client) client = new GoogleGenerativeAI(apiKey);
+  return client;
+};
+
+const GEMINI_MODEL = "gemini-1.5-flash";
+
+// Appended to the prompt when only the redacted text of the agenda is sent
+const PRIVACY_INSTRUCTIONS = `
+
+            **Privacidade:** O documento foi enviado como texto, com os dados pessoais substituídos por marcadores
+            ([PACIENTE_1], [TEL_1], [CARTEIRINHA_1], [CPF_1]...). Use os marcadores como se fossem os valores reais
+            e copie-os exatamente como aparecem (com colchetes), tanto nos campos quanto na mensagem.
+`;
 
 /**
  * Parses a file (PDF or Image) to extract structured data and generate a message.
  * Supports 'individual', 'batch' or 'daily_summary' modes.
- * Supports 'reschedule', 'confirmation', or 'daily_summary' message templates.
+ * Supports 'reschedule', 'confirmation', 'procedure_confirmation' or 'daily_summary' message templates.
  * Now accepts 'userName' to personalize signatures.
+ * Message texts come from the editable templates (messageTemplateService).
+ * The document is either the file itself (inlineData) or its redacted text (privacy mode).
  */
 export const processDocument = async (
-  fileBase64: string,
-  mimeType: string,
+  document: Part,
   additionalContext: string,
   mode: 'individual' | 'batch' = 'individual',
-  type: 'reschedule' | 'confirmation' | 'daily_summary' = 'reschedule',
+  type: 'reschedule' | 'confirmation' | 'procedure_confirmation' | 'daily_summary' = 'reschedule',
   preparationText?: string,
-  userName?: string
+  userName?: string,
+  templates: MessageTemplate[] = DEFAULT_MESSAGE_TEMPLATES,
+  unit: UnitTemplateValues = DEFAULT_UNIT_VALUES,
+  signal?: AbortSignal
 ): Promise<DocumentAnalysisResult | DocumentAnalysisResult[]> => {
   try {
-    if (!apiKey) {
-      throw new Error("Chave de API do Gemini não encontrada. Verifique a configuração.");
-    }
+    const genAI = getClient();
 
     const signatureName = userName || "Atendimento Unimed";
 
@@ -59,8 +81,11 @@ export const processDocument = async (
                - Contar "Primeiras consultas".
                - Contar "Segundas consultas" (ou Consulta).
                - Contar "Retornos".
-               - Contar outros (Intercâmbio, etc).
-            5. **Status:** Confirmados vs Pendentes.
+               - Contar atendimentos por Intercâmbio (pacientes de outra Unimed), separados dos demais.
+               - Contar exames/procedimentos pelo nome (ex: Ecografia, Teste Cutâneo), um item por tipo.
+               - Atendimentos cujo tipo não esteja legível NÃO devem ser adivinhados: conte-os como "sem tipo identificado".
+            5. **Convênios:** Contar pacientes por convênio (ex: Unimed, Cassi). Sem convênio legível: "convênio não identificado".
+            6. **Status:** Confirmados vs Pendentes.
 
             **REGRAS DE FORMATAÇÃO RIGOROSA (OBRIGATÓRIO):**
             1. **Zeros à Esquerda:** Para QUALQUER número de contagem menor que 10, você DEVE adicionar um zero à esquerda.
@@ -91,6 +116,12 @@ export const processDocument = async (
             *[Qtd] - Segunda Consulta* (se houver)
             *[Qtd] - Retorno*
             *[Qtd] - atendimentos por intercâmbio/outros* (se houver)
+            *[Qtd] - [Nome do exame/procedimento]* (um por tipo, se houver)
+            ⚠️ *[Qtd] - atendimentos sem tipo identificado* (se houver)
+
+            🏥 Convênios:
+
+            *[Qtd] - [Convênio]* (um por convênio)
 
             📌 Status dos agendamentos:
 
@@ -107,7 +138,7 @@ export const processDocument = async (
         `;
 
       const model = genAI.getGenerativeModel({
-        model: "gemini-1.5-flash",
+        model: GEMINI_MODEL,
         generationConfig: {
           responseMimeType: "application/json",
           responseSchema: {
@@ -132,65 +163,37 @@ export const processDocument = async (
       });
 
       const result = await model.generateContent([
-        { inlineData: { mimeType: mimeType, data: fileBase64 } },
-        { text: prompt }
-      ]);
+        document,
+        { text: prompt + (document.text ? PRIVACY_INSTRUCTIONS : '') }
+      ], { signal });
 
       const response = await result.response;
       const text = response.text();
 
       if (!text) throw new Error("No response generated.");
 
-      const cleanText = text.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
-      return JSON.parse(cleanText);
+      return parseAnalysisResponse(text, 'object', true)[0];
     }
 
-    // --- STANDARD LOGIC (Reschedule / Confirmation) ---
-
-    // Format preparation block if exists
-    const prepBlock = preparationText
-      ? `\n📝 *Preparo Necessário:*\n${preparationText}\n`
-      : '';
-
-    const templates = {
-      reschedule: `
-          Olá, "nome do paciente", este contato refere-se à sua consulta no Centro de Diagnóstico Unimed (CDU), 9º andar. Tentamos o contato telefônico, mas não conseguimos falar com você.
-
-          Devido a um imprevisto na agenda do médico, sua consulta com o(a) Dr(a). "Nome do Médico" precisou ser remarcada.
-
-          ✅ Novo Agendamento: 
-          📅 Data: "data extraída" 
-          ⏰ Hora: "horário extraído"
-          ${prepBlock}
-          ⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
-
-          ❌ Caso não seja possível a nova data agendada, por favor, entre em contato através da Central de Agendamento: 
-
-          📞 Telefone: (14) 3235-3350 
-          📱 WhatsApp: (14) 99648-4958
-
-          Pedimos desculpas pelo transtorno e agradecemos a compreensão.
-
-          Atenciosamente, 
-          ${signatureName}
-        `,
-      confirmation: `Olá, "nome do paciente", este contato refere-se à sua consulta no Centro de Diagnóstico Unimed (CDU), 9º andar ( Oftalmologia ).
-
-🩺 Dr(a). "Nome do Médico"
-📅 Data: "data extraída"
-⏰ Hora: "horário extraído"
-${prepBlock}
-⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
-
-Em caso de dúvidas ou necessidade de reagendar, entre em contato através da Central de Agendamento: (14) 3235-3350 ou WhatsApp (14) 99648-4958.
-
-Podemos confirmar?
-
-Atenciosamente,
-${signatureName}`
-    };
-
-    const selectedTemplate = templates[type as 'reschedule' | 'confirmation'];
+    // --- STANDARD LOGIC (Reschedule / Confirmation / Procedure confirmation) ---
+    const isProcedure = type === 'procedure_confirmation';
+
+    // The template is rendered with instructions in place of the values, the model fills them in
+    const selectedTemplate = renderTemplate(getMessageTemplate(templates, type as MessageTemplateType).body, {
+      ...unit,
+      ...(isProcedure ? {
+        chegada: '"horário de chegada calculado"',
+        acompanhante: '"aviso de acompanhante, somente se necessário"',
+        autorizacao: '"situação da guia, somente se informada"'
+      } : {}),
+      paciente: '"nome do paciente"',
+      medico: 'Dr(a). "Nome do Médico"',
+      data: '"data extraída"',
+      hora: '"horário extraído"',
+      procedimento: '"procedimento extraído"',
+      preparo: preparationText || '',
+      assinatura: signatureName
+    });
 
     const mappingInstructions = `
       **Instruções de Mapeamento:**
@@ -199,7 +202,14 @@ ${signatureName}`
       3. **HORÁRIO**: Se intervalo (ex: "13:00 - 13:15"), pegue APENAS o INÍCIO (ex: 13:00).
       4. **DESCRIÇÃO**: Nome completo do paciente.
       5. **CONTATO**: Telefone/celular.
-      6. **EVENTO/STATUS**: Ignore linhas com "HORÁRIO LIVRE". Apenas agendados/confirmados.
+      6. **EVENTO/STATUS**: Ignore linhas com "HORÁRIO LIVRE". Apenas agendados/confirmados.${isProcedure ? `
+      7. **PROCEDIMENTO**: Nome do procedimento/exame (ex: Colonoscopia, Campimetria).
+      8. **DETALHES DO PROCEDIMENTO** (procedureDetails):
+         - arrivalOffsetMinutes: antecedência de chegada em minutos (padrão ${DEFAULT_ARRIVAL_OFFSET_MINUTES}). Horário de chegada = horário do procedimento menos a antecedência.
+         - companionRequired: true para sedação, anestesia, endoscopias, colonoscopia, dilatação de pupila ou cirurgia.
+         - authorization: "authorized" (guia autorizada), "pending" (aguardando autorização), "not_required" ou "unknown" (não informado).
+         - guideNumber: número da guia, se impresso na agenda.
+         Linhas de acompanhante e guia só aparecem na mensagem quando se aplicam.` : ''}
     `;
 
     let prompt = '';
@@ -215,8 +225,19 @@ ${signatureName}`
             doctorName: { type: SchemaType.STRING, description: "Nome do médico" },
             date: { type: SchemaType.STRING, description: "Data do agendamento" },
             time: { type: SchemaType.STRING, description: "Horário de início" },
-            procedure: { type: SchemaType.STRING, description: "Tipo do evento" },
+            procedure: { type: SchemaType.STRING, description: isProcedure ? "Nome do procedimento/exame" : "Tipo do evento" },
             contact: { type: SchemaType.STRING, description: "Telefone de contato" },
+            ...(isProcedure ? {
+              procedureDetails: {
+                type: SchemaType.OBJECT,
+                properties: {
+                  arrivalOffsetMinutes: { type: SchemaType.NUMBER, description: "Antecedência de chegada, em minutos" },
+                  companionRequired: { type: SchemaType.BOOLEAN, description: "Exige acompanhante" },
+                  authorization: { type: SchemaType.STRING, description: "authorized | pending | not_required | unknown" },
+                  guideNumber: { type: SchemaType.STRING, description: "Número da guia, vazio se não houver" }
+                }
+              }
+            } : {})
           },
         },
         generatedMessage: {
@@ -265,7 +286,7 @@ ${signatureName}`
     }
 
     const model = genAI.getGenerativeModel({
-      model: "gemini-1.5-flash",
+      model: GEMINI_MODEL,
       generationConfig: {
         responseMimeType: "application/json",
         responseSchema: responseSchema
@@ -273,21 +294,145 @@ ${signatureName}`
     });
 
     const result = await model.generateContent([
-      { inlineData: { mimeType: mimeType, data: fileBase64 } },
-      { text: prompt }
-    ]);
+      document,
+      { text: prompt + (document.text ? PRIVACY_INSTRUCTIONS : '') }
+    ], { signal });
 
     const response = await result.response;
     const text = response.text();
 
     if (!text) throw new Error("No response generated.");
 
-    const cleanText = text.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
-    return JSON.parse(cleanText);
+    // The answer is checked before it reaches the UI (missing fields, dates, object vs array)
+    const results = parseAnalysisResponse(text, mode === 'batch' ? 'array' : 'object');
+    return mode === 'batch' ? results : results[0];
 
   } catch (error: any) {
     console.error("Error processing document:", error);
-    // Explicitly throw the error message
-    throw new Error(error.message || "Falha ao processar o documento.");
+    throw classifyGeminiError(error);
+  }
+};
+
+/**
+ * Maps SDK/HTTP failures to the analysis error kinds (retry only what may succeed on a new attempt).
+ */
+export const classifyGeminiError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof GoogleGenerativeAIAbortError || (error instanceof Error && error.name === 'AbortError')) {
+    return new AnalysisError('cancelled', 'Processamento cancelado.', error);
+  }
+  if (error instanceof SyntaxError || error instanceof GoogleGenerativeAIResponseError || /No response generated/i.test(message)) {
+    return new AnalysisError('invalid_response', 'O Gemini retornou uma resposta inválida.', error);
+  }
+  const status = error instanceof GoogleGenerativeAIFetchError ? error.status : undefined;
+  if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) {
+    return new AnalysisError('rate_limit', 'Limite de uso do Gemini atingido. Aguarde alguns instantes.', error);
+  }
+  if ((status === 400 && /api.?key/i.test(message)) || status === 401 || status === 403) {
+    return new AnalysisError('config', 'Chave de API do Gemini inválida ou sem permissão.', error);
+  }
+  if (status === 400 || status === 413 || status === 415) {
+    return new AnalysisError('unsupported', 'O Gemini não aceitou este arquivo.', error);
+  }
+  if ((status !== undefined && status >= 500) || /fetch|network|ECONN|ETIMEDOUT/i.test(message)) {
+    return new AnalysisError('network', 'Falha de comunicação com o Gemini.', error);
+  }
+  return new AnalysisError('unknown', message || 'Falha ao processar o documento.', error);
+};
+
+const fileToBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Privacy mode: the text is extracted locally, names/phones/carteirinhas become tokens,
+ * only the redacted text goes to Gemini and the real values are put back here.
+ */
+const analyzeRedacted = async (
+  request: AnalysisRequest,
+  signal: AbortSignal,
+  onProgress: (progress: AnalysisProgress) => void
+): Promise<AnalysisOutput> => {
+  const text = await extractDocumentText(request.file, onProgress);
+  if (signal.aborted) throw new AnalysisError('cancelled', 'Processamento cancelado.');
+  if (!text.trim()) throw new AnalysisError('unsupported', 'Não foi possível extrair o texto do arquivo para o modo privacidade.');
+
+  // The local parser tells which words are patient names. Without rows nothing would be redacted.
+  onProgress(analysisProgress('parse'));
+  const appointments = parseAgendaText(text, request.layout);
+  if (appointments.length === 0) {
+    throw new AnalysisError('unsupported', 'Modo privacidade: nenhum agendamento reconhecido com o layout selecionado, o arquivo não foi enviado à IA.');
+  }
+  // Names as printed (accents, hyphens) and as parsed; free slots are not names
+  const names = appointments
+    .filter(appt => !/LIVRE/i.test(appt.patientName))
+    .flatMap(appt => [appt.rawPatientName || '', appt.patientName]);
+  const session = createRedactionSession();
+  const redacted = redactText(text, names, session);
+  const context = redactText(request.context || '', names, session);
+
+  // Fail closed: a name the patterns missed stops the request
+  const leaked = findUnredactedNames(`${redacted}\n${context}`, names);
+  if (leaked.length > 0) {
+    throw new AnalysisError('unsupported', `Modo privacidade: ${leaked.length} nome(s) de paciente não puderam ser ocultados, o arquivo não foi enviado à IA.`);
+  }
+
+  onProgress(analysisProgress('generate'));
+  const result = await processDocument(
+    { text: redacted },
+    context,
+    request.type === 'daily_summary' ? 'individual' : request.mode,
+    request.type,
+    request.prepText,
+    request.userName,
+    request.templates,
+    request.unit,
+    signal
+  );
+
+  // The model only saw tokens, so the name format of the message is applied here
+  let formatName: ((name: string) => string) | undefined;
+  if (request.type !== 'daily_summary') {
+    const template = getMessageTemplate(request.templates || DEFAULT_MESSAGE_TEMPLATES, request.type);
+    const nameFormat = resolvePatientNameFormat(template, request.nameFormat);
+    formatName = (name: string) => formatPatientName(name, nameFormat);
   }
+  return { results: restoreResults(Array.isArray(result) ? result : [result], session, formatName) };
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini (IA)',
+  description: 'Envia o arquivo para a IA do Google. Requer internet e chave de API.',
+  requiresNetwork: true,
+  timeoutMs: 90_000,
+  maxRetries: 2,
+  unavailableReason: () => getApiKey() ? null : 'Chave de API do Gemini não configurada (GEMINI_API_KEY no .env.local).',
+  analyze: async (request, signal, onProgress) => {
+    onProgress(analysisProgress('load'));
+    if (await isPrivacyModeActive()) return analyzeRedacted(request, signal, onProgress);
+    const data = await fileToBase64(request.file);
+    // Extraction and messages happen together on the AI side
+    onProgress(analysisProgress('generate'));
+    const result = await processDocument(
+      { inlineData: { mimeType: request.file.type || 'application/pdf', data } },
+      request.context || '',
+      request.type === 'daily_summary' ? 'individual' : request.mode,
+      request.type,
+      request.prepText,
+      request.userName,
+      request.templates,
+      request.unit,
+      signal
+    );
+    return { results: Array.isArray(result) ? result : [result] };
+  },
+  classifyError: classifyGeminiError
 };
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { AnalysisError, AnalysisOutput, AnalysisProgress, AnalysisProvider, AnalysisRequest } from "./analysisProvider";
+import { LocalPipelineMessage, LocalPipelineRequest, runLocalPipeline } from "./localPipeline";
+
+// Kept between files so pdfjs and the OCR model are loaded only once; replaced after a cancel
+let pipelineWorker: Worker | null = null;
+let nextRequestId = 1;
+
+const getPipelineWorker = (): Worker => {
+    if (!pipelineWorker) {
+        pipelineWorker = new Worker(new URL('./localPipeline.worker.ts', import.meta.url), { type: 'module' });
+    }
+    return pipelineWorker;
+};
+
+const stopPipelineWorker = (worker: Worker) => {
+    worker.terminate();
+    if (pipelineWorker === worker) pipelineWorker = null;
+};
+
+/**
+ * Sends the file to the worker. Aborting terminates it, which really stops pdfjs/OCR mid-page.
+ */
+const runInWorker = (
+    request: LocalPipelineRequest,
+    signal: AbortSignal,
+    onProgress: (progress: AnalysisProgress) => void
+): Promise<AnalysisOutput> => new Promise((resolve, reject) => {
+    const worker = getPipelineWorker();
+    const id = nextRequestId++;
+
+    const cleanup = () => {
+        worker.removeEventListener('message', handleMessage);
+        worker.removeEventListener('error', handleError);
+        signal.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+        cleanup();
+        stopPipelineWorker(worker);
+        reject(new AnalysisError('cancelled', 'Processamento cancelado.'));
+    };
+    const handleMessage = (event: MessageEvent<LocalPipelineMessage>) => {
+        const message = event.data;
+        if (message.id !== id) return;
+        if (message.kind === 'progress') {
+            onProgress(message.progress);
+            return;
+        }
+        cleanup();
+        if (message.kind === 'done') resolve(message.output);
+        else reject(Object.assign(new Error(message.message), { name: message.name }));
+    };
+    // Script errors (failed to load, crash): the worker is not reused
+    const handleError = (event: ErrorEvent) => {
+        cleanup();
+        stopPipelineWorker(worker);
+        reject(new Error(event.message || 'Falha ao iniciar a leitura em segundo plano.'));
+    };
+
+    if (signal.aborted) return cancel();
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    signal.addEventListener('abort', cancel, { once: true });
+    worker.postMessage({ id, request });
+});
+
+const toPipelineRequest = (request: AnalysisRequest): LocalPipelineRequest => ({
+    file: request.file,
+    type: request.type,
+    prepText: request.prepText,
+    userName: request.userName,
+    templates: request.templates,
+    unit: request.unit,
+    nameFormat: request.nameFormat,
+    layout: request.layout,
+    extractionMode: request.extractionMode
+});
+
+/**
+ * Reads the agenda in the browser (text layer, columns or OCR). Nothing leaves the computer.
+ */
+export const localProvider: AnalysisProvider = {
+    id: 'local',
+    label: 'Leitura local',
+    description: 'Lê o PDF ou a foto no próprio navegador (texto, colunas ou OCR). Nenhum dado é enviado.',
+    requiresNetwork: false,
+    timeoutMs: 180_000, // OCR of a long scanned agenda is slow on older machines
+    maxRetries: 0, // Same file, same result
+    unavailableReason: () => null,
+    analyze: async (request, signal, onProgress) => {
+        if (typeof Worker !== 'undefined') return runInWorker(toPipelineRequest(request), signal, onProgress);
+
+        const output = await runLocalPipeline(toPipelineRequest(request), onProgress);
+        if (signal.aborted) throw new AnalysisError('cancelled', 'Processamento cancelado.');
+        return output;
+    },
+    classifyError: (error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof Error && /InvalidPDF|PasswordException/.test(error.name)) {
+            return new AnalysisError('unsupported', 'Não foi possível abrir o PDF (arquivo inválido ou protegido por senha).', error);
+        }
+        if (/OCR/.test(message)) return new AnalysisError('config', message, error);
+        return new AnalysisError('unknown', message || 'Falha ao ler o arquivo.', error);
+    }
+};
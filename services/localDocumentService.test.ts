@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AgendaTableRow, parseAgendaRows, parseAgendaText } from './localDocumentService';
+import { DEFAULT_AGENDA_LAYOUT } from './agendaLayoutService';
+
+// The text parser does not touch PDFs, and pdfjs needs browser globals to load
+vi.mock('pdfjs-dist', () => ({ GlobalWorkerOptions: {} }));
+
+describe('parseAgendaText', () => {
+    it('splits the columns of the default layout', () => {
+        const [appt] = parseAgendaText('08:00 - 08:15 MARIA DA SILVA Primeira Consulta Unimed (14) 99876-5432 Confirmado');
+
+        expect(appt).toMatchObject({
+            patientName: 'MARIA DA SILVA',
+            time: '08:00',
+            procedure: 'Primeira Consulta',
+            insurance: 'Unimed',
+            contact: '(14) 99876-5432',
+            status: 'Confirmado'
+        });
+    });
+
+    it('follows the column order of the layout', () => {
+        const layout = { ...DEFAULT_AGENDA_LAYOUT, columns: ['time', 'insurance', 'event', 'patient', 'contact', 'status'] as typeof DEFAULT_AGENDA_LAYOUT.columns };
+        const [appt] = parseAgendaText('08:00 - 08:15 Unimed Retorno JOÃO PEREIRA (14) 3222-1100 Agendado', layout);
+
+        expect(appt.patientName).toBe('JOÃO PEREIRA');
+        expect(appt.insurance).toBe('Unimed');
+        expect(appt.procedure).toBe('Retorno');
+    });
+
+    it('gives every row the doctor and date of the section above it', () => {
+        const appointments = parseAgendaText([
+            'Prestador: Dr. Paulo Mendes',
+            '25/11/2025',
+            '08:00 - 08:15 MARIA DA SILVA Consulta Unimed',
+            'Prestador: Dra. Lucia Ramos',
+            '26/11/2025',
+            '09:00 - 09:15 JOSÉ SOUZA Retorno Unimed'
+        ].join('\n'));
+
+        expect(appointments.map(a => [a.patientName, a.doctor, a.date])).toEqual([
+            ['MARIA DA SILVA', 'Dr. Paulo Mendes', '25/11/2025'],
+            ['JOSÉ SOUZA', 'Dra. Lucia Ramos', '26/11/2025']
+        ]);
+    });
+
+    it('keeps LIVRE rows as free slots', () => {
+        const appointments = parseAgendaText([
+            '08:00 - 08:15 MARIA DA SILVA Consulta Unimed',
+            '08:15 - 08:30 LIVRE'
+        ].join('\n'));
+
+        expect(appointments.map(a => [a.time, a.patientName])).toEqual([
+            ['08:00', 'MARIA DA SILVA'],
+            ['08:15', 'LIVRE']
+        ]);
+    });
+
+    it('joins a name wrapped onto the next line', () => {
+        const [appt] = parseAgendaText([
+            '08:00 - 08:15 MARIA DA CONCEIÇÃO Consulta Unimed',
+            'APARECIDA'
+        ].join('\n'));
+
+        expect(appt.patientName).toBe('MARIA DA CONCEIÇÃO APARECIDA');
+        expect(appt.rawPatientName).toBe('MARIA DA CONCEIÇÃO APARECIDA');
+    });
+});
+
+describe('parseAgendaRows', () => {
+    const row = (patch: Partial<AgendaTableRow>): AgendaTableRow => ({
+        page: 1, time: '08:00', patient: '', event: '', insurance: '', contact: '', status: '', doctor: 'Paulo Mendes', date: '25/11/2025', ...patch
+    });
+
+    it('reads each field from its own cell', () => {
+        const [appt] = parseAgendaRows([row({ patient: 'ANA-MARIA DOS SANTOS', event: 'Retorno', insurance: 'Unimed', contact: '14 99876 5432', status: 'confirmado' })]);
+
+        expect(appt).toMatchObject({
+            patientName: 'ANA-MARIA DOS SANTOS',
+            procedure: 'Retorno',
+            insurance: 'Unimed',
+            contact: '(14) 99876-5432',
+            status: 'Confirmado',
+            doctor: 'Paulo Mendes'
+        });
+    });
+
+    it('marks LIVRE rows from the patient or event cell', () => {
+        const appointments = parseAgendaRows([row({ patient: 'LIVRE' }), row({ time: '08:15', event: 'Livre' })]);
+
+        expect(appointments.map(a => a.patientName)).toEqual(['LIVRE', 'LIVRE']);
+    });
+});
@@ -1,4 +1,12 @@
-import { DocumentAnalysisResult, ExtractedData } from "../types";
+import { DocumentAnalysisResult, ExtractedData, AgendaColumn, AgendaLayoutProfile, FieldConfidence, MessageTemplate, MessageTemplateType, PatientNameFormat, ProcedureDetails } from "../types";
+import { DEFAULT_AGENDA_LAYOUT, compileHeaderPattern } from "./agendaLayoutService";
+import { OcrResult, recognizeImage, mergeOcrResults, estimateFieldConfidence } from "./ocrService";
+import { DEFAULT_MESSAGE_TEMPLATES, getMessageTemplate, renderTemplate } from "./messageTemplateService";
+import { DEFAULT_UNIT_VALUES, UnitTemplateValues } from "./unitService";
+import { PHONE_PATTERN, formatContact } from "./phoneService";
+import { formatPatientName, resolvePatientNameFormat } from "./patientNameService";
+import { AnalysisProgress, analysisProgress } from "./analysisProvider";
+import { detectProcedureDetails, procedureTemplateValues } from "./procedureService";
 import * as pdfjsLib from 'pdfjs-dist';
 
 // Use Vite's asset loading to get the local worker path
@@ -7,6 +15,44 @@ import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
 
+// Progress of the local pipeline (load, extract per page, parse, generate)
+export type ProgressHandler = (progress: AnalysisProgress) => void;
+
+/**
+ * Canvases for pdfjs inside the Web Worker, where there is no document to create them.
+ */
+class OffscreenCanvasFactory {
+    create(width: number, height: number) {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d') };
+    }
+
+    reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+        canvasAndContext.canvas.width = width;
+        canvasAndContext.canvas.height = height;
+    }
+
+    destroy(canvasAndContext: { canvas: OffscreenCanvas | null, context: unknown }) {
+        if (canvasAndContext.canvas) {
+            canvasAndContext.canvas.width = 0;
+            canvasAndContext.canvas.height = 0;
+        }
+        canvasAndContext.canvas = null;
+        canvasAndContext.context = null;
+    }
+}
+
+const inWorker = typeof document === 'undefined';
+
+const openPdf = async (file: File) => {
+    const arrayBuffer = await file.arrayBuffer();
+    // In the worker pages are rendered on OffscreenCanvas and glyphs are drawn as paths (no FontFace)
+    const loadingTask = pdfjsLib.getDocument(inWorker
+        ? { data: arrayBuffer, CanvasFactory: OffscreenCanvasFactory, disableFontFace: true }
+        : { data: arrayBuffer });
+    return loadingTask.promise;
+};
+
 /**
  * Text item with layout info
  */
@@ -14,68 +60,96 @@ interface TextItem {
     str: string;
     x: number;
     y: number;
+    width: number;
 }
 
+// Vertical tolerance (pt) for items to be considered on the same line
+const LINE_TOLERANCE = 8;
+
 /**
- * Extract text from a uploaded PDF file, preserving line structure.
+ * Loads every page of the PDF and returns its positioned text items.
  */
-export const extractTextFromPDF = async (file: File): Promise<string> => {
-    try {
-        const arrayBuffer = await file.arrayBuffer();
-        // Load PDF
-        const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-        const pdf = await loadingTask.promise;
-        console.log(`PDF Loaded: ${pdf.numPages} pages.`);
+const loadPdfPageItems = async (file: File, onProgress?: ProgressHandler): Promise<TextItem[][]> => {
+    onProgress?.(analysisProgress('load'));
+    const pdf = await openPdf(file);
+    console.log(`PDF Loaded: ${pdf.numPages} pages.`);
+
+    const pages: TextItem[][] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+
+        // Map and Filter items
+        const items: TextItem[] = [];
+        for (const item of textContent.items as any[]) {
+            // Some items might be empty or whitespace
+            if (!item.str || !item.str.trim()) continue;
+
+            // Fallback for transform: use 0,0 if missing (shouldn't happen on standard text)
+            const tx = item.transform ? item.transform[4] : 0;
+            const ty = item.transform ? item.transform[5] : 0;
+
+            items.push({
+                str: item.str,
+                x: tx,
+                y: ty,
+                width: item.width || 0
+            });
+        }
+        pages.push(items);
+        onProgress?.(analysisProgress('extract', i, pdf.numPages));
+    }
+    return pages;
+};
 
-        let fullText = '';
+/**
+ * Groups positioned items into visual lines, top to bottom, each line sorted left to right.
+ */
+const groupItemsIntoLines = (items: TextItem[]): TextItem[][] => {
+    // Sort by Y (Top to Bottom), then X (Left to Right)
+    // PDF coordinates: Y typically starts from bottom-left (0,0) going UP. 
+    // So higher Y is higher on page. We want format Text Top->Bottom.
+    // So we sort DESCENDING by Y.
+    const sorted = [...items].sort((a, b) => {
+        const yDiff = b.y - a.y;
+        if (Math.abs(yDiff) < LINE_TOLERANCE) { // Tolerance for same line
+            return a.x - b.x;
+        }
+        return yDiff;
+    });
 
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-
-            // Map and Filter items
-            const items: TextItem[] = [];
-            for (const item of textContent.items as any[]) {
-                // Some items might be empty or whitespace
-                if (!item.str || !item.str.trim()) continue;
-
-                // Fallback for transform: use 0,0 if missing (shouldn't happen on standard text)
-                const tx = item.transform ? item.transform[4] : 0;
-                const ty = item.transform ? item.transform[5] : 0;
-
-                items.push({
-                    str: item.str,
-                    x: tx,
-                    y: ty
-                });
-            }
+    // Reconstruct visually
+    const lines: TextItem[][] = [];
+    let currentY = sorted[0]?.y || 0;
+    let line: TextItem[] = [];
+
+    for (const item of sorted) {
+        // If Y difference is significant, it's a new line
+        if (Math.abs(item.y - currentY) > LINE_TOLERANCE) {
+            if (line.length > 0) lines.push(line);
+            line = [];
+            currentY = item.y;
+        }
+        line.push(item);
+    }
+    if (line.length > 0) lines.push(line);
+    return lines;
+};
 
-            // Sort by Y (Top to Bottom), then X (Left to Right)
-            // PDF coordinates: Y typically starts from bottom-left (0,0) going UP. 
-            // So higher Y is higher on page. We want format Text Top->Bottom.
-            // So we sort DESCENDING by Y.
-            items.sort((a, b) => {
-                const yDiff = b.y - a.y;
-                if (Math.abs(yDiff) < 8) { // Tolerance for same line
-                    return a.x - b.x;
-                }
-                return yDiff;
-            });
+const lineToText = (line: TextItem[]) => line.map(i => i.str).join(' ').replace(/\s+/g, ' ').trim();
 
-            // Reconstruct visually
-            let currentY = items[0]?.y || 0;
-            let lineText = '';
+/**
+ * Extract text from a uploaded PDF file, preserving line structure.
+ */
+export const extractTextFromPDF = async (file: File, onProgress?: ProgressHandler): Promise<string> => {
+    try {
+        const pages = await loadPdfPageItems(file, onProgress);
 
-            for (const item of items) {
-                // If Y difference is significant, it's a new line
-                if (Math.abs(item.y - currentY) > 8) {
-                    fullText += lineText.trim() + '\n';
-                    lineText = '';
-                    currentY = item.y;
-                }
-                lineText += item.str + ' ';
+        let fullText = '';
+        for (const items of pages) {
+            for (const line of groupItemsIntoLines(items)) {
+                fullText += lineToText(line) + '\n';
             }
-            fullText += lineText.trim() + '\n';
         }
 
         console.log("Extraction Complete. Length:", fullText.length);
@@ -87,8 +161,9 @@ export const extractTextFromPDF = async (file: File): Promise<string> => {
     }
 };
 
-interface ParsedAppointment {
+export interface ParsedAppointment {
     patientName: string;
+    rawPatientName?: string; // Patient column as printed (accents, hyphens), for reconciliation and redaction
     time: string;
     contact: string;
     status: string;
@@ -96,19 +171,89 @@ interface ParsedAppointment {
     date?: string;
     procedure?: string;
     insurance?: string;
+    exchange?: boolean; // Intercâmbio (patient from another Unimed)
+    sourceLines?: number[]; // Text line indexes the row was read from (OCR confidence lookup)
+    confidence?: FieldConfidence;
+    procedureDetails?: ProcedureDetails; // Procedure confirmations: arrival, companion, guia
 }
 
+// Trims a name to its first and last letter, accented ones included
+const trimToLetters = (value: string) =>
+    value.replace(/\s+/g, ' ').replace(/^[^\p{L}]+/u, '').replace(/[^\p{L}]+$/u, '');
+
 /**
- * Parses using the specific User column order:
- * "HORÁRIO | DESCRIÇÃO (PACIENTE) | EVENTO | CONVÊNIO | CONTATO | STATUS"
+ * Escapes a user supplied keyword and wraps it with letter boundaries,
+ * so "Amil" does not match inside "CAMILA".
  */
-export const parseAgendaText = (text: string): ParsedAppointment[] => {
-    const lines = text.split('\n');
-    let appointments: ParsedAppointment[] = [];
+const keywordRegex = (keyword: string, flags: string = 'gi'): RegExp => {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, `${flags}u`);
+};
 
-    // Global Metadata
-    let globalDoctor = '';
-    let globalDate = '';
+const EXCHANGE_PATTERN = /interc[aâ]mbio/i;
+
+/**
+ * Tracks the doctor/date section headers of a document. Exported agendas may hold several
+ * providers or days, so every header line found updates the context of the rows below it.
+ */
+const createSectionTracker = (layout: AgendaLayoutProfile) => {
+    const datePattern = compileHeaderPattern(layout.dateHeaderPattern);
+    const doctorPattern = compileHeaderPattern(layout.doctorHeaderPattern);
+    const stampTerms = (layout.stampTerms || []).map(t => t.toUpperCase());
+    let doctor = '';
+    let date = '';
+
+    return {
+        /**
+         * Reads a non-appointment line. Returns true when it was a section header.
+         */
+        update(line: string): boolean {
+            // Print stamps ("Impresso em 25/11/2025") carry dates that are not the agenda date
+            if (stampTerms.some(t => line.toUpperCase().includes(t))) return false;
+
+            let isHeader = false;
+            if (doctorPattern) {
+                // Match Name, allowing for underscores
+                const dr = line.match(doctorPattern);
+                const captured = dr ? [...dr].slice(1).reverse().find(Boolean) : undefined;
+                if (captured) {
+                    // Replace underscores with spaces and trim
+                    doctor = captured.replace(/_/g, ' ').trim();
+                    isHeader = true;
+                }
+            }
+            if (datePattern) {
+                const d = line.match(datePattern);
+                if (d) {
+                    date = d[1] || d[0];
+                    isHeader = true;
+                }
+            }
+            return isHeader;
+        },
+        current: () => ({ doctor, date })
+    };
+};
+
+/**
+ * Rows printed before the first header (e.g. header at the page bottom) inherit the first section found.
+ */
+const backfillSections = (appointments: ParsedAppointment[]) => {
+    const firstDoctor = appointments.find(a => a.doctor)?.doctor || '';
+    const firstDate = appointments.find(a => a.date)?.date || '';
+    for (const appt of appointments) {
+        if (!appt.doctor) appt.doctor = firstDoctor;
+        if (!appt.date) appt.date = firstDate;
+    }
+};
+
+/**
+ * Parses agenda text following the column order and keyword sets of the given layout profile.
+ * Default: "HORÁRIO | DESCRIÇÃO (PACIENTE) | EVENTO | CONVÊNIO | CONTATO | STATUS"
+ */
+export const parseAgendaText = (text: string, layout: AgendaLayoutProfile = DEFAULT_AGENDA_LAYOUT): ParsedAppointment[] => {
+    const lines = text.split('\n');
+    const appointments: ParsedAppointment[] = [];
 
     // Patterns
     // Range Pattern: Forces presence of a dash (hyphen or en-dash)
@@ -116,43 +261,25 @@ export const parseAgendaText = (text: string): ParsedAppointment[] => {
     // Single Pattern: Starts with time, capturing it.
     const singleTimePattern = /^(\d{2}:\d{2})/;
 
-    // Date/Phone
-    const datePattern = /(\d{2}\/\d{2}\/\d{4})/;
-    const phonePattern = /(?:\(?\d{2}\)?\s?)?(?:9?\d{4}[-\.\s]?\d{4})/;
-
-    // Keywords Lists
-    // Removed 'LIVRE' so we can track free slots
-    const badLines = ['BLOQUEIO', 'Agenda do Dia', 'Relatório', 'Página', 'Impresso em', 'Emissão', 'Total', 'Qtde'];
+    // Phone
+    const phonePattern = PHONE_PATTERN;
 
-    // Status
-    const statusKeywords = ['Confirmado', 'Realizado', 'Falta', 'Agendado', 'Desistencia', 'Cancelado', 'Atendido', 'Em Atendimento'];
+    // Keywords Lists (from profile). Longest first so "Retorno de Consulta" wins over "Retorno"
+    const byLength = (a: string, b: string) => b.length - a.length;
+    const badLines = layout.ignoredLines;
+    const statusKeywords = layout.statusKeywords;
+    const insuranceKeywords = [...layout.insuranceKeywords].sort(byLength);
+    const eventKeywords = [...layout.eventKeywords].sort(byLength);
 
-    // Junk Terms
-    const junkTerms = [
-        'Unimed', 'Particular', 'Cassi', 'Iamspe', 'Bradesco', 'Sulamerica', 'Allianz', 'Porto Seguro',
-        'Amil', 'Mediservice', 'Fusex', 'Apas', 'Cabesp', 'Geap', 'Saude Caixa', 'Postal Saude',
-        'Intercambio', 'Intercâmbio', 'Bauru', 'Cooperado', 'Beneficiario', 'Dependente', 'Titular',
-        'Consulta', 'Retorno', 'Exame', 'Procedimento', 'Cirurgia', 'Avaliação', 'Ecografia', 'Bioimpedancia', 'Teste Cutaneo', 'Imunoterapia', 'Pequena Cirurgia'
-    ];
-
-    const insuranceKeywords = [
-        'Unimed', 'Particular', 'Cassi', 'Iamspe', 'Bradesco', 'Sulamerica', 'Allianz', 'Porto Seguro',
-        'Amil', 'Mediservice', 'Fusex', 'Apas', 'Cabesp', 'Geap', 'Saude Caixa', 'Postal Saude'
-    ];
-
-    const eventKeywords = [
-        'Consulta', 'Retorno de Consulta', 'Retorno', 'Exame', 'Procedimento', 'Cirurgia', 'Avaliação',
-        'Ecografia', 'Bioimpedancia', 'Teste Cutaneo', 'Imunoterapia', 'Pequena Cirurgia'
-    ];
-    eventKeywords.sort((a, b) => b.length - a.length);
-    insuranceKeywords.sort((a, b) => b.length - a.length);
+    // Junk Terms: anything that can never be part of a patient name
+    const junkTerms = [...insuranceKeywords, ...layout.junkTerms, ...eventKeywords];
 
     // Helper to strip keywords
     const stripKeywords = (input: string, list: string[]): { cleaned: string, found: string[] } => {
         let cleaned = input;
         const found: string[] = [];
         for (const kw of list) {
-            const regex = new RegExp(kw, 'gi');
+            const regex = keywordRegex(kw);
             if (cleaned.match(regex)) {
                 found.push(kw);
                 cleaned = cleaned.replace(regex, '');
@@ -161,21 +288,42 @@ export const parseAgendaText = (text: string): ParsedAppointment[] => {
         return { cleaned, found };
     };
 
-    // Header Scan
-    for (const line of lines.slice(0, 15)) {
-        if (!globalDate) {
-            const d = line.match(datePattern);
-            if (d) globalDate = d[1];
-        }
-        if (!globalDoctor) {
-            // Match Name, allowing for underscores
-            const dr = line.match(/(Dr\.|Dra\.|Medico|Prestador)[:\s]+([A-Za-z\s\._]+)/i);
-            if (dr) {
-                // Replace underscores with spaces and trim
-                globalDoctor = dr[2].replace(/_/g, ' ').trim();
+    const containsKeyword = (input: string, list: string[]) => list.some(kw => keywordRegex(kw, 'i').test(input));
+
+    // Column order: the patient segment ends where the first column printed after it begins
+    const columnMatchers: Partial<Record<AgendaColumn, RegExp[]>> = {
+        status: statusKeywords.map(kw => keywordRegex(kw)),
+        event: eventKeywords.map(kw => keywordRegex(kw)),
+        insurance: insuranceKeywords.map(kw => keywordRegex(kw)),
+        contact: [new RegExp(phonePattern, 'g')]
+    };
+    const patientIndex = layout.columns.indexOf('patient');
+    const columnsBefore = layout.columns.slice(0, Math.max(patientIndex, 0)).filter(c => c !== 'time');
+    const columnsAfter = layout.columns.slice(patientIndex + 1).filter(c => c !== 'time');
+
+    const findSpans = (input: string, columns: AgendaColumn[]) => {
+        const spans: { start: number, end: number }[] = [];
+        for (const column of columns) {
+            for (const regex of columnMatchers[column] || []) {
+                for (const m of input.matchAll(regex)) {
+                    if (m.index === undefined || !m[0].trim()) continue;
+                    spans.push({ start: m.index, end: m.index + m[0].length });
+                }
             }
         }
-    }
+        return spans;
+    };
+
+    const slicePatientSegment = (input: string): string => {
+        const before = findSpans(input, columnsBefore);
+        const start = before.length > 0 ? Math.max(...before.map(s => s.end)) : 0;
+        const after = findSpans(input, columnsAfter).filter(s => s.start >= start);
+        const end = after.length > 0 ? Math.min(...after.map(s => s.start)) : input.length;
+        return input.slice(start, end);
+    };
+
+    // Doctor/Date sections (updated by header lines anywhere in the document)
+    const sections = createSectionTracker(layout);
 
     for (let i = 0; i < lines.length; i++) {
         let line = lines[i];
@@ -195,6 +343,9 @@ export const parseAgendaText = (text: string): ParsedAppointment[] => {
         const isNewAppointment = !!rangeMatch;
 
         if (!isNewAppointment) {
+            // Section header (doctor/date) - never part of a patient name
+            if (sections.update(line)) continue;
+
             // It is a continuation line or junk
             // Check major junk
             if (badLines.some(bl => line.toUpperCase().includes(bl.toUpperCase()))) continue;
@@ -212,8 +363,7 @@ export const parseAgendaText = (text: string): ParsedAppointment[] => {
                 }
 
                 // Clean Junk
-                const cleanLineUpper = contentLine.trim().toUpperCase();
-                const isJunk = junkTerms.some(term => cleanLineUpper.includes(term.toUpperCase()));
+                const isJunk = containsKeyword(contentLine, junkTerms);
 
                 if (!isJunk && contentLine.length > 1) {
                     let continuation = contentLine;
@@ -225,6 +375,7 @@ export const parseAgendaText = (text: string): ParsedAppointment[] => {
                     // Remove Status
                     const resStatus = stripKeywords(continuation, statusKeywords);
                     continuation = resStatus.cleaned;
+                    const rawContinuation = trimToLetters(continuation);
 
                     // Cleanup
                     continuation = continuation
@@ -236,6 +387,8 @@ export const parseAgendaText = (text: string): ParsedAppointment[] => {
 
                     if (continuation.length > 1 && !continuation.match(/^[0-9\W]+$/)) {
                         prev.patientName = `${prev.patientName} ${continuation}`.trim();
+                        prev.rawPatientName = `${prev.rawPatientName || ''} ${rawContinuation}`.trim();
+                        prev.sourceLines?.push(i);
                     }
                 }
             }
@@ -252,6 +405,9 @@ export const parseAgendaText = (text: string): ParsedAppointment[] => {
         let remaining = line.replace(rangeMatch[0], '').trim();
         remaining = remaining.replace(/^[-–]\s*/, ''); // Extra cleanup of dash
 
+        // Isolate the patient column before stripping the other columns
+        let nameSegment = slicePatientSegment(remaining);
+
         // Extract Status
         let status = 'Agendado';
         const resStatus = stripKeywords(remaining, statusKeywords);
@@ -263,161 +419,486 @@ export const parseAgendaText = (text: string): ParsedAppointment[] => {
         const foundPhones = remaining.match(new RegExp(phonePattern, 'g'));
         let contact = '';
         if (foundPhones) {
-            contact = foundPhones.map(p => p.trim()).join(' / ');
+            contact = formatContact(foundPhones.join(' / '));
             foundPhones.forEach(p => remaining = remaining.replace(p, ''));
         }
 
         // Extract Metadata
         const resJunk = stripKeywords(remaining, junkTerms);
-        remaining = resJunk.cleaned;
         let insurance = resJunk.found.find(k => insuranceKeywords.includes(k)) || '';
         let event = resJunk.found.find(k => eventKeywords.includes(k)) || '';
 
-        // Name
-        let name = remaining
+        // Name: whatever is left of the patient column once stray keywords are removed
+        nameSegment = nameSegment.replace(new RegExp(phonePattern, 'g'), '');
+        nameSegment = stripKeywords(nameSegment, statusKeywords).cleaned;
+        nameSegment = stripKeywords(nameSegment, junkTerms).cleaned;
+        const rawName = trimToLetters(nameSegment);
+
+        let name = nameSegment
             .replace(/[-–]/g, '')
             .replace(/\s+/g, ' ')
             .replace(/\d+/g, '')
             .trim();
 
-        name = name.replace(/^[^a-zA-Z]+/, '').replace(/[^a-zA-Z]+$/, '');
+        name = trimToLetters(name);
         name = name.replace(/\sPP$/, '').replace(/^PP\s/, '');
 
         if (name.length < 3 && !name.toUpperCase().includes('LIVRE')) continue;
 
         appointments.push({
             patientName: name,
+            rawPatientName: rawName,
             time: startTime,
             contact: contact,
             status: status,
-            doctor: globalDoctor,
-            date: globalDate,
+            ...sections.current(),
             procedure: event,
-            insurance: insurance
+            insurance: insurance,
+            exchange: EXCHANGE_PATTERN.test(line),
+            sourceLines: [i]
         });
     }
 
-    // FINAL PASS: Filter out "Fake" appointments that might have slipped through
+    backfillSections(appointments);
+    return finalizeAppointments(appointments, junkTerms);
+};
+
+/**
+ * FINAL PASS shared by the text and column parsers.
+ */
+const finalizeAppointments = (appointments: ParsedAppointment[], junkTerms: string[]): ParsedAppointment[] => {
+    // Filter out "Fake" appointments that might have slipped through
     // e.g. if a line was read as an appointment but the name is just "Intercambio" or empty
-    appointments = appointments.filter(appt => {
+    return appointments.filter(appt => {
         const n = appt.patientName.toUpperCase();
         // Check if the name is just a single junk term or too short
         const isJunkName = junkTerms.some(t => n === t.toUpperCase());
         // Allow shorter names if it is explicitly "LIVRE"
         if (n.includes('LIVRE')) return true;
         return !isJunkName && n.length > 2;
-    }).map(appt => {
-        // User Request: Keep only the first two names (e.g. "ISABELA ROMEIRO CINTRA" -> "ISABELA ROMEIRO")
-        const parts = appt.patientName.split(/\s+/);
-        if (parts.length > 2) {
-            appt.patientName = parts.slice(0, 2).join(' ');
-        }
-        return appt;
     });
+    // The full name is kept: the message picks the words it needs (patientNameService)
+};
 
-    return appointments;
+// --- COLUMN DETECTION MODE ---
+
+/**
+ * One table row rebuilt from pdfjs coordinates. Cells hold the raw text of each column band.
+ */
+export interface AgendaTableRow {
+    page: number;
+    doctor: string; // Section the row was printed under
+    date: string;
+    time: string;
+    patient: string;
+    event: string;
+    insurance: string;
+    contact: string;
+    status: string;
+}
+
+interface ColumnBand {
+    column: AgendaColumn;
+    start: number; // Inclusive x (pt)
+    end: number;   // Exclusive x (pt)
+}
+
+const normalizeHeader = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().trim();
+
+/**
+ * Finds the header row of the table and turns each recognized header into an x band.
+ * Returns null when fewer than three headers are found on the line.
+ */
+const detectColumnBands = (line: TextItem[], layout: AgendaLayoutProfile): ColumnBand[] | null => {
+    const starts: { column: AgendaColumn, x: number }[] = [];
+    for (const column of layout.columns) {
+        const labels = (layout.columnHeaders?.[column] || []).map(normalizeHeader).filter(Boolean);
+        const item = line.find(i => labels.some(label => normalizeHeader(i.str).startsWith(label)));
+        if (item && !starts.some(s => s.column === column)) starts.push({ column, x: item.x });
+    }
+    if (starts.length < 3) return null;
+
+    starts.sort((a, b) => a.x - b.x);
+    return starts.map((s, index) => ({
+        column: s.column,
+        // First band also takes anything printed slightly left of its header
+        start: index === 0 ? -Infinity : s.x - 2,
+        end: index < starts.length - 1 ? starts[index + 1].x - 2 : Infinity
+    }));
+};
+
+/**
+ * Splits an item that crosses band boundaries into words with estimated positions,
+ * since some exporters emit a whole row as a single text run.
+ */
+const splitItemByBands = (item: TextItem, bands: ColumnBand[]): TextItem[] => {
+    const crosses = bands.some(b => item.x < b.end && item.x + item.width > b.end + 2);
+    if (!crosses || !item.width || item.str.length === 0) return [item];
+
+    const charWidth = item.width / item.str.length;
+    const words: TextItem[] = [];
+    const regex = /\S+/g;
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(item.str)) !== null) {
+        words.push({
+            str: m[0],
+            x: item.x + m.index * charWidth,
+            y: item.y,
+            width: m[0].length * charWidth
+        });
+    }
+    return words;
+};
+
+const bandFor = (item: TextItem, bands: ColumnBand[]): AgendaColumn | null => {
+    const band = bands.find(b => item.x >= b.start && item.x < b.end);
+    return band ? band.column : null;
+};
+
+/**
+ * Groups the PDF text items into table cells by x position bands taken from the header row.
+ * Rows start on lines with a time in the time band; other lines extend the previous row's cells.
+ * Doctor/date section headers found between rows are attached to the rows that follow.
+ */
+export const extractTableRowsFromPDF = async (
+    file: File,
+    layout: AgendaLayoutProfile = DEFAULT_AGENDA_LAYOUT,
+    onProgress?: ProgressHandler
+): Promise<{ rows: AgendaTableRow[], bandsFound: boolean }> => {
+    try {
+        const pages = await loadPdfPageItems(file, onProgress);
+        const rows: AgendaTableRow[] = [];
+        const sections = createSectionTracker(layout);
+        let bands: ColumnBand[] | null = null;
+        let bandsFound = false;
+
+        pages.forEach((items, pageIndex) => {
+            let current: AgendaTableRow | null = null;
+
+            for (const line of groupItemsIntoLines(items)) {
+                const text = lineToText(line);
+
+                // Header rows (repeated on every page) reset the bands
+                const detected = detectColumnBands(line, layout);
+                if (detected) {
+                    bands = detected;
+                    bandsFound = true;
+                    current = null;
+                    continue;
+                }
+                if (!bands) {
+                    sections.update(text);
+                    continue;
+                }
+                const cells: Record<AgendaColumn, string> = { time: '', patient: '', event: '', insurance: '', contact: '', status: '' };
+                for (const item of line) {
+                    for (const part of splitItemByBands(item, bands)) {
+                        const column = bandFor(part, bands);
+                        if (column) cells[column] = `${cells[column]} ${part.str}`.trim();
+                    }
+                }
+
+                if (/\d{2}:\d{2}/.test(cells.time)) {
+                    current = { page: pageIndex + 1, ...sections.current(), ...cells };
+                    rows.push(current);
+                } else if (sections.update(text)) {
+                    current = null;
+                } else if (layout.ignoredLines.some(bl => text.toUpperCase().includes(bl.toUpperCase()))) {
+                    continue;
+                } else if (current) {
+                    // Wrapped cell content (long names, two phones, etc.)
+                    (Object.keys(cells) as AgendaColumn[]).forEach(column => {
+                        if (column !== 'time' && cells[column]) {
+                            current![column] = `${current![column]} ${cells[column]}`.trim();
+                        }
+                    });
+                }
+            }
+        });
+
+        return { rows, bandsFound };
+
+    } catch (e: any) {
+        console.error("PDF Column Extraction Failed:", e);
+        throw new Error(`Falha na leitura do PDF: ${e.message}`);
+    }
+};
+
+/**
+ * Turns structured table rows into appointments. Each field comes from its own cell,
+ * so no guessing is needed to split the patient name from the insurer or phone.
+ */
+export const parseAgendaRows = (
+    rows: AgendaTableRow[],
+    layout: AgendaLayoutProfile = DEFAULT_AGENDA_LAYOUT
+): ParsedAppointment[] => {
+    const junkTerms = [...layout.insuranceKeywords, ...layout.junkTerms, ...layout.eventKeywords];
+    const findKeyword = (input: string, list: string[]) =>
+        [...list].sort((a, b) => b.length - a.length).find(kw => keywordRegex(kw, 'i').test(input));
+
+    const appointments: ParsedAppointment[] = [];
+    for (const row of rows) {
+        const time = row.time.match(/\d{2}:\d{2}/)?.[0] || '';
+
+        const isFree = /LIVRE/i.test(row.patient) || /LIVRE/i.test(row.event);
+        const name = isFree ? 'LIVRE' : row.patient
+            .replace(/[\u0000-\u001F\u007F-\u009F]/g, ' ')
+            .replace(/\d+/g, '')
+            .replace(/\s+/g, ' ')
+            .replace(/\sPP$/, '').replace(/^PP\s/, '')
+            .trim();
+
+        const contact = formatContact(row.contact);
+
+        let status = findKeyword(row.status, layout.statusKeywords) || row.status.trim() || 'Agendado';
+        status = status.charAt(0).toUpperCase() + status.slice(1).toLowerCase();
+
+        appointments.push({
+            patientName: name,
+            rawPatientName: isFree ? undefined : trimToLetters(row.patient.replace(/[\u0000-\u001F\u007F-\u009F]/g, ' ')),
+            time,
+            contact,
+            status,
+            doctor: row.doctor,
+            date: row.date,
+            procedure: isFree ? '' : (findKeyword(row.event, layout.eventKeywords) || row.event.trim()),
+            insurance: findKeyword(row.insurance, layout.insuranceKeywords) || row.insurance.trim(),
+            exchange: EXCHANGE_PATTERN.test(`${row.patient} ${row.event} ${row.insurance}`)
+        });
+    }
+
+    backfillSections(appointments);
+    return finalizeAppointments(appointments, junkTerms);
 };
 
 export const generateLocalMessage = (
     data: ParsedAppointment,
-    type: 'reschedule' | 'confirmation' | 'procedure_confirmation',
+    type: MessageTemplateType,
     prepText: string,
-    signatureName: string
+    signatureName: string,
+    templates: MessageTemplate[] = DEFAULT_MESSAGE_TEMPLATES,
+    unit: UnitTemplateValues = DEFAULT_UNIT_VALUES,
+    nameFormat?: PatientNameFormat | null
 ): string => {
+    const template = getMessageTemplate(templates, type);
+
     // Basic formatting
     const formattedDoctor = data.doctor && !data.doctor.match(/^(Dr|Dra)/i)
         ? `Dr(a). ${data.doctor}`
         : (data.doctor || "Dr(a). [Nome]");
 
-    const dateObj = data.date || "[Data]";
-
-    // Preparation Block
-    const prepBlock = prepText ? `\n📝 *Preparo Necessário:*\n${prepText}\n` : '';
-
-    if (type === 'reschedule') {
-        return `Olá, ${data.patientName}, este contato refere-se à sua consulta no Centro de Diagnóstico Unimed (CDU), 9º andar. Tentamos o contato telefônico, mas não conseguimos falar com você.
-
-Devido a um imprevisto na agenda do médico, sua consulta com o(a) ${formattedDoctor} precisou ser remarcada.
-
-✅ Novo Agendamento: 
-📅 Data: ${dateObj} 
-⏰ Hora: ${data.time}
-${prepBlock}
-⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
-
-❌ Caso não seja possível a nova data agendada, por favor, entre em contato através da Central de Agendamento: 
+    return renderTemplate(template.body, {
+        ...unit,
+        ...(type === 'procedure_confirmation' ? procedureTemplateValues(data.procedureDetails, data.time) : {}),
+        paciente: formatPatientName(data.patientName, resolvePatientNameFormat(template, nameFormat)),
+        medico: formattedDoctor,
+        data: data.date || "[Data]",
+        hora: data.time,
+        procedimento: data.procedure || '',
+        preparo: prepText,
+        assinatura: signatureName || 'Atendimento Unimed'
+    });
+};
 
-📞 Telefone: (14) 3235-3350 
-📱 WhatsApp: (14) 99648-4958
+/**
+ * Renders the message of an existing row again, e.g. after its preparation was changed.
+ */
+export const generateResultMessage = (
+    data: ExtractedData,
+    type: 'reschedule' | 'confirmation' | 'procedure_confirmation',
+    prepText: string,
+    signatureName: string,
+    templates: MessageTemplate[] = DEFAULT_MESSAGE_TEMPLATES,
+    unit: UnitTemplateValues = DEFAULT_UNIT_VALUES,
+    nameFormat?: PatientNameFormat | null
+): string => generateLocalMessage({
+    patientName: data.rawPatientName || data.patientName,
+    time: data.time,
+    contact: data.contact,
+    status: data.status || '',
+    doctor: data.doctorName,
+    date: data.date,
+    procedure: data.procedure,
+    procedureDetails: data.procedureDetails
+}, type, prepText, signatureName, templates, unit, nameFormat);
+
+// --- OCR FALLBACK ---
+
+// Below this many characters the PDF is considered image-only (scanned)
+const MIN_TEXT_LAYER_LENGTH = 20;
 
-Pedimos desculpas pelo transtorno e agradecemos a compreensão.
+/**
+ * Renders every PDF page to a canvas and runs OCR on it. Used for scanned, image-only PDFs.
+ */
+export const extractTextFromScannedPDF = async (file: File, onProgress?: ProgressHandler): Promise<OcrResult> => {
+    const pdf = await openPdf(file);
+
+    const results: OcrResult[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        // 2x scale gives Tesseract enough pixels for small table fonts
+        const viewport = page.getViewport({ scale: 2 });
+        const canvas = inWorker ? new OffscreenCanvas(viewport.width, viewport.height) : document.createElement('canvas');
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        // pdfjs only types DOM canvases, but draws on OffscreenCanvas the same way
+        await page.render({ canvas: canvas as HTMLCanvasElement, viewport }).promise;
+        results.push(await recognizeImage(canvas));
+        onProgress?.(analysisProgress('extract', i, pdf.numPages));
+    }
+    return mergeOcrResults(results);
+};
 
-Atenciosamente, 
-${signatureName}`;
+/**
+ * Attaches an OCR confidence to each extracted field, based on the words of the lines it was read from.
+ */
+const applyOcrConfidence = (appointments: ParsedAppointment[], ocr: OcrResult) => {
+    for (const appt of appointments) {
+        const rowLines = (appt.sourceLines || []).map(i => ocr.lines[i]).filter(Boolean);
+        appt.confidence = {
+            patientName: estimateFieldConfidence(appt.patientName, rowLines),
+            time: estimateFieldConfidence(appt.time, rowLines),
+            contact: appt.contact ? estimateFieldConfidence(appt.contact, rowLines) : undefined,
+            procedure: appt.procedure ? estimateFieldConfidence(appt.procedure, rowLines) : undefined,
+            // Section headers may be anywhere in the document
+            doctorName: appt.doctor ? estimateFieldConfidence(appt.doctor, ocr.lines) : undefined,
+            date: appt.date ? estimateFieldConfidence(appt.date, ocr.lines) : undefined
+        };
     }
+};
 
-    // Confirmation or Procedure Confirmation
-    return `Olá, ${data.patientName}, este contato refere-se à sua consulta no Centro de Diagnóstico Unimed (CDU), 9º andar ( Oftalmologia ).
+/**
+ * Optional knobs for the local pipeline.
+ */
+export interface LocalProcessingOptions {
+    layout?: AgendaLayoutProfile; // Column/keyword profile chosen for this upload
+    extractionMode?: 'text' | 'columns'; // 'columns' rebuilds table cells from x positions
+    enableOcr?: boolean; // OCR images and PDFs without a text layer (default: true)
+    templates?: MessageTemplate[]; // Patient message templates (default: built-in texts)
+    unit?: UnitTemplateValues; // Unit/floor contacts for the messages (default: CDU)
+    nameFormat?: PatientNameFormat | null; // User's patient name format (default: the template's)
+    onProgress?: ProgressHandler;
+}
 
-🩺 ${formattedDoctor}
-📅 Data: ${dateObj}
-⏰ Hora: ${data.time}
-${prepBlock}
-⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
+// --- DAILY SUMMARY BREAKDOWN ---
+
+export interface AgendaBreakdown {
+    firstVisits: number;
+    secondVisits: number;
+    returns: number;
+    exchange: number; // Intercâmbio, counted apart like in the AI summary
+    procedures: Record<string, number>; // Exams/procedures by event name
+    undetermined: number; // No event could be read for the row
+    insurers: Record<string, number>;
+    insurerUnknown: number;
+}
 
-Em caso de dúvidas ou necessidade de reagendar, entre em contato através da Central de Agendamento: (14) 3235-3350 ou WhatsApp (14) 99648-4958.
+const normalizeEvent = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toUpperCase();
 
-Podemos confirmar?
+// Title case for event/insurer names read in upper case ("ECOGRAFIA" -> "Ecografia")
+const displayLabel = (value: string) =>
+    value.toLowerCase().replace(/(^|\s)\p{L}/gu, c => c.toUpperCase());
 
-Atenciosamente,
-${signatureName}`;
-};
+/**
+ * Counts the appointments the same way the AI daily summary does:
+ * "Consulta" alone counts as Segunda Consulta, intercâmbio is reported apart.
+ */
+export const computeAgendaBreakdown = (appointments: ParsedAppointment[]): AgendaBreakdown => {
+    const breakdown: AgendaBreakdown = {
+        firstVisits: 0, secondVisits: 0, returns: 0, exchange: 0,
+        procedures: {}, undetermined: 0, insurers: {}, insurerUnknown: 0
+    };
 
-export const processDocumentLocally = async (
-    file: File,
-    type: 'reschedule' | 'confirmation' | 'daily_summary' | 'procedure_confirmation',
-    prepText: string = '',
-    userName: string = 'Atendimento Unimed'
-): Promise<DocumentAnalysisResult | DocumentAnalysisResult[]> => {
+    for (const appt of appointments) {
+        const event = normalizeEvent(appt.procedure || '');
+        if (appt.exchange) breakdown.exchange++;
+        else if (!event) breakdown.undetermined++;
+        else if (/PRIMEIRA|^1A? CONSULTA/.test(event)) breakdown.firstVisits++;
+        else if (/SEGUNDA|^2A? CONSULTA|^CONSULTA$/.test(event)) breakdown.secondVisits++;
+        else if (/RETORNO/.test(event)) breakdown.returns++;
+        else {
+            const label = displayLabel(appt.procedure!.trim());
+            breakdown.procedures[label] = (breakdown.procedures[label] || 0) + 1;
+        }
 
-    const text = await extractTextFromPDF(file);
-    console.log("Raw Extracted Text Sample:", text.substring(0, 500));
-    const allAppointments = parseAgendaText(text);
-    console.log("Parsed Appointments (Total):", allAppointments.length);
+        const insurer = (appt.insurance || '').trim();
+        if (insurer) {
+            const label = displayLabel(insurer);
+            breakdown.insurers[label] = (breakdown.insurers[label] || 0) + 1;
+        } else {
+            breakdown.insurerUnknown++;
+        }
+    }
+    return breakdown;
+};
 
-    // Filter Free Slots vs Valid Appointments
-    const freeSlots = allAppointments.filter(a => a.patientName.toUpperCase().includes('LIVRE'));
-    const validAppointments = allAppointments.filter(a => !a.patientName.toUpperCase().includes('LIVRE'));
+/**
+ * Builds the "Espelho Diário" message for one doctor/day section.
+ */
+const buildDailySummary = (
+    validAppointments: ParsedAppointment[],
+    freeSlots: ParsedAppointment[],
+    userName: string
+): DocumentAnalysisResult => {
+    const total = validAppointments.length;
+    const confirmed = validAppointments.filter(a => a.status.toLowerCase().includes('confirmado')).length;
+    // Count anything not confirmed as pending for now, or simplify
+    const pending = total - confirmed;
+
+    const firstTime = validAppointments[0]?.time || "00:00";
+    const lastTime = validAppointments[validAppointments.length - 1]?.time || "00:00";
+    const doctor = validAppointments[0]?.doctor || freeSlots[0]?.doctor || "[Médico]";
+    const date = validAppointments[0]?.date || freeSlots[0]?.date || "[Data]";
+
+    const fmt = (n: number) => n < 10 ? `0${n}` : `${n}`;
+    const byCount = (counts: Record<string, number>) => Object.entries(counts).sort((a, b) => b[1] - a[1]);
+
+    // Distribution (same lines as the AI summary model, plus procedure types)
+    const breakdown = computeAgendaBreakdown(validAppointments);
+    const distribution = [
+        `${fmt(breakdown.firstVisits)} - Primeira Consulta`,
+        ...(breakdown.secondVisits > 0 ? [`${fmt(breakdown.secondVisits)} - Segunda Consulta`] : []),
+        `${fmt(breakdown.returns)} - Retorno`,
+        ...(breakdown.exchange > 0 ? [`${fmt(breakdown.exchange)} - atendimentos por intercâmbio/outros`] : []),
+        ...byCount(breakdown.procedures).map(([label, count]) => `${fmt(count)} - ${label}`),
+        ...(breakdown.undetermined > 0 ? [`⚠️ ${fmt(breakdown.undetermined)} - atendimentos sem tipo identificado`] : [])
+    ];
+    const insurers = [
+        ...byCount(breakdown.insurers).map(([label, count]) => `${fmt(count)} - ${label}`),
+        ...(breakdown.insurerUnknown > 0 ? [`${fmt(breakdown.insurerUnknown)} - convênio não identificado`] : [])
+    ];
 
-    console.log(`Valid: ${validAppointments.length}, Free: ${freeSlots.length}`);
+    const warnings: string[] = [];
+    if (breakdown.undetermined > 0) {
+        warnings.push(`${fmt(breakdown.undetermined)} atendimento(s) sem tipo identificado: a distribuição pode estar incompleta.`);
+    }
+    if (total > 0 && breakdown.insurerUnknown === total) {
+        warnings.push('Nenhum convênio identificado na agenda: confira o layout selecionado.');
+    }
 
-    // DAILY SUMMARY LOGIC (Aggregated)
-    if (type === 'daily_summary') {
-        const total = validAppointments.length;
-        const confirmed = validAppointments.filter(a => a.status.toLowerCase().includes('confirmado')).length;
-        // Count anything not confirmed as pending for now, or simplify
-        const pending = total - confirmed;
-
-        const firstTime = validAppointments[0]?.time || "00:00";
-        const lastTime = validAppointments[validAppointments.length - 1]?.time || "00:00";
-        const doctor = validAppointments[0]?.doctor || "[Médico]";
-        const date = validAppointments[0]?.date || "[Data]";
-
-        const fmt = (n: number) => n < 10 ? `0${n}` : `${n}`;
-
-        // Free Slots Formatting
-        let freeSlotsText = 'Nenhum horário livre identificado.';
-        if (freeSlots.length > 0) {
-            freeSlotsText = freeSlots.map(s => s.time).join('\n');
-        }
+    // Free Slots Formatting
+    let freeSlotsText = 'Nenhum horário livre identificado.';
+    if (freeSlots.length > 0) {
+        freeSlotsText = freeSlots.map(s => s.time).join('\n');
+    }
 
-        const message = `Olá DR. "${doctor}" tudo bem!
+    const message = `Olá DR. "${doctor}" tudo bem!
 
 Segue o resumo da sua agenda do dia ${date} até o momento:
 
 📅 Período de atendimento: ${firstTime} às ${lastTime}
 👥 Total de pacientes agendados: ${fmt(total)}
 
+🧾 Distribuição dos atendimentos:
+
+${distribution.join('\n')}
+${insurers.length > 0 ? `
+🏥 Convênios:
+
+${insurers.join('\n')}
+` : ''}
 📌 Status dos agendamentos:
 
 ${fmt(confirmed)} - atendimentos confirmados
@@ -431,31 +912,153 @@ Qualquer dúvida, estamos à disposição.
 Obrigado,
 ${userName}`;
 
-        return {
-            extractedData: {
-                patientName: "Resumo Diário",
-                doctorName: doctor,
-                date: date,
-                time: `${firstTime} - ${lastTime}`,
-                contact: "",
-                procedure: ""
-            },
-            generatedMessage: message
-        };
+    return {
+        extractedData: {
+            patientName: "Resumo Diário",
+            doctorName: doctor,
+            date: date,
+            time: `${firstTime} - ${lastTime}`,
+            contact: "",
+            procedure: ""
+        },
+        generatedMessage: message,
+        warnings: warnings.length > 0 ? warnings : undefined
+    };
+};
+
+/**
+ * Plain text of a PDF or image agenda (text layer, OCR for images and scanned PDFs).
+ * Used by the privacy mode, which sends only this text (redacted) to the AI.
+ */
+export const extractDocumentText = async (file: File, onProgress?: ProgressHandler): Promise<string> => {
+    if (file.type.startsWith('image/')) {
+        onProgress?.(analysisProgress('extract'));
+        return (await recognizeImage(file)).text;
+    }
+    const text = await extractTextFromPDF(file, onProgress);
+    if (text.replace(/\s/g, '').length < MIN_TEXT_LAYER_LENGTH) {
+        return (await extractTextFromScannedPDF(file, onProgress)).text;
+    }
+    return text;
+};
+
+/**
+ * Reads the appointments of a PDF or image agenda (text layer, columns or OCR), without building messages.
+ */
+export const parseDocumentLocally = async (
+    file: File,
+    options: LocalProcessingOptions = {}
+): Promise<ParsedAppointment[]> => {
+    const enableOcr = options.enableOcr !== false;
+    const isImage = file.type.startsWith('image/');
+    if (isImage && !enableOcr) {
+        throw new Error("Imagens exigem o reconhecimento de texto (OCR) habilitado.");
+    }
+
+    const onProgress = options.onProgress;
+    let allAppointments: ParsedAppointment[] | null = null;
+    if (isImage) {
+        onProgress?.(analysisProgress('extract'));
+        const ocr = await recognizeImage(file);
+        onProgress?.(analysisProgress('parse'));
+        allAppointments = parseAgendaText(ocr.text, options.layout);
+        applyOcrConfidence(allAppointments, ocr);
+    } else if (options.extractionMode === 'columns') {
+        const table = await extractTableRowsFromPDF(file, options.layout, onProgress);
+        if (table.bandsFound) {
+            onProgress?.(analysisProgress('parse'));
+            allAppointments = parseAgendaRows(table.rows, options.layout);
+        } else {
+            console.warn("Table header not found, falling back to text extraction.");
+        }
+    }
+    if (!allAppointments) {
+        const text = await extractTextFromPDF(file, onProgress);
+        console.log("Raw Extracted Text Sample:", text.substring(0, 500));
+
+        if (text.replace(/\s/g, '').length < MIN_TEXT_LAYER_LENGTH && enableOcr) {
+            // Scanned agenda: no text layer, read the page images instead
+            const ocr = await extractTextFromScannedPDF(file, onProgress);
+            onProgress?.(analysisProgress('parse'));
+            allAppointments = parseAgendaText(ocr.text, options.layout);
+            applyOcrConfidence(allAppointments, ocr);
+        } else {
+            onProgress?.(analysisProgress('parse'));
+            allAppointments = parseAgendaText(text, options.layout);
+        }
+    }
+    console.log("Parsed Appointments (Total):", allAppointments.length);
+    return allAppointments;
+};
+
+export const processDocumentLocally = async (
+    file: File,
+    type: 'reschedule' | 'confirmation' | 'daily_summary' | 'procedure_confirmation',
+    prepText: string = '',
+    userName: string = 'Atendimento Unimed',
+    options: LocalProcessingOptions = {}
+): Promise<DocumentAnalysisResult | DocumentAnalysisResult[]> => {
+    const allAppointments = await parseDocumentLocally(file, options);
+    options.onProgress?.(analysisProgress('generate'));
+    return buildLocalResults(allAppointments, type, prepText, userName, options.templates, options.unit, options.nameFormat);
+};
+
+/**
+ * Turns parsed appointments (from any source: PDF, OCR or spreadsheet) into the
+ * results shown in AgendaAI. LIVRE rows only count as free slots in the daily summary.
+ */
+export const buildLocalResults = (
+    allAppointments: ParsedAppointment[],
+    type: 'reschedule' | 'confirmation' | 'daily_summary' | 'procedure_confirmation',
+    prepText: string = '',
+    userName: string = 'Atendimento Unimed',
+    templates: MessageTemplate[] = DEFAULT_MESSAGE_TEMPLATES,
+    unit: UnitTemplateValues = DEFAULT_UNIT_VALUES,
+    nameFormat?: PatientNameFormat | null
+): DocumentAnalysisResult | DocumentAnalysisResult[] => {
+    // Filter Free Slots vs Valid Appointments
+    const freeSlots = allAppointments.filter(a => a.patientName.toUpperCase().includes('LIVRE'));
+    const validAppointments = allAppointments.filter(a => !a.patientName.toUpperCase().includes('LIVRE'));
+
+    console.log(`Valid: ${validAppointments.length}, Free: ${freeSlots.length}`);
+
+    // DAILY SUMMARY LOGIC (Aggregated per doctor/day section)
+    if (type === 'daily_summary') {
+        const sectionKey = (a: ParsedAppointment) => `${a.doctor || ''}|${a.date || ''}`;
+        const keys = Array.from(new Set(allAppointments.map(sectionKey)));
+        if (keys.length === 0) keys.push('|');
+
+        const summaries = keys.map(key => buildDailySummary(
+            validAppointments.filter(a => sectionKey(a) === key),
+            freeSlots.filter(a => sectionKey(a) === key),
+            userName
+        ));
+        // Single provider/day keeps the original single-result contract
+        return summaries.length === 1 ? summaries[0] : summaries;
     }
 
     // NORMAL LIST LOGIC - Only return VALID appointments (exclude 'Livre')
-    const results: DocumentAnalysisResult[] = validAppointments.map(appt => ({
-        extractedData: {
-            patientName: appt.patientName,
-            doctorName: appt.doctor || "",
-            date: appt.date || "",
-            time: appt.time,
-            contact: appt.contact,
-            procedure: appt.procedure || ""
-        },
-        generatedMessage: generateLocalMessage(appt, type as any, prepText, userName)
-    }));
+    const messageType: MessageTemplateType = type; // daily_summary returned above
+    const format = resolvePatientNameFormat(getMessageTemplate(templates, messageType), nameFormat);
+    const results: DocumentAnalysisResult[] = validAppointments
+        .map(appt => messageType === 'procedure_confirmation'
+            ? { ...appt, procedureDetails: appt.procedureDetails || detectProcedureDetails(appt.procedure || '', `${appt.status} ${appt.insurance || ''}`) }
+            : appt)
+        .map(appt => ({
+            extractedData: {
+                patientName: formatPatientName(appt.patientName, format),
+                rawPatientName: appt.rawPatientName || appt.patientName,
+                doctorName: appt.doctor || "",
+                date: appt.date || "",
+                time: appt.time,
+                contact: appt.contact,
+                procedure: appt.procedure || "",
+                status: appt.status,
+                confidence: appt.confidence,
+                procedureDetails: appt.procedureDetails
+            },
+            generatedMessage: generateLocalMessage(appt, messageType, prepText, userName, templates, unit, nameFormat)
+        }));
 
     return results;
 };
@@ -0,0 +1,35 @@
+import { AnalysisOutput, AnalysisProgress, AnalysisRequest, analysisProgress } from "./analysisProvider";
+import { buildLocalResults, parseDocumentLocally } from "./localDocumentService";
+
+// The part of the request sent to the worker (no callbacks, only structured-cloneable data)
+export type LocalPipelineRequest = Pick<AnalysisRequest,
+    'file' | 'type' | 'prepText' | 'userName' | 'templates' | 'unit' | 'nameFormat' | 'layout' | 'extractionMode'>;
+
+// Worker -> page messages, tagged with the id of the request they answer
+export type LocalPipelineMessage = { id: number } & (
+    | { kind: 'progress', progress: AnalysisProgress }
+    | { kind: 'done', output: AnalysisOutput }
+    | { kind: 'error', name: string, message: string }
+);
+
+/**
+ * The whole local reading: extraction (text layer, columns or OCR), parsing and messages.
+ * Runs inside localPipeline.worker.ts, or on the page when workers are not available.
+ */
+export const runLocalPipeline = async (
+    request: LocalPipelineRequest,
+    onProgress?: (progress: AnalysisProgress) => void
+): Promise<AnalysisOutput> => {
+    const appointments = await parseDocumentLocally(request.file, {
+        layout: request.layout,
+        extractionMode: request.extractionMode,
+        onProgress
+    });
+
+    onProgress?.(analysisProgress('generate'));
+    const result = buildLocalResults(
+        appointments, request.type, request.prepText, request.userName,
+        request.templates, request.unit, request.nameFormat
+    );
+    return { results: Array.isArray(result) ? result : [result], appointments };
+};
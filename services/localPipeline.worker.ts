@@ -0,0 +1,22 @@
+import { LocalPipelineMessage, LocalPipelineRequest, runLocalPipeline } from "./localPipeline";
+
+/**
+ * Reads agendas off the main thread, so long PDFs and OCR do not freeze the page.
+ * Progress is posted per stage and page; the page cancels by terminating the worker.
+ */
+const post = (message: LocalPipelineMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<{ id: number, request: LocalPipelineRequest }>) => {
+    const { id, request } = event.data;
+    try {
+        const output = await runLocalPipeline(request, progress => post({ id, kind: 'progress', progress }));
+        post({ id, kind: 'done', output });
+    } catch (e) {
+        post({
+            id,
+            kind: 'error',
+            name: e instanceof Error ? e.name : 'Error',
+            message: e instanceof Error ? e.message : String(e)
+        });
+    }
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, validateTemplate } from './messageTemplateService';
+
+describe('renderTemplate', () => {
+    it('fills the placeholders and keeps unknown ones as written', () => {
+        expect(renderTemplate('Olá, {paciente}, às {hora}. {outro}', { paciente: 'Maria', hora: '08:00' }))
+            .toBe('Olá, Maria, às 08:00. {outro}');
+    });
+
+    it('shows {#key} blocks only with a value and {^key} blocks only without one', () => {
+        const body = '{#preparo}Preparo: {preparo}{/preparo}{^preparo}Sem preparo{/preparo}';
+
+        expect(renderTemplate(body, { preparo: 'Jejum 8h' })).toBe('Preparo: Jejum 8h');
+        expect(renderTemplate(body, { preparo: '  ' })).toBe('Sem preparo');
+    });
+
+    it('resolves nested blocks', () => {
+        const body = '{#unidade}{unidade}{#andar}, {andar}{/andar}{/unidade}';
+
+        expect(renderTemplate(body, { unidade: 'CDU', andar: '2º andar' })).toBe('CDU, 2º andar');
+        expect(renderTemplate(body, { unidade: 'CDU' })).toBe('CDU');
+    });
+});
+
+describe('validateTemplate', () => {
+    it('rejects an empty body', () => {
+        expect(validateTemplate('   ')).not.toEqual([]);
+        expect(validateTemplate('Olá, {paciente}')).toEqual([]);
+    });
+});
@@ -0,0 +1,274 @@
+import { MessageTemplate, MessageTemplateType } from "../types";
+import { supabase } from "./supabase";
+import { UnitTemplateValues } from "./unitService";
+
+// Local copy of the shared templates, used while offline or before the first fetch
+const CACHE_KEY = 'mediportal_message_templates_cache';
+// Templates an admin edited in this browser before they were shared, offered once for import
+const LEGACY_KEY = 'mediportal_message_templates';
+const LEGACY_IMPORTED_KEY = 'mediportal_message_templates_imported';
+
+// Values available to every patient message template (unit values come from the unit boards)
+export interface TemplateValues extends UnitTemplateValues {
+    paciente: string;
+    medico: string;
+    data: string;
+    hora: string;
+    procedimento?: string;
+    preparo?: string;
+    chegada?: string; // Procedures: check-in time (before the procedure time)
+    acompanhante?: string; // Procedures: companion notice, empty when not required
+    autorizacao?: string; // Procedures: guia status
+    assinatura: string;
+}
+
+export const TEMPLATE_PLACEHOLDERS: { key: keyof TemplateValues, label: string }[] = [
+    { key: 'paciente', label: 'Nome do paciente' },
+    { key: 'medico', label: 'Médico (com Dr./Dra.)' },
+    { key: 'data', label: 'Data do agendamento' },
+    { key: 'hora', label: 'Horário' },
+    { key: 'procedimento', label: 'Procedimento / Exame' },
+    { key: 'preparo', label: 'Texto do preparo selecionado' },
+    { key: 'chegada', label: 'Horário de chegada (procedimentos)' },
+    { key: 'acompanhante', label: 'Aviso de acompanhante (procedimentos)' },
+    { key: 'autorizacao', label: 'Situação da guia (procedimentos)' },
+    { key: 'assinatura', label: 'Nome de quem envia' },
+    { key: 'unidade', label: 'Nome da unidade' },
+    { key: 'andar', label: 'Andar / setor da unidade' },
+    { key: 'endereco', label: 'Endereço da unidade' },
+    { key: 'telefone', label: 'Telefone da unidade' },
+    { key: 'whatsapp', label: 'WhatsApp da unidade' }
+];
+
+const UNIT_PLACE = '{unidade}{#andar}, {andar}{/andar}';
+const ADDRESS_LINE = '{#endereco}\n📍 Endereço: {endereco}{/endereco}';
+
+const PREP_BLOCK = `{#preparo}
+📝 *Preparo Necessário:*
+{preparo}
+{/preparo}`;
+
+export const DEFAULT_MESSAGE_TEMPLATES: MessageTemplate[] = [
+    {
+        id: 'reschedule',
+        name: 'Reagendamento',
+        body: `Olá, {paciente}, este contato refere-se à sua consulta no(a) ${UNIT_PLACE}. Tentamos o contato telefônico, mas não conseguimos falar com você.
+
+Devido a um imprevisto na agenda do médico, sua consulta com o(a) {medico} precisou ser remarcada.
+
+✅ Novo Agendamento:
+📅 Data: {data}
+⏰ Hora: {hora}${ADDRESS_LINE}${PREP_BLOCK}
+⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
+
+❌ Caso não seja possível a nova data agendada, por favor, entre em contato através da Central de Agendamento:
+
+{#telefone}📞 Telefone: {telefone}{/telefone}{#whatsapp}
+📱 WhatsApp: {whatsapp}{/whatsapp}
+
+Pedimos desculpas pelo transtorno e agradecemos a compreensão.
+
+Atenciosamente,
+{assinatura}`
+    },
+    {
+        id: 'confirmation',
+        name: 'Confirmação de Consulta',
+        body: `Olá, {paciente}, este contato refere-se à sua consulta no(a) ${UNIT_PLACE}.
+
+🩺 {medico}
+📅 Data: {data}
+⏰ Hora: {hora}${ADDRESS_LINE}${PREP_BLOCK}
+⚠️ Importante: Apresentar Documento com foto e Carteirinha da Unimed.
+
+Em caso de dúvidas ou necessidade de reagendar, entre em contato através da Central de Agendamento: {telefone}{#whatsapp} ou WhatsApp {whatsapp}{/whatsapp}.
+
+Podemos confirmar?
+
+Atenciosamente,
+{assinatura}`
+    },
+    {
+        id: 'procedure_confirmation',
+        name: 'Confirmação de Procedimento',
+        body: `Olá, {paciente}, este contato é para confirmar seu procedimento/exame de *{procedimento}* no(a) ${UNIT_PLACE}.
+
+🩺 {medico}
+📅 Data: {data}
+⏰ Horário do procedimento: {hora}{#chegada}
+🕒 Chegada: *{chegada}* (antecedência para o cadastro e a guia){/chegada}${ADDRESS_LINE}{#acompanhante}
+👥 {acompanhante}{/acompanhante}{#autorizacao}
+📄 {autorizacao}{/autorizacao}${PREP_BLOCK}
+⚠️ Importante: Apresentar Documento com foto, Carteirinha da Unimed e o pedido médico.
+
+Em caso de dúvidas ou necessidade de reagendar, entre em contato através da Central de Agendamento: {telefone}{#whatsapp} ou WhatsApp {whatsapp}{/whatsapp}.
+
+Podemos confirmar?
+
+Atenciosamente,
+{assinatura}`
+    }
+];
+
+const BLOCK_PATTERN = /\{([#^])(\w+)\}([\s\S]*?)\{\/\2\}/g;
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Renders a template body.
+ * - {campo} is replaced by the value (unknown placeholders are kept as typed)
+ * - {#campo}...{/campo} is only kept when the value is filled
+ * - {^campo}...{/campo} is only kept when the value is empty
+ */
+export const renderTemplate = (body: string, values: Partial<TemplateValues>): string => {
+    const lookup = values as Record<string, string | undefined>;
+    const hasValue = (key: string) => !!lookup[key]?.trim();
+
+    // Nested blocks are resolved from the inside out
+    let result = body;
+    let previous: string;
+    do {
+        previous = result;
+        result = result.replace(BLOCK_PATTERN, (_, kind: string, key: string, content: string) =>
+            (kind === '#' ? hasValue(key) : !hasValue(key)) ? content : ''
+        );
+    } while (result !== previous);
+
+    return result.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+        key in lookup && lookup[key] !== undefined ? lookup[key]! : match
+    );
+};
+
+/**
+ * Returns a list of problems with the template body, empty when it can be saved.
+ */
+export const validateTemplate = (body: string): string[] => {
+    const errors: string[] = [];
+    if (!body.trim()) errors.push('O modelo não pode ficar vazio.');
+
+    const known = new Set<string>(TEMPLATE_PLACEHOLDERS.map(p => p.key));
+    const unknown = new Set<string>();
+    for (const match of body.matchAll(/\{[#^/]?(\w+)\}/g)) {
+        if (!known.has(match[1])) unknown.add(match[1]);
+    }
+    if (unknown.size > 0) {
+        errors.push(`Campos desconhecidos: ${Array.from(unknown).map(k => `{${k}}`).join(', ')}.`);
+    }
+
+    const opened = (body.match(/\{[#^]\w+\}/g) || []).length;
+    const closed = (body.match(/\{\/\w+\}/g) || []).length;
+    if (opened !== closed) errors.push('Bloco condicional sem fechamento ({#campo}...{/campo}).');
+    return errors;
+};
+
+// Built-in text for the templates nobody edited
+const withDefaults = (custom: MessageTemplate[]): MessageTemplate[] =>
+    DEFAULT_MESSAGE_TEMPLATES.map(def => custom.find(t => t.id === def.id) || def);
+
+/**
+ * Last copy of the shared templates saved in this browser. Missing ones fall back to the built-in text.
+ */
+export const loadMessageTemplates = (): MessageTemplate[] => {
+    try {
+        const saved = localStorage.getItem(CACHE_KEY);
+        return withDefaults(saved ? JSON.parse(saved) : []);
+    } catch (e) {
+        console.error('Error loading message templates:', e);
+        return DEFAULT_MESSAGE_TEMPLATES;
+    }
+};
+
+// --- SHARED TEMPLATES (Supabase "message_templates") ---
+// Author and timestamp are set by a database trigger; writes are allowed to admins only (RLS).
+
+const toMessageTemplate = (row: any): MessageTemplate => ({
+    ...getDefaultTemplate(row.id),
+    body: row.body,
+    nameFormat: row.name_format || undefined,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by_name || undefined
+});
+
+export const fetchMessageTemplates = async (): Promise<MessageTemplate[]> => {
+    const { data, error } = await supabase
+        .from('message_templates')
+        .select('*');
+
+    if (error) throw error;
+    const custom = (data || [])
+        .filter((row: any) => DEFAULT_MESSAGE_TEMPLATES.some(def => def.id === row.id))
+        .map(toMessageTemplate);
+    localStorage.setItem(CACHE_KEY, JSON.stringify(custom));
+    return withDefaults(custom);
+};
+
+export const saveMessageTemplate = async (template: MessageTemplate): Promise<MessageTemplate> => {
+    const { data, error } = await supabase
+        .from('message_templates')
+        .upsert({ id: template.id, body: template.body, name_format: template.nameFormat || null })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return toMessageTemplate(data);
+};
+
+export const subscribeToMessageTemplates = (onChange: () => void): (() => void) => {
+    const channel = supabase
+        .channel('public:message_templates')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'message_templates' }, () => {
+            onChange();
+        })
+        .subscribe();
+
+    return () => {
+        supabase.removeChannel(channel);
+    };
+};
+
+// --- LEGACY LOCAL TEMPLATES ---
+
+/**
+ * Templates edited in this browser before they were shared whose text differs from the
+ * shared one. Empty after they were imported or dismissed.
+ */
+export const findLegacyMessageTemplates = (shared: MessageTemplate[]): MessageTemplate[] => {
+    if (localStorage.getItem(LEGACY_IMPORTED_KEY)) return [];
+    try {
+        const saved = localStorage.getItem(LEGACY_KEY);
+        const legacy: MessageTemplate[] = saved ? JSON.parse(saved) : [];
+        // Only edited templates got a date; the others are copies of the built-in text
+        return legacy.filter(t => {
+            if (!t.updatedAt || !t.body || !DEFAULT_MESSAGE_TEMPLATES.some(def => def.id === t.id)) return false;
+            const current = getMessageTemplate(shared, t.id);
+            return t.body !== current.body || t.nameFormat !== current.nameFormat;
+        });
+    } catch (e) {
+        console.error('Error loading local message templates:', e);
+        return [];
+    }
+};
+
+// The old entries stay in localStorage (and in the Settings backup), only the offer goes away
+export const dismissLegacyMessageTemplates = () => {
+    localStorage.setItem(LEGACY_IMPORTED_KEY, new Date().toISOString());
+};
+
+/**
+ * Publishes the templates edited in this browser as the shared ones. Admins only (RLS).
+ */
+export const importLegacyMessageTemplates = async (legacy: MessageTemplate[]): Promise<MessageTemplate[]> => {
+    const imported: MessageTemplate[] = [];
+    for (const template of legacy) {
+        imported.push(await saveMessageTemplate(template));
+    }
+    dismissLegacyMessageTemplates();
+    return imported;
+};
+
+export const getMessageTemplate = (templates: MessageTemplate[], id: MessageTemplateType): MessageTemplate => {
+    return templates.find(t => t.id === id) || DEFAULT_MESSAGE_TEMPLATES.find(t => t.id === id)!;
+};
+
+export const getDefaultTemplate = (id: MessageTemplateType): MessageTemplate => {
+    return DEFAULT_MESSAGE_TEMPLATES.find(t => t.id === id)!;
+};
@@ -0,0 +1,62 @@
+import { AnalysisError, AnalysisProvider, analysisProgress } from "./analysisProvider";
+import { parseAnalysisResponse } from "./analysisValidation";
+import { buildLocalResults, ParsedAppointment } from "./localDocumentService";
+
+// Fixed agenda replayed for any file, so the AgendaAI flow can be exercised offline and always gives the same output
+export const MOCK_AGENDA: ParsedAppointment[] = [
+    { patientName: 'ISABELA ROMEIRO CINTRA', time: '08:00', contact: '(14) 99796-2690', status: 'Confirmado', doctor: 'MARCOS TESTE', date: '25/11/2025', procedure: 'Primeira Consulta', insurance: 'Unimed' },
+    { patientName: 'JOAO DA SILVA SANTOS', time: '08:20', contact: '(14) 3235-3350', status: 'Agendado', doctor: 'MARCOS TESTE', date: '25/11/2025', procedure: 'Retorno', insurance: 'Unimed' },
+    { patientName: 'LIVRE', time: '08:40', contact: '', status: 'Agendado', doctor: 'MARCOS TESTE', date: '25/11/2025' },
+    { patientName: 'MARIA APARECIDA DE SOUZA', time: '09:00', contact: '(14) 98123-4567 / (14) 3222-1111', status: 'Agendado', doctor: 'MARCOS TESTE', date: '25/11/2025', procedure: 'Consulta', insurance: 'Cassi' },
+    { patientName: 'PEDRO HENRIQUE LIMA', time: '09:20', contact: '(14) 99648-4958', status: 'Agendado', doctor: 'MARCOS TESTE', date: '25/11/2025', procedure: 'Ecografia', insurance: 'Unimed', exchange: true },
+    { patientName: 'ANA BEATRIZ COSTA', time: '09:40', contact: '', status: 'Agendado', doctor: 'MARCOS TESTE', date: '25/11/2025', procedure: 'Retorno', insurance: 'Unimed' }
+];
+
+// Simulated processing time, so loading states can be seen
+const MOCK_LATENCY_MS = 400;
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new AnalysisError('cancelled', 'Processamento cancelado.'));
+    }, { once: true });
+});
+
+/**
+ * Replays MOCK_AGENDA. The file name picks other fixtures:
+ * "vazia" -> agenda without patients, "erro-rede" -> network error (retried), "erro-timeout" -> never answers,
+ * "resposta-invalida" -> answer that fails validation (falls back to the local parser).
+ */
+export const mockProvider: AnalysisProvider = {
+    id: 'mock',
+    label: 'Simulação (testes)',
+    description: 'Devolve sempre a mesma agenda de exemplo. Para treinamento e testes, sem internet.',
+    requiresNetwork: false,
+    timeoutMs: 5_000,
+    maxRetries: 1,
+    unavailableReason: () => null,
+    analyze: async (request, signal, onProgress) => {
+        onProgress(analysisProgress('load'));
+        const name = request.file.name.toLowerCase();
+        if (name.includes('erro-timeout')) {
+            // Only the provider timeout (or a cancel) ends it
+            await new Promise<never>((_, reject) => signal.addEventListener('abort', () =>
+                reject(new AnalysisError('cancelled', 'Processamento cancelado.')), { once: true }));
+        }
+        await delay(MOCK_LATENCY_MS, signal);
+        if (name.includes('erro-rede')) throw new AnalysisError('network', 'Falha de comunicação simulada.');
+        if (name.includes('resposta-invalida')) parseAnalysisResponse('{"extractedData": {"patientName": "X"}}', 'array');
+
+        const appointments = name.includes('vazia') ? [] : MOCK_AGENDA.map(a => ({ ...a }));
+        onProgress(analysisProgress('generate'));
+        const result = buildLocalResults(
+            appointments, request.type, request.prepText, request.userName,
+            request.templates, request.unit, request.nameFormat
+        );
+        return { results: Array.isArray(result) ? result : [result], appointments };
+    },
+    classifyError: (error) => error instanceof AnalysisError
+        ? error
+        : new AnalysisError('unknown', error instanceof Error ? error.message : String(error), error)
+};
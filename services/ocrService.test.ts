@@ -0,0 +1,57 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import path from 'path';
+import { Worker as TesseractWorker } from 'tesseract.js';
+import { createOcrWorker } from './ocrService';
+
+// 5x7 bitmap glyphs, enough to print a line of an agenda without a canvas
+const GLYPHS: Record<string, string[]> = {
+    A: ['01110', '10001', '10001', '11111', '10001', '10001', '10001'],
+    C: ['01110', '10001', '10000', '10000', '10000', '10001', '01110'],
+    L: ['10000', '10000', '10000', '10000', '10000', '10000', '11111'],
+    N: ['10001', '11001', '10101', '10011', '10001', '10001', '10001'],
+    O: ['01110', '10001', '10001', '10001', '10001', '10001', '01110'],
+    S: ['01111', '10000', '10000', '01110', '00001', '00001', '11110'],
+    T: ['11111', '00100', '00100', '00100', '00100', '00100', '00100'],
+    U: ['10001', '10001', '10001', '10001', '10001', '10001', '01110'],
+    ' ': ['00000', '00000', '00000', '00000', '00000', '00000', '00000']
+};
+
+/**
+ * Black text on white as a binary PGM, a format tesseract reads directly.
+ */
+const renderText = (text: string, scale = 6, margin = 24): Buffer => {
+    const glyphWidth = 6; // 5 columns + spacing
+    const width = text.length * glyphWidth * scale + margin * 2;
+    const height = 7 * scale + margin * 2;
+    const pixels = Buffer.alloc(width * height, 255);
+    [...text].forEach((char, index) => {
+        GLYPHS[char].forEach((row, y) => [...row].forEach((bit, x) => {
+            if (bit !== '1') return;
+            for (let dy = 0; dy < scale; dy++) {
+                for (let dx = 0; dx < scale; dx++) {
+                    const px = margin + (index * glyphWidth + x) * scale + dx;
+                    const py = margin + y * scale + dy;
+                    pixels[py * width + px] = 0;
+                }
+            }
+        }));
+    });
+    return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), pixels]);
+};
+
+describe('createOcrWorker', () => {
+    let worker: TesseractWorker | null = null;
+
+    afterAll(async () => {
+        await worker?.terminate();
+    });
+
+    it('loads the bundled Portuguese model and recognizes text', async () => {
+        worker = await createOcrWorker({
+            langPath: path.resolve(__dirname, '../node_modules/@tesseract.js-data/por/4.0.0_best_int')
+        });
+        const { data } = await worker.recognize(renderText('CONSULTA'));
+
+        expect(data.text).toContain('CONSULTA');
+    }, 120_000);
+});
@@ -0,0 +1,140 @@
+import { createWorker, Worker as TesseractWorker, Block } from 'tesseract.js';
+
+// Bundle the OCR engine and the Portuguese model with the app (no CDN at runtime)
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import porTrainedDataUrl from '@tesseract.js-data/por/4.0.0_best_int/por.traineddata.gz?url';
+
+export interface OcrWord {
+    text: string;
+    confidence: number; // 0-100
+}
+
+export interface OcrLine {
+    text: string;
+    confidence: number; // 0-100
+    words: OcrWord[];
+}
+
+export interface OcrResult {
+    text: string;
+    lines: OcrLine[];
+    confidence: number; // Mean confidence of the whole document
+}
+
+// Below this value a field is shown with a warning in AgendaAI
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+// Tesseract runs inside its own worker, so asset URLs must be absolute
+const absoluteUrl = (url: string) => new URL(url, globalThis.location.href).href;
+
+const OCR_LANGUAGE = 'por';
+
+export interface OcrWorkerAssets {
+    workerPath?: string;
+    corePath?: string;
+    langPath: string; // Folder (URL, or path in node) holding por.traineddata.gz
+}
+
+/**
+ * Starts a tesseract worker with the Portuguese model. Tesseract looks for
+ * `${langPath}/por.traineddata.gz`, so the build keeps that file name (see vite.config.ts).
+ */
+export const createOcrWorker = (assets: OcrWorkerAssets): Promise<TesseractWorker> =>
+    createWorker(OCR_LANGUAGE, 1, {
+        ...assets,
+        gzip: true,
+        workerBlobURL: false,
+        cacheMethod: 'none'
+    });
+
+let workerPromise: Promise<TesseractWorker> | null = null;
+
+/**
+ * Creates the OCR worker once and reuses it, since loading the model is the slow part.
+ */
+const getOcrWorker = (): Promise<TesseractWorker> => {
+    if (!workerPromise) {
+        const modelUrl = absoluteUrl(porTrainedDataUrl);
+        workerPromise = createOcrWorker({
+            workerPath: absoluteUrl(tesseractWorkerUrl),
+            corePath: absoluteUrl(tesseractCoreUrl),
+            langPath: modelUrl.slice(0, modelUrl.lastIndexOf('/'))
+        });
+        // Allow a retry after a failed load
+        workerPromise.catch(() => { workerPromise = null; });
+    }
+    return workerPromise;
+};
+
+const collectLines = (blocks: Block[] | null): OcrLine[] => {
+    const lines: OcrLine[] = [];
+    for (const block of blocks || []) {
+        for (const paragraph of block.paragraphs) {
+            for (const line of paragraph.lines) {
+                const text = line.text.replace(/\s+/g, ' ').trim();
+                if (!text) continue;
+                lines.push({
+                    text,
+                    confidence: line.confidence,
+                    words: line.words.map(w => ({ text: w.text, confidence: w.confidence }))
+                });
+            }
+        }
+    }
+    return lines;
+};
+
+/**
+ * Runs OCR over one image (uploaded photo/scan or a rendered PDF page).
+ */
+export const recognizeImage = async (image: Blob | HTMLCanvasElement | OffscreenCanvas): Promise<OcrResult> => {
+    try {
+        const worker = await getOcrWorker();
+        const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+        const lines = collectLines(data.blocks);
+        return {
+            text: lines.map(l => l.text).join('\n'),
+            lines,
+            confidence: data.confidence
+        };
+    } catch (e: any) {
+        console.error("OCR Failed:", e);
+        throw new Error(`Falha no reconhecimento de texto (OCR): ${e.message || e}`);
+    }
+};
+
+/**
+ * Merges the OCR results of several pages into a single document.
+ */
+export const mergeOcrResults = (results: OcrResult[]): OcrResult => {
+    const lines = results.flatMap(r => r.lines);
+    const confidence = results.length > 0
+        ? results.reduce((sum, r) => sum + r.confidence, 0) / results.length
+        : 0;
+    return { text: lines.map(l => l.text).join('\n'), lines, confidence };
+};
+
+const normalizeToken = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w]/g, '').toUpperCase();
+
+/**
+ * Estimates how reliable an extracted value is: the mean confidence of the OCR words
+ * (from the given lines) that make up the value. Returns undefined when it cannot be located.
+ */
+export const estimateFieldConfidence = (value: string, lines: OcrLine[]): number | undefined => {
+    const tokens = value.split(/\s+/).map(normalizeToken).filter(Boolean);
+    if (tokens.length === 0) return undefined;
+
+    const words = lines.flatMap(l => l.words);
+    const scores: number[] = [];
+    for (const token of tokens) {
+        const word = words.find(w => {
+            const normalized = normalizeToken(w.text);
+            return normalized.length > 0 && (normalized.includes(token) || (normalized.length > 1 && token.includes(normalized)));
+        });
+        if (word) scores.push(word.confidence);
+    }
+    if (scores.length === 0) return undefined;
+    return Math.round(scores.reduce((sum, c) => sum + c, 0) / scores.length);
+};
@@ -0,0 +1,145 @@
+import { DocumentAnalysisResult, ExtractedData, OutreachCampaign, OutreachEntry, OutreachStatus } from "../types";
+
+const STORAGE_KEY = 'mediportal_outreach_campaigns';
+
+// Older campaigns are dropped so localStorage does not grow forever
+const MAX_CAMPAIGNS = 60;
+
+export const OUTREACH_STATUS_LABELS: Record<OutreachStatus, string> = {
+    not_sent: 'Não enviado',
+    sent: 'Enviado (WhatsApp)',
+    confirmed: 'Confirmado',
+    reschedule: 'Quer reagendar',
+    cancelled: 'Cancelou',
+    no_answer: 'Sem resposta',
+    wrong_number: 'Número errado'
+};
+
+// Statuses that need no further contact
+export const FINAL_OUTREACH_STATUSES: OutreachStatus[] = ['confirmed', 'reschedule', 'cancelled', 'wrong_number'];
+
+const normalizeKeyPart = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toUpperCase();
+
+/**
+ * Stable key of an appointment, so the same patient/slot is recognized across re-imports.
+ */
+export const appointmentKey = (data: ExtractedData): string =>
+    [data.date, data.time, data.doctorName, data.rawPatientName || data.patientName].map(normalizeKeyPart).join('|');
+
+export const loadCampaigns = (): OutreachCampaign[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error('Error loading outreach campaigns:', e);
+        return [];
+    }
+};
+
+export const saveCampaigns = (campaigns: OutreachCampaign[]) => {
+    const recent = [...campaigns]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, MAX_CAMPAIGNS);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+};
+
+/**
+ * Starts a campaign from a batch. Appointments already contacted in an open campaign
+ * of the same type keep their status and history.
+ */
+export const createCampaign = (
+    campaigns: OutreachCampaign[],
+    results: DocumentAnalysisResult[],
+    info: { name: string, type: OutreachCampaign['type'], createdBy: string, sourceFile?: string }
+): OutreachCampaign => {
+    const previous = new Map<string, OutreachEntry>();
+    for (const campaign of campaigns.filter(c => c.type === info.type && !c.closedAt)) {
+        for (const entry of campaign.entries) previous.set(entry.id, entry);
+    }
+
+    const seen = new Set<string>();
+    const entries: OutreachEntry[] = [];
+    for (const result of results) {
+        const id = appointmentKey(result.extractedData);
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const known = previous.get(id);
+        entries.push(known
+            ? { ...known, result }
+            : { id, result, status: 'not_sent', history: [] }
+        );
+    }
+
+    return {
+        id: Date.now().toString(),
+        name: info.name,
+        type: info.type,
+        createdAt: new Date().toISOString(),
+        createdBy: info.createdBy,
+        sourceFile: info.sourceFile,
+        entries
+    };
+};
+
+export const updateEntryStatus = (
+    campaign: OutreachCampaign,
+    entryId: string,
+    status: OutreachStatus,
+    by: string,
+    note?: string
+): OutreachCampaign => ({
+    ...campaign,
+    entries: campaign.entries.map(entry => entry.id !== entryId ? entry : {
+        ...entry,
+        status,
+        history: [...entry.history, { status, at: new Date().toISOString(), by, note }]
+    })
+});
+
+/**
+ * Keeps the stored message in sync when the receptionist edits it before sending.
+ */
+export const updateEntryMessage = (campaign: OutreachCampaign, entryId: string, message: string): OutreachCampaign => ({
+    ...campaign,
+    entries: campaign.entries.map(entry => entry.id !== entryId ? entry : {
+        ...entry,
+        result: { ...entry.result, generatedMessage: message }
+    })
+});
+
+export const setCampaignClosed = (campaign: OutreachCampaign, closed: boolean): OutreachCampaign => ({
+    ...campaign,
+    closedAt: closed ? new Date().toISOString() : undefined
+});
+
+export interface OutreachProgress {
+    doctor: string;
+    total: number;
+    done: number; // Entries in a final status
+    counts: Record<OutreachStatus, number>;
+}
+
+const emptyCounts = (): Record<OutreachStatus, number> => ({
+    not_sent: 0, sent: 0, confirmed: 0, reschedule: 0, cancelled: 0, no_answer: 0, wrong_number: 0
+});
+
+/**
+ * Progress per doctor, plus the campaign total as the first row (doctor = '').
+ */
+export const campaignProgress = (campaign: OutreachCampaign): OutreachProgress[] => {
+    const rows = new Map<string, OutreachProgress>();
+    const total: OutreachProgress = { doctor: '', total: 0, done: 0, counts: emptyCounts() };
+
+    for (const entry of campaign.entries) {
+        const doctor = entry.result.extractedData.doctorName || 'Não identificado';
+        if (!rows.has(doctor)) rows.set(doctor, { doctor, total: 0, done: 0, counts: emptyCounts() });
+        for (const row of [rows.get(doctor)!, total]) {
+            row.total++;
+            row.counts[entry.status]++;
+            if (FINAL_OUTREACH_STATUSES.includes(entry.status)) row.done++;
+        }
+    }
+
+    return [total, ...Array.from(rows.values()).sort((a, b) => a.doctor.localeCompare(b.doctor))];
+};
@@ -0,0 +1,81 @@
+import { MessageTemplate, PatientNameFormat } from "../types";
+
+const STORAGE_KEY = 'mediportal_patient_name_format';
+
+export const PATIENT_NAME_FORMAT_LABELS: Record<PatientNameFormat, string> = {
+    full: 'Nome completo',
+    first: 'Primeiro nome',
+    first_last: 'Primeiro e último nome'
+};
+
+// Used when neither the template nor the user chose a format
+export const DEFAULT_PATIENT_NAME_FORMAT: PatientNameFormat = 'first_last';
+
+// Portuguese particles kept lowercase inside names ("Maria DA Silva" -> "Maria da Silva")
+const NAME_PARTICLES = new Set(['da', 'das', 'de', 'di', 'do', 'dos', 'du', 'e']);
+
+/**
+ * Title case for Portuguese names. Particles stay lowercase, hyphenated and apostrophe parts are capitalized.
+ */
+export const titleCaseName = (name: string): string =>
+    name
+        .trim()
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((word, index) => index > 0 && NAME_PARTICLES.has(word)
+            ? word
+            : word.replace(/(^|[-'’])(\p{L})/gu, (_, sep: string, letter: string) => sep + letter.toUpperCase())
+        )
+        .join(' ');
+
+/**
+ * Name as it goes in the message. "ISABELA DE SOUZA CINTRA":
+ * full -> "Isabela de Souza Cintra", first -> "Isabela", first_last -> "Isabela Cintra".
+ */
+export const formatPatientName = (rawName: string, format: PatientNameFormat = DEFAULT_PATIENT_NAME_FORMAT): string => {
+    const name = titleCaseName(rawName);
+    const words = name.split(' ');
+    if (format === 'full' || words.length <= 1) return name;
+    if (format === 'first') return words[0];
+
+    // Last name skipping particles and suffixes ("Souza Filho" keeps "Filho" with the surname)
+    const surnames = words.slice(1).filter(w => !NAME_PARTICLES.has(w));
+    if (surnames.length === 0) return words[0];
+    const last = surnames[surnames.length - 1];
+    const isSuffix = /^(Filho|Filha|Neto|Neta|Junior|Júnior|Jr\.?|Sobrinho)$/i.test(last);
+    return isSuffix && surnames.length > 1
+        ? `${words[0]} ${surnames[surnames.length - 2]} ${last}`
+        : `${words[0]} ${last}`;
+};
+
+/**
+ * The user's own choice wins over the template's.
+ */
+export const resolvePatientNameFormat = (template?: MessageTemplate, userFormat?: PatientNameFormat | null): PatientNameFormat =>
+    userFormat || template?.nameFormat || DEFAULT_PATIENT_NAME_FORMAT;
+
+// Per-user override, stored by user id. null = follow the template.
+export const loadUserNameFormat = (userId?: string): PatientNameFormat | null => {
+    if (!userId) return null;
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        const formats: Record<string, PatientNameFormat> = saved ? JSON.parse(saved) : {};
+        return formats[userId] || null;
+    } catch (e) {
+        console.error('Error loading patient name format:', e);
+        return null;
+    }
+};
+
+export const saveUserNameFormat = (userId: string, format: PatientNameFormat | null) => {
+    let formats: Record<string, PatientNameFormat> = {};
+    try {
+        formats = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch (e) {
+        console.error('Error loading patient name format:', e);
+    }
+    if (format) formats[userId] = format;
+    else delete formats[userId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(formats));
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { formatContact, normalizePhone, pickWhatsappPhone } from './phoneService';
+
+describe('normalizePhone', () => {
+    it('reads mobiles and landlines with or without DDD', () => {
+        expect(normalizePhone('(14) 99796-2690')).toMatchObject({ ddd: '14', number: '997962690', kind: 'mobile' });
+        expect(normalizePhone('3235-3350')).toMatchObject({ ddd: '14', number: '32353350', kind: 'landline' });
+        expect(normalizePhone('14 9 9648 4958')).toMatchObject({ ddd: '14', number: '996484958', kind: 'mobile' });
+    });
+
+    it('drops the country code and the trunk prefix', () => {
+        expect(normalizePhone('+55 11 98123-4567')).toMatchObject({ ddd: '11', number: '981234567' });
+        expect(normalizePhone('014 3235-3350')).toMatchObject({ ddd: '14', number: '32353350' });
+    });
+
+    it('completes old 8-digit mobiles with the ninth digit', () => {
+        expect(normalizePhone('14 8123-4567')).toMatchObject({ number: '981234567', kind: 'mobile', fixedNinthDigit: true });
+    });
+
+    it('rejects numbers that are not Brazilian phones', () => {
+        expect(normalizePhone('123')).toBeNull();
+        expect(normalizePhone('(20) 99796-2690')).toBeNull();
+        expect(normalizePhone('14 89796-2690')).toBeNull();
+    });
+});
+
+describe('formatContact', () => {
+    it('rewrites every number of the cell and keeps WhatsApp on the mobile', () => {
+        const contact = formatContact('3235-3350 / 14997962690');
+
+        expect(contact).toBe('(14) 3235-3350 / (14) 99796-2690');
+        expect(pickWhatsappPhone(contact)?.number).toBe('997962690');
+    });
+});
@@ -0,0 +1,107 @@
+// Brazilian phone numbers as they show up in the agendas' CONTATO column:
+// "(14) 99796-2690 / 3235-3350", "14 9 9648 4958", "+55 14 8123-4567"...
+
+export type PhoneKind = 'mobile' | 'landline';
+
+export interface PhoneNumber {
+    raw: string;
+    ddd: string;
+    number: string; // Without DDD: 9 digits (mobile) or 8 digits (landline)
+    kind: PhoneKind;
+    fixedNinthDigit?: boolean; // Old 8-digit mobile completed with the leading 9
+}
+
+// Area code of the units (Bauru), used when the agenda omits it
+export const DEFAULT_DDD = '14';
+
+// Candidate numbers inside a free text cell (country code, DDD and 9th digit are optional)
+export const PHONE_PATTERN = /(?:\+?55[\s.-]?)?(?:\(?0?\d{2}\)?[\s.-]?)?(?:9[\s.-]?)?\d{4}[\s.-]?\d{4}/;
+
+const VALID_DDDS = new Set([
+    11, 12, 13, 14, 15, 16, 17, 18, 19, 21, 22, 24, 27, 28,
+    31, 32, 33, 34, 35, 37, 38, 41, 42, 43, 44, 45, 46, 47, 48, 49,
+    51, 53, 54, 55, 61, 62, 63, 64, 65, 66, 67, 68, 69, 71, 73, 74, 75, 77, 79,
+    81, 82, 83, 84, 85, 86, 87, 88, 89, 91, 92, 93, 94, 95, 96, 97, 98, 99
+].map(String));
+
+/**
+ * Normalizes one number to DDD + number and classifies it. Returns null when it is not a valid Brazilian phone.
+ */
+export const normalizePhone = (raw: string, defaultDdd: string = DEFAULT_DDD): PhoneNumber | null => {
+    let digits = raw.replace(/\D/g, '');
+
+    // Country code and trunk prefix ("+55 14 ...", "014 ...")
+    if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) digits = digits.slice(2);
+    if ((digits.length === 11 || digits.length === 12) && digits.startsWith('0')) digits = digits.slice(1);
+
+    // Local number without DDD
+    if (digits.length === 8 || (digits.length === 9 && digits.startsWith('9'))) digits = defaultDdd + digits;
+
+    if (digits.length !== 10 && digits.length !== 11) return null;
+    const ddd = digits.slice(0, 2);
+    let number = digits.slice(2);
+    if (!VALID_DDDS.has(ddd)) return null;
+
+    if (number.length === 9) {
+        return number.startsWith('9') ? { raw, ddd, number, kind: 'mobile' } : null;
+    }
+    // 8 digits: 2-5 are landlines, 6-9 are mobiles written before the 9th digit
+    if (/^[2-5]/.test(number)) return { raw, ddd, number, kind: 'landline' };
+    if (/^[6-9]/.test(number)) {
+        number = `9${number}`;
+        return { raw, ddd, number, kind: 'mobile', fixedNinthDigit: true };
+    }
+    return null;
+};
+
+/**
+ * Splits a contact cell into its numbers ("14 99796-2690 / 3235-3350" -> two numbers).
+ */
+export const splitPhones = (text: string): string[] =>
+    (text.match(new RegExp(PHONE_PATTERN, 'g')) || []).map(p => p.trim());
+
+// Numbers written without DDD take the one of the previous number in the same cell
+const normalizeCell = (text: string, defaultDdd: string): { raw: string, phone: PhoneNumber | null }[] => {
+    let ddd = defaultDdd;
+    return splitPhones(text).map(raw => {
+        const phone = normalizePhone(raw, ddd);
+        if (phone) ddd = phone.ddd;
+        return { raw, phone };
+    });
+};
+
+export const parsePhones = (text: string, defaultDdd: string = DEFAULT_DDD): PhoneNumber[] =>
+    normalizeCell(text, defaultDdd)
+        .map(p => p.phone)
+        .filter((p): p is PhoneNumber => p !== null);
+
+export const formatPhone = (phone: PhoneNumber): string => {
+    const split = phone.number.length - 4;
+    return `(${phone.ddd}) ${phone.number.slice(0, split)}-${phone.number.slice(split)}`;
+};
+
+/**
+ * Rewrites the numbers of a contact cell in the standard format. Unreadable numbers are kept as written.
+ */
+export const formatContact = (text: string, defaultDdd: string = DEFAULT_DDD): string => {
+    const parts = normalizeCell(text, defaultDdd);
+    if (parts.length === 0) return text.trim();
+    return parts.map(p => p.phone ? formatPhone(p.phone) : p.raw).join(' / ');
+};
+
+/**
+ * Best number to receive WhatsApp: the first mobile of the cell. Landlines are skipped.
+ */
+export const pickWhatsappPhone = (contact: string, defaultDdd: string = DEFAULT_DDD): PhoneNumber | null =>
+    parsePhones(contact, defaultDdd).find(p => p.kind === 'mobile') || null;
+
+export const hasWhatsappPhone = (contact: string): boolean => pickWhatsappPhone(contact) !== null;
+
+/**
+ * wa.me link for the message. Without a mobile number WhatsApp opens to pick the contact manually.
+ */
+export const buildWhatsappUrl = (contact: string, message: string): string => {
+    const phone = pickWhatsappPhone(contact);
+    const text = encodeURIComponent(message);
+    return phone ? `https://wa.me/55${phone.ddd}${phone.number}?text=${text}` : `https://wa.me/?text=${text}`;
+};
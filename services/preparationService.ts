@@ -0,0 +1,248 @@
+import { Doctor, ExtractedData, Preparation, PreparationAssignment, PreparationRules, PreparationVersion } from "../types";
+import { supabase } from "./supabase";
+
+// Local copy of the shared library, used while offline or before the first fetch
+const CACHE_KEY = 'mediportal_preparations_cache';
+// Preparations each browser kept before the shared library, offered once for import
+const LEGACY_KEY = 'mediportal_preparations';
+const LEGACY_IMPORTED_KEY = 'mediportal_preparations_imported';
+
+const normalize = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, ' ').trim().toUpperCase();
+
+// "Dr(a). ORLANDO COSTA", "DRA. ANA" and "ORLANDO_COSTA" all compare as the bare name
+const normalizeDoctor = (value: string) => normalize(value).replace(/^(DRA|DR)( A)?\s+/, '');
+
+const includesEither = (a: string, b: string) => !!a && !!b && (a.includes(b) || b.includes(a));
+
+export const hasPreparationRules = (prep: Preparation): boolean =>
+    !!prep.rules && (prep.rules.procedures.length + prep.rules.doctors.length + prep.rules.specialties.length) > 0;
+
+/**
+ * Text field of the preparation form ("colonoscopia, retossigmoidoscopia") to a keyword list.
+ */
+export const parseRuleKeywords = (text: string): string[] =>
+    Array.from(new Set(text.split(/[,;\n]/).map(k => k.trim()).filter(Boolean)));
+
+/**
+ * Specialty lookup by the doctor name printed in the agenda, from the Professionals list.
+ */
+export const buildSpecialtyLookup = (doctors: Doctor[]) => (doctorName: string): string => {
+    const name = normalizeDoctor(doctorName);
+    return doctors.find(d => includesEither(normalizeDoctor(d.name), name))?.specialty || '';
+};
+
+const matchesRules = (prep: Preparation, data: ExtractedData, specialty: string): boolean => {
+    const rules = prep.rules!;
+    const procedure = normalize(data.procedure);
+    const doctor = normalizeDoctor(data.doctorName);
+    return (rules.procedures.length === 0 || rules.procedures.some(k => !!procedure && procedure.includes(normalize(k)))) &&
+        (rules.doctors.length === 0 || rules.doctors.some(k => includesEither(doctor, normalizeDoctor(k)))) &&
+        (rules.specialties.length === 0 || rules.specialties.some(k => includesEither(normalize(specialty), normalize(k))));
+};
+
+// More rule kinds filled in = more specific ("Colonoscopia + Dr. X" wins over "Colonoscopia")
+const specificity = (prep: Preparation) =>
+    [prep.rules!.procedures, prep.rules!.doctors, prep.rules!.specialties].filter(list => list.length > 0).length;
+
+/**
+ * Picks the preparation of one agenda row from the rules. Ties keep the list order.
+ */
+export const matchPreparation = (
+    data: ExtractedData,
+    preparations: Preparation[],
+    specialtyOf: (doctorName: string) => string = () => ''
+): Preparation | null => {
+    const specialty = specialtyOf(data.doctorName);
+    let best: Preparation | null = null;
+    for (const prep of preparations) {
+        if (!hasPreparationRules(prep) || !matchesRules(prep, data, specialty)) continue;
+        if (!best || specificity(prep) > specificity(best)) best = prep;
+    }
+    return best;
+};
+
+/**
+ * Rule match first, then the batch-wide preparation picked in the form (flagged as fallback).
+ */
+export const assignPreparation = (
+    data: ExtractedData,
+    preparations: Preparation[],
+    fallbackId: string,
+    specialtyOf?: (doctorName: string) => string
+): PreparationAssignment => {
+    const matched = matchPreparation(data, preparations, specialtyOf);
+    if (matched) return { preparationId: matched.id, source: 'rule' };
+    if (fallbackId && preparations.some(p => p.id === fallbackId)) return { preparationId: fallbackId, source: 'fallback' };
+    return { preparationId: null, source: 'none' };
+};
+
+// --- SHARED LIBRARY (Supabase "preparations" + "preparation_versions") ---
+// Version, author and timestamp are set by database triggers; writes are allowed to admins only (RLS).
+
+const toPreparation = (row: any): Preparation => ({
+    id: row.id,
+    title: row.title,
+    text: row.text,
+    rules: row.rules || undefined,
+    version: row.version,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by_name || undefined,
+    deletedAt: row.deleted_at || undefined
+});
+
+export const loadCachedPreparations = (): Preparation[] => {
+    try {
+        const saved = localStorage.getItem(CACHE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error('Error loading cached preparations:', e);
+        return [];
+    }
+};
+
+const cachePreparations = (preparations: Preparation[]) => {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(preparations));
+};
+
+export const fetchPreparations = async (): Promise<Preparation[]> => {
+    const { data, error } = await supabase
+        .from('preparations')
+        .select('*')
+        .is('deleted_at', null)
+        .order('title');
+
+    if (error) throw error;
+    const preparations = (data || []).map(toPreparation);
+    cachePreparations(preparations);
+    return preparations;
+};
+
+export const savePreparation = async (prep: { id?: string, title: string, text: string, rules?: PreparationRules }): Promise<Preparation> => {
+    const values = { title: prep.title, text: prep.text, rules: prep.rules || null };
+    const { data, error } = prep.id
+        ? await supabase.from('preparations').update(values).eq('id', prep.id).select().single()
+        : await supabase.from('preparations').insert(values).select().single();
+
+    if (error) throw error;
+    return toPreparation(data);
+};
+
+// Soft delete: the history stays available and the preparation can be restored
+export const deletePreparation = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('preparations')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', id);
+
+    if (error) throw error;
+};
+
+export const fetchDeletedPreparations = async (): Promise<Preparation[]> => {
+    const { data, error } = await supabase
+        .from('preparations')
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toPreparation);
+};
+
+// --- LEGACY LOCAL PREPARATIONS ---
+
+const sameContent = (a: Preparation, b: Preparation) =>
+    normalize(a.title) === normalize(b.title) && normalize(a.text) === normalize(b.text);
+
+/**
+ * Preparations saved in this browser before the shared library that the library does not
+ * have yet (same title and text). Empty after they were imported or dismissed.
+ */
+export const findLegacyPreparations = (library: Preparation[]): Preparation[] => {
+    if (localStorage.getItem(LEGACY_IMPORTED_KEY)) return [];
+    try {
+        const saved = localStorage.getItem(LEGACY_KEY);
+        const legacy: Preparation[] = saved ? JSON.parse(saved) : [];
+        // Rows with a version are a library copy written by an earlier build under the old key
+        return legacy.filter(prep => prep.version === undefined && prep.title && prep.text &&
+            !library.some(known => sameContent(known, prep)));
+    } catch (e) {
+        console.error('Error loading local preparations:', e);
+        return [];
+    }
+};
+
+// The old entries stay in localStorage (and in the Settings backup), only the offer goes away
+export const dismissLegacyPreparations = () => {
+    localStorage.setItem(LEGACY_IMPORTED_KEY, new Date().toISOString());
+};
+
+/**
+ * Copies the browser's own preparations (with their rules) into the shared library. Admins only (RLS).
+ */
+export const importLegacyPreparations = async (legacy: Preparation[]): Promise<Preparation[]> => {
+    const imported: Preparation[] = [];
+    for (const prep of legacy) {
+        imported.push(await savePreparation({ title: prep.title, text: prep.text, rules: prep.rules }));
+    }
+    dismissLegacyPreparations();
+    return imported;
+};
+
+export const fetchPreparationVersions = async (preparationId: string): Promise<PreparationVersion[]> => {
+    const { data, error } = await supabase
+        .from('preparation_versions')
+        .select('*')
+        .eq('preparation_id', preparationId)
+        .order('version', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        id: row.id,
+        preparationId: row.preparation_id,
+        version: row.version,
+        title: row.title,
+        text: row.text,
+        rules: row.rules || undefined,
+        deleted: row.deleted,
+        createdAt: row.created_at,
+        createdBy: row.created_by_name || undefined
+    }));
+};
+
+/**
+ * Brings an older version back as the current one (a new version is recorded).
+ */
+export const restorePreparationVersion = async (version: PreparationVersion): Promise<Preparation> => {
+    const { data, error } = await supabase
+        .from('preparations')
+        .update({ title: version.title, text: version.text, rules: version.rules || null, deleted_at: null })
+        .eq('id', version.preparationId)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return toPreparation(data);
+};
+
+/**
+ * Brings a removed preparation back with the content of its last version before the removal.
+ */
+export const restoreDeletedPreparation = async (id: string): Promise<Preparation> => {
+    const lastKept = (await fetchPreparationVersions(id)).find(version => !version.deleted);
+    if (!lastKept) throw new Error('Nenhuma versão anterior à exclusão foi encontrada.');
+    return restorePreparationVersion(lastKept);
+};
+
+export const subscribeToPreparations = (onChange: () => void): (() => void) => {
+    const channel = supabase
+        .channel('public:preparations')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'preparations' }, () => {
+            onChange();
+        })
+        .subscribe();
+
+    return () => {
+        supabase.removeChannel(channel);
+    };
+};
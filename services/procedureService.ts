@@ -0,0 +1,98 @@
+import { ProcedureAuthorization, ProcedureDetails } from "../types";
+
+// Time for the check-in and the guia at the front desk
+export const DEFAULT_ARRIVAL_OFFSET_MINUTES = 30;
+
+export const ARRIVAL_OFFSET_OPTIONS = [0, 15, 30, 45, 60];
+
+export const PROCEDURE_AUTHORIZATION_LABELS: Record<ProcedureAuthorization, string> = {
+    authorized: 'Autorizada',
+    pending: 'Aguardando autorização',
+    not_required: 'Não necessária',
+    unknown: 'Não informada'
+};
+
+// Lines shown to the patient for each guia status (empty = nothing to say)
+const AUTHORIZATION_MESSAGES: Record<ProcedureAuthorization, string> = {
+    authorized: 'Guia autorizada',
+    pending: 'Guia aguardando autorização da Unimed. Entraremos em contato caso haja alguma pendência',
+    not_required: '',
+    unknown: ''
+};
+
+const normalize = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+
+// Procedures done with sedation, anesthesia or pupil dilation: the patient needs someone to take them home
+const COMPANION_KEYWORDS = [
+    'SEDACAO', 'ANESTESIA', 'ENDOSCOPIA', 'COLONOSCOPIA', 'RETOSSIGMOIDOSCOPIA', 'BRONCOSCOPIA',
+    'CIRURGIA', 'BIOPSIA', 'DILATACAO', 'MAPEAMENTO DE RETINA', 'FUNDO DE OLHO'
+];
+
+export const DEFAULT_PROCEDURE_DETAILS: ProcedureDetails = {
+    arrivalOffsetMinutes: DEFAULT_ARRIVAL_OFFSET_MINUTES,
+    companionRequired: false,
+    authorization: 'unknown'
+};
+
+/**
+ * Reads what the agenda row tells about the procedure: companion from the procedure name,
+ * guia status and number from the status/notes text ("AUTORIZADO", "GUIA PENDENTE", "GUIA 123456").
+ */
+export const detectProcedureDetails = (procedure: string, notes: string = ''): ProcedureDetails => {
+    const name = normalize(procedure);
+    const text = normalize(notes);
+
+    let authorization: ProcedureAuthorization = 'unknown';
+    if (/NAO AUTORIZ|PENDENTE|AGUARDANDO|EM ANALISE/.test(text)) authorization = 'pending';
+    else if (/AUTORIZAD|LIBERAD/.test(text)) authorization = 'authorized';
+    else if (/SEM GUIA|NAO (NECESSITA|PRECISA)/.test(text)) authorization = 'not_required';
+
+    return {
+        ...DEFAULT_PROCEDURE_DETAILS,
+        companionRequired: COMPANION_KEYWORDS.some(k => name.includes(k)),
+        authorization,
+        guideNumber: text.match(/GUIA\D{0,5}(\d{5,})/)?.[1]
+    };
+};
+
+/**
+ * Check-in time: the procedure time minus the offset ("08:00" - 30 min -> "07:30").
+ */
+export const arrivalTime = (time: string, offsetMinutes: number): string => {
+    const match = time.match(/^(\d{1,2}):(\d{2})/);
+    if (!match || offsetMinutes <= 0) return '';
+    const total = (Number(match[1]) * 60 + Number(match[2]) - offsetMinutes + 24 * 60) % (24 * 60);
+    const pad = (n: number) => n < 10 ? `0${n}` : `${n}`;
+    return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+};
+
+/**
+ * Values of the procedure placeholders ({chegada}, {acompanhante}, {autorizacao}).
+ */
+export const procedureTemplateValues = (details: ProcedureDetails | undefined, time: string) => {
+    if (!details) return { chegada: '', acompanhante: '', autorizacao: '' };
+    const authorization = AUTHORIZATION_MESSAGES[details.authorization];
+    return {
+        chegada: arrivalTime(time, details.arrivalOffsetMinutes),
+        acompanhante: details.companionRequired ? 'Obrigatória a presença de um acompanhante maior de idade' : '',
+        autorizacao: authorization && details.guideNumber ? `${authorization} (nº ${details.guideNumber})` : authorization
+    };
+};
+
+/**
+ * Checks the procedure details returned by the AI. Anything unusable falls back to the defaults.
+ */
+export const parseProcedureDetails = (raw: unknown): ProcedureDetails | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const source = raw as Record<string, unknown>;
+    const offset = Number(source.arrivalOffsetMinutes);
+    const authorization = String(source.authorization || '') as ProcedureAuthorization;
+    const guideNumber = typeof source.guideNumber === 'string' ? source.guideNumber.replace(/\D/g, '') : '';
+    return {
+        arrivalOffsetMinutes: Number.isFinite(offset) && offset >= 0 && offset <= 180 ? Math.round(offset) : DEFAULT_ARRIVAL_OFFSET_MINUTES,
+        companionRequired: source.companionRequired === true || source.companionRequired === 'true',
+        authorization: authorization in PROCEDURE_AUTHORIZATION_LABELS ? authorization : 'unknown',
+        guideNumber: guideNumber || undefined
+    };
+};
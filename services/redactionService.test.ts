@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseAgendaText } from './localDocumentService';
+import { createRedactionSession, findUnredactedNames, redactText } from './redactionService';
+
+// The text parser does not touch PDFs, and pdfjs needs browser globals to load
+vi.mock('pdfjs-dist', () => ({ GlobalWorkerOptions: {} }));
+
+const AGENDA = [
+    'Prestador: Dr. Paulo Mendes 25/11/2025',
+    '08:00 - 08:15 ANDRÉ LUIZ PEREIRA Consulta Unimed (14) 99876-5432 Confirmado',
+    '08:15 - 08:30 ÉRICA SOUZA Retorno Unimed (14) 99123-4567 Agendado',
+    '08:30 - 08:45 ANA-MARIA DOS SANTOS Consulta Particular (14) 3222-1100 Agendado',
+    '08:45 - 09:00 JOSÉ Consulta Unimed (14) 99000-1111 Agendado',
+    '09:00 - 09:15 LIVRE'
+].join('\n');
+
+// Names as the privacy mode collects them (geminiService analyzeRedacted)
+const namesOf = (text: string) => parseAgendaText(text)
+    .filter(appt => !/LIVRE/i.test(appt.patientName))
+    .flatMap(appt => [appt.rawPatientName || '', appt.patientName]);
+
+describe('redactText', () => {
+    it('keeps accented and hyphenated names whole in rawPatientName', () => {
+        const raw = parseAgendaText(AGENDA).map(appt => appt.rawPatientName);
+
+        expect(raw).toContain('ANDRÉ LUIZ PEREIRA');
+        expect(raw).toContain('ÉRICA SOUZA');
+        expect(raw).toContain('ANA-MARIA DOS SANTOS');
+        expect(raw).toContain('JOSÉ');
+    });
+
+    it('replaces accented and hyphenated names, phones included', () => {
+        const names = namesOf(AGENDA);
+        const redacted = redactText(AGENDA, names, createRedactionSession());
+
+        for (const name of ['ANDRÉ', 'ÉRICA', 'ANA-MARIA', 'JOSÉ', '99876-5432']) {
+            expect(redacted).not.toContain(name);
+        }
+        expect(redacted).toContain('LIVRE');
+        expect(findUnredactedNames(redacted, names)).toEqual([]);
+    });
+
+    it('redacts a name wrapped onto the next line', () => {
+        const text = '10:00 - 10:15 MARIA DA CONCEIÇÃO\nAPARECIDA Consulta Unimed';
+        const redacted = redactText(text, ['MARIA DA CONCEIÇÃO APARECIDA'], createRedactionSession());
+
+        expect(redacted).not.toMatch(/MARIA|APARECIDA/);
+    });
+});
+
+describe('findUnredactedNames', () => {
+    it('reports names left in the text regardless of accents and hyphens', () => {
+        const redacted = '08:00 - 08:15 Andre Luiz Pereira Consulta\n08:30 - 08:45 ANA MARIA DOS SANTOS';
+
+        expect(findUnredactedNames(redacted, ['ANDRÉ LUIZ PEREIRA', 'ANA-MARIA DOS SANTOS', 'ÉRICA SOUZA']))
+            .toEqual(['ANDRÉ LUIZ PEREIRA', 'ANA-MARIA DOS SANTOS']);
+    });
+});
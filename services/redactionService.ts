@@ -0,0 +1,199 @@
+import { DocumentAnalysisResult } from "../types";
+import { formatContact, PHONE_PATTERN } from "./phoneService";
+import { supabase } from "./supabase";
+
+const STORAGE_KEY = 'mediportal_privacy_mode';
+// Last value of the admin setting read from Supabase, only used to show it in the UI
+const ENFORCED_CACHE_KEY = 'mediportal_privacy_enforced_cache';
+const ENFORCED_SETTING = 'privacy_enforced';
+
+// --- PRIVACY MODE SETTINGS ---
+
+export interface PrivacySettings {
+    enabled: boolean; // Chosen by the user, kept in this browser
+    enforced: boolean; // Set by an admin for everyone (Supabase "app_settings"): privacy mode cannot be turned off
+}
+
+export const loadPrivacySettings = (): PrivacySettings => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return {
+            enabled: saved ? !!JSON.parse(saved).enabled : false,
+            enforced: localStorage.getItem(ENFORCED_CACHE_KEY) === 'true'
+        };
+    } catch (e) {
+        console.error('Error loading privacy settings:', e);
+        return { enabled: false, enforced: false };
+    }
+};
+
+// Only the user's own choice is stored locally; the admin setting goes through savePrivacyEnforced
+export const savePrivacySettings = (settings: PrivacySettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ enabled: settings.enabled }));
+};
+
+export const fetchPrivacyEnforced = async (): Promise<boolean> => {
+    const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', ENFORCED_SETTING)
+        .maybeSingle();
+
+    if (error) throw error;
+    const enforced = data?.value === true;
+    localStorage.setItem(ENFORCED_CACHE_KEY, String(enforced));
+    return enforced;
+};
+
+/**
+ * Requires privacy mode for every user. Admins only (RLS).
+ */
+export const savePrivacyEnforced = async (enforced: boolean): Promise<void> => {
+    const { error } = await supabase
+        .from('app_settings')
+        .upsert({ key: ENFORCED_SETTING, value: enforced });
+
+    if (error) throw error;
+    localStorage.setItem(ENFORCED_CACHE_KEY, String(enforced));
+};
+
+/**
+ * Whether the agenda must be redacted before going to the AI. The admin setting is read from
+ * Supabase on every call; when it cannot be read the text is redacted anyway.
+ */
+export const isPrivacyModeActive = async (): Promise<boolean> => {
+    if (loadPrivacySettings().enabled) return true;
+    try {
+        return await fetchPrivacyEnforced();
+    } catch (e) {
+        console.error('Error loading the privacy mode setting:', e);
+        return true;
+    }
+};
+
+// --- PSEUDONYMIZATION ---
+
+export type RedactionKind = 'name' | 'phone' | 'card' | 'cpf';
+
+const TOKEN_PREFIX: Record<RedactionKind, string> = {
+    name: 'PACIENTE',
+    phone: 'TEL',
+    card: 'CARTEIRINHA',
+    cpf: 'CPF'
+};
+
+export interface RedactionToken {
+    token: string; // "[PACIENTE_1]"
+    kind: RedactionKind;
+    value: string; // Real value, never leaves the browser
+}
+
+// Tokens shared by everything sent in one request (document and context), so the same patient keeps the same token
+export interface RedactionSession {
+    tokens: RedactionToken[];
+}
+
+export const createRedactionSession = (): RedactionSession => ({ tokens: [] });
+
+// Carteirinha Unimed: 13 to 20 digits, printed in groups ("0 032 000012345678 9")
+const CARD_PATTERN = /\b\d(?:[\s.-]?\d){12,19}\b/g;
+const CPF_PATTERN = /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b/g;
+// Tolerates the model dropping the brackets
+const TOKEN_PATTERN = /\[?\b(PACIENTE|TEL|CARTEIRINHA|CPF)_(\d+)\b\]?/g;
+
+const normalizeValue = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toUpperCase();
+
+const tokenFor = (session: RedactionSession, kind: RedactionKind, value: string): string => {
+    const key = kind === 'name' ? normalizeValue(value) : value.replace(/\D/g, '');
+    const known = session.tokens.find(t => t.kind === kind &&
+        (kind === 'name' ? normalizeValue(t.value) : t.value.replace(/\D/g, '')) === key);
+    if (known) return known.token;
+    const count = session.tokens.filter(t => t.kind === kind).length + 1;
+    const token = `[${TOKEN_PREFIX[kind]}_${count}]`;
+    session.tokens.push({ token, kind, value: value.trim() });
+    return token;
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replaces patient names, phones, carteirinhas and CPFs by tokens.
+ * Names come from the local parser (the text alone does not say what is a name).
+ */
+export const redactText = (text: string, names: string[], session: RedactionSession): string => {
+    let result = text
+        .replace(CARD_PATTERN, match => tokenFor(session, 'card', match))
+        .replace(CPF_PATTERN, match => tokenFor(session, 'cpf', match))
+        .replace(new RegExp(PHONE_PATTERN, 'g'), match => tokenFor(session, 'phone', match));
+
+    // Longest names first, so "MARIA DA SILVA SANTOS" is not split by "MARIA DA SILVA"
+    const uniqueNames = Array.from(new Set(names.map(n => n.trim()).filter(n => n.length > 2)))
+        .sort((a, b) => b.length - a.length);
+    for (const name of uniqueNames) {
+        // Any non-letter run between words: line breaks and times of a wrapped row included
+        const pattern = name.split(/\s+/).map(escapeRegex).join('[^\\p{L}]+');
+        result = result.replace(new RegExp(`(?<![\\p{L}])${pattern}(?![\\p{L}])`, 'giu'), () => tokenFor(session, 'name', name));
+    }
+    return result;
+};
+
+// Letters only, without accents: "José  Ana-Maria" and "JOSE ANA MARIA" compare equal
+const looseWords = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().replace(/[^A-Z]+/g, ' ').trim();
+
+/**
+ * Names still readable in the redacted text, ignoring accents, hyphens and line breaks.
+ * Anything returned here means the text must not be sent.
+ */
+export const findUnredactedNames = (redacted: string, names: string[]): string[] => {
+    const text = ` ${looseWords(redacted)} `;
+    return Array.from(new Set(names.map(n => n.trim()).filter(n => n.length > 2)))
+        .filter(name => {
+            const words = looseWords(name);
+            return words.length > 2 && text.includes(` ${words} `);
+        });
+};
+
+/**
+ * Puts the real values back. Names can be rewritten for the message (e.g. first + last name).
+ */
+export const restoreText = (text: string, session: RedactionSession, formatName?: (name: string) => string): string =>
+    text.replace(TOKEN_PATTERN, (match, prefix: string, n: string) => {
+        const token = session.tokens.find(t => t.token === `[${prefix}_${n}]`);
+        if (!token) return match;
+        return token.kind === 'name' && formatName ? formatName(token.value) : token.value;
+    });
+
+/**
+ * Restores the AI results locally. Tokens the model invented (or broke) are reported as warnings.
+ */
+export const restoreResults = (
+    results: DocumentAnalysisResult[],
+    session: RedactionSession,
+    formatName?: (name: string) => string
+): DocumentAnalysisResult[] =>
+    results.map(result => {
+        const data = result.extractedData;
+        const rawName = restoreText(data.patientName, session);
+        const restored: DocumentAnalysisResult = {
+            ...result,
+            extractedData: {
+                ...data,
+                patientName: rawName,
+                rawPatientName: rawName,
+                doctorName: restoreText(data.doctorName, session),
+                procedure: restoreText(data.procedure, session),
+                contact: formatContact(restoreText(data.contact, session))
+            },
+            generatedMessage: restoreText(result.generatedMessage, session, formatName)
+        };
+
+        const leftovers = [restored.generatedMessage, ...Object.values(restored.extractedData)]
+            .filter((v): v is string => typeof v === 'string')
+            .flatMap(v => v.match(TOKEN_PATTERN) || []);
+        if (leftovers.length > 0) {
+            restored.warnings = [...(result.warnings || []), `Marcadores não reconhecidos: ${Array.from(new Set(leftovers)).join(', ')}.`];
+        }
+        return restored;
+    });
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { isSameDoctor } from './rescheduleService';
+
+describe('isSameDoctor', () => {
+    it('matches the same doctor written in different ways', () => {
+        expect(isSameDoctor('Dr(a). ORLANDO COSTA', 'ORLANDO_COSTA')).toBe(true);
+        expect(isSameDoctor('DRA. ANA PAULA', 'Ana Paula')).toBe(true);
+    });
+
+    it('does not match a doctor whose name only contains the other one', () => {
+        expect(isSameDoctor('DR ANA', 'DR ANA PAULA')).toBe(false);
+        expect(isSameDoctor('', 'DR ANA')).toBe(false);
+    });
+});
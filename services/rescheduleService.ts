@@ -0,0 +1,146 @@
+import { AgendaSnapshot, FreeSlot, SlotReservation } from "../types";
+import { findLatestSnapshot, isCancelledStatus } from "./agendaSnapshotService";
+import { supabase } from "./supabase";
+
+const normalize = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, ' ').trim().toUpperCase();
+
+// "Dr(a). ORLANDO COSTA" and "ORLANDO_COSTA" are the same doctor
+const normalizeDoctor = (value: string) => normalize(value).replace(/^(DRA|DR)( A)?\s+/, '');
+
+// Full names only: "DR ANA" is not "DR ANA PAULA"
+export const isSameDoctor = (a: string, b: string) => {
+    const x = normalizeDoctor(a);
+    return !!x && x === normalizeDoctor(b);
+};
+
+// DD/MM/YYYY to a sortable YYYYMMDD, '' when the date cannot be read
+const sortableDate = (date: string) => {
+    const match = date.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+    return match ? `${match[3]}${match[2]}${match[1]}` : '';
+};
+
+const todayKey = () => {
+    const now = new Date();
+    return `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Free slots from today on, taken from the latest version of every stored agenda
+ * (so a slot filled in a later upload is no longer offered).
+ */
+export const listFreeSlots = (snapshots: AgendaSnapshot[]): FreeSlot[] => {
+    const today = todayKey();
+    const slots: FreeSlot[] = [];
+    for (const id of new Set(snapshots.map(s => s.id))) {
+        const latest = findLatestSnapshot(snapshots, id)!;
+        const day = sortableDate(latest.date);
+        if (!day || day < today) continue;
+        // AI readings do not list free slots: the last known ones stay, minus the times booked since
+        const known = latest.freeSlotsUnknown ? findLatestSnapshot(snapshots.filter(s => !s.freeSlotsUnknown), id) : latest;
+        if (!known) continue;
+        const booked = new Set(latest.appointments.filter(a => !isCancelledStatus(a.status)).map(a => a.time));
+        for (const time of new Set(known.freeSlots)) {
+            if (booked.has(time)) continue;
+            slots.push({ id: `${latest.id}|${time}`, doctor: latest.doctor, date: latest.date, time });
+        }
+    }
+    return slots.sort((a, b) => `${sortableDate(a.date)}${a.time}`.localeCompare(`${sortableDate(b.date)}${b.time}`));
+};
+
+// --- SHARED RESERVATIONS (Supabase "slot_reservations") ---
+// One row per slot (primary key), so two receptionists cannot promise the same slot.
+
+const toReservation = (row: any): SlotReservation => ({
+    slotId: row.slot_id,
+    date: row.date,
+    time: row.time,
+    appointmentKey: row.appointment_key,
+    patientName: row.patient_name,
+    reservedAt: row.reserved_at,
+    reservedBy: row.reserved_by_name || ''
+});
+
+const isPast = (date: string) => {
+    const day = sortableDate(date);
+    return !!day && day < todayKey();
+};
+
+/**
+ * Current reservations of every user. Those of past days are released on the way.
+ */
+export const fetchReservations = async (): Promise<SlotReservation[]> => {
+    const { data, error } = await supabase
+        .from('slot_reservations')
+        .select('*');
+
+    if (error) throw error;
+    const reservations = (data || []).map(toReservation);
+    const past = reservations.filter(r => isPast(r.date)).map(r => r.slotId);
+    if (past.length > 0) {
+        supabase.from('slot_reservations').delete().in('slot_id', past)
+            .then(({ error }) => error && console.error('Error releasing past reservations:', error));
+    }
+    return reservations.filter(r => !isPast(r.date));
+};
+
+// Reservations of slots that are gone (past, or filled in a newer upload) are not shown
+export const pruneReservations = (reservations: SlotReservation[], slots: FreeSlot[]): SlotReservation[] => {
+    const ids = new Set(slots.map(s => s.id));
+    return reservations.filter(r => ids.has(r.slotId));
+};
+
+/**
+ * Gives the slot to the appointment, releasing whatever it held before. null only releases.
+ */
+export const reserveSlot = async (
+    slot: FreeSlot | null,
+    info: { appointmentKey: string, patientName: string }
+): Promise<SlotReservation | null> => {
+    if (!slot) {
+        const { error } = await supabase.from('slot_reservations').delete().eq('appointment_key', info.appointmentKey);
+        if (error) throw error;
+        return null;
+    }
+    // Moves the appointment's row to the new slot; a slot held by another patient violates the key
+    const { data, error } = await supabase
+        .from('slot_reservations')
+        .upsert(
+            { slot_id: slot.id, date: slot.date, time: slot.time, appointment_key: info.appointmentKey, patient_name: info.patientName },
+            { onConflict: 'appointment_key' }
+        )
+        .select()
+        .single();
+
+    if (error) {
+        if (error.code === '23505') throw new Error('Este horário já foi oferecido a outro paciente.');
+        throw error;
+    }
+    return toReservation(data);
+};
+
+export const subscribeToReservations = (onChange: () => void): (() => void) => {
+    const channel = supabase
+        .channel('public:slot_reservations')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'slot_reservations' }, () => {
+            onChange();
+        })
+        .subscribe();
+
+    return () => {
+        supabase.removeChannel(channel);
+    };
+};
+
+/**
+ * Slots that can be offered to this appointment: same doctor, not reserved by another patient.
+ */
+export const availableSlotsFor = (
+    doctorName: string,
+    appointmentKey: string,
+    slots: FreeSlot[],
+    reservations: SlotReservation[]
+): FreeSlot[] => {
+    const taken = new Set(reservations.filter(r => r.appointmentKey !== appointmentKey).map(r => r.slotId));
+    return slots.filter(slot => !taken.has(slot.id) && isSameDoctor(slot.doctor, doctorName));
+};
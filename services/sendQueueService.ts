@@ -0,0 +1,81 @@
+import { DocumentAnalysisResult, SendQueue, SendQueueItem, SendQueueItemState } from "../types";
+import { appointmentKey } from "./outreachService";
+import { hasWhatsappPhone } from "./phoneService";
+
+const STORAGE_KEY = 'mediportal_send_queue';
+
+// Minimum pause between two sends, so WhatsApp does not flag the number as spam
+export const SEND_QUEUE_INTERVAL_MS = 4000;
+
+export const SEND_QUEUE_STATE_LABELS: Record<SendQueueItemState, string> = {
+    pending: 'Na fila',
+    sent: 'Enviado',
+    skipped: 'Pulado',
+    invalid: 'Sem celular válido'
+};
+
+/**
+ * Only one queue is kept: it is the one resumed after a page reload.
+ */
+export const loadSendQueue = (): SendQueue | null => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+        console.error('Error loading send queue:', e);
+        return null;
+    }
+};
+
+export const saveSendQueue = (queue: SendQueue | null) => {
+    if (queue) localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    else localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Builds the queue in the batch order. Rows without a mobile number are marked invalid up front
+ * (wa.me would open without a recipient) and duplicated appointments are sent once.
+ */
+export const createSendQueue = (
+    results: DocumentAnalysisResult[],
+    info: { type: SendQueue['type'], createdBy: string, campaignId?: string }
+): SendQueue => {
+    const seen = new Set<string>();
+    const items: SendQueueItem[] = [];
+    for (const result of results) {
+        const id = appointmentKey(result.extractedData);
+        if (seen.has(id)) continue;
+        seen.add(id);
+        items.push({ id, result, state: hasWhatsappPhone(result.extractedData.contact) ? 'pending' : 'invalid' });
+    }
+    return {
+        id: Date.now().toString(),
+        type: info.type,
+        campaignId: info.campaignId,
+        createdAt: new Date().toISOString(),
+        createdBy: info.createdBy,
+        items,
+        paused: false
+    };
+};
+
+// The row shown in the queue panel: the first one still pending
+export const currentQueueItem = (queue: SendQueue): SendQueueItem | null =>
+    queue.items.find(item => item.state === 'pending') || null;
+
+export const setQueueItemState = (queue: SendQueue, itemId: string, state: SendQueueItemState): SendQueue => ({
+    ...queue,
+    items: queue.items.map(item => item.id !== itemId ? item : {
+        ...item,
+        state,
+        at: state === 'pending' ? undefined : new Date().toISOString()
+    })
+});
+
+export const setQueuePaused = (queue: SendQueue, paused: boolean): SendQueue => ({ ...queue, paused });
+
+export const queueCounts = (queue: SendQueue): Record<SendQueueItemState, number> => {
+    const counts: Record<SendQueueItemState, number> = { pending: 0, sent: 0, skipped: 0, invalid: 0 };
+    for (const item of queue.items) counts[item.state]++;
+    return counts;
+};
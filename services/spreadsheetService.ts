@@ -0,0 +1,213 @@
+import { read, utils, SSF } from 'xlsx';
+import { AgendaLayoutProfile } from "../types";
+import { DEFAULT_AGENDA_LAYOUT } from "./agendaLayoutService";
+import { ParsedAppointment } from "./localDocumentService";
+import { formatContact } from "./phoneService";
+
+const STORAGE_KEY = 'mediportal_spreadsheet_mappings';
+
+export type SpreadsheetField = 'patientName' | 'doctorName' | 'date' | 'time' | 'procedure' | 'contact' | 'insurance' | 'status';
+
+export const SPREADSHEET_FIELD_LABELS: Record<SpreadsheetField, string> = {
+    patientName: 'Paciente',
+    doctorName: 'Médico',
+    date: 'Data',
+    time: 'Horário',
+    procedure: 'Evento / Procedimento',
+    contact: 'Contato',
+    insurance: 'Convênio',
+    status: 'Status'
+};
+
+// Field -> spreadsheet header. Stored by header name so reordered exports still work.
+export type SpreadsheetColumnMapping = Partial<Record<SpreadsheetField, string>>;
+
+export interface SpreadsheetData {
+    headers: string[];
+    rows: (string | number)[][]; // Raw cells, XLSX dates/times stay as serial numbers
+    signature: string; // Identifies the export format (source) for the saved mapping
+}
+
+interface SavedSpreadsheetMapping {
+    mapping: SpreadsheetColumnMapping;
+    updatedAt: string;
+}
+
+export const isSpreadsheetFile = (file: File) =>
+    /\.(csv|xlsx|xls)$/i.test(file.name) ||
+    file.type === 'text/csv' ||
+    file.type.includes('spreadsheetml') ||
+    file.type === 'application/vnd.ms-excel';
+
+const normalizeHeader = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toUpperCase();
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// XLSX stores dates and times as day serials, decode them without going through the timezone
+const formatCell = (value: unknown, field?: SpreadsheetField): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number' && (field === 'date' || field === 'time')) {
+        const parsed = SSF.parse_date_code(value);
+        if (parsed) {
+            return field === 'time'
+                ? `${pad(parsed.H)}:${pad(parsed.M)}`
+                : `${pad(parsed.d)}/${pad(parsed.m)}/${parsed.y}`;
+        }
+    }
+    return String(value).replace(/\s+/g, ' ').trim();
+};
+
+// Exports are UTF-8 or Windows-1252 (older Excel "CSV" saves)
+const decodeCsv = (buffer: ArrayBuffer): string => {
+    const utf8 = new TextDecoder('utf-8').decode(buffer);
+    return utf8.includes('\uFFFD') ? new TextDecoder('windows-1252').decode(buffer) : utf8;
+};
+
+/**
+ * Reads the first sheet of a CSV/XLSX file. The first row with 2+ filled cells is the header.
+ */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+    try {
+        // CSV cells are kept as typed ("18/10/2026" must not be guessed as a US date)
+        const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+        const buffer = await file.arrayBuffer();
+        const workbook = isCsv
+            ? read(decodeCsv(buffer), { type: 'string', raw: true })
+            : read(buffer, { type: 'array' });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        if (!sheet) throw new Error("Planilha vazia.");
+
+        const raw = utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', blankrows: false });
+        const headerIndex = raw.findIndex(row => row.filter(cell => formatCell(cell) !== '').length >= 2);
+        if (headerIndex === -1) throw new Error("Cabeçalho não encontrado.");
+
+        const headers = raw[headerIndex].map((cell, i) => formatCell(cell) || `Coluna ${i + 1}`);
+        const rows = raw.slice(headerIndex + 1)
+            // Numbers stay raw until the mapping tells us if the column is a date or a time
+            .map(row => headers.map((_, i) => (typeof row[i] === 'number' ? row[i] as number : formatCell(row[i]))))
+            .filter(row => row.some(cell => cell !== ''));
+
+        return {
+            headers,
+            rows,
+            signature: headers.map(normalizeHeader).sort().join('|')
+        };
+    } catch (e: any) {
+        console.error("Spreadsheet Read Failed:", e);
+        throw new Error(`Falha na leitura da planilha: ${e.message}`);
+    }
+};
+
+// Extra header names common in scheduling exports, on top of the layout's column headers
+const EXTRA_HEADER_HINTS: Record<SpreadsheetField, string[]> = {
+    patientName: ['NOME', 'BENEFICIARIO'],
+    doctorName: ['MEDICO', 'PROFISSIONAL', 'PRESTADOR', 'DOUTOR'],
+    date: ['DATA', 'DIA'],
+    time: ['HORARIO', 'HORA'],
+    procedure: ['PROCEDIMENTO', 'TIPO', 'EVENTO'],
+    contact: ['CELULAR', 'FONE', 'TELEFONE', 'WHATSAPP'],
+    insurance: ['CONVENIO', 'PLANO'],
+    status: ['STATUS', 'SITUACAO']
+};
+
+/**
+ * Suggests a mapping from the header names, using the agenda layout's column labels as hints.
+ */
+export const guessSpreadsheetMapping = (
+    headers: string[],
+    layout: AgendaLayoutProfile = DEFAULT_AGENDA_LAYOUT
+): SpreadsheetColumnMapping => {
+    const layoutHints: Record<SpreadsheetField, string[]> = {
+        patientName: layout.columnHeaders.patient,
+        doctorName: [],
+        date: [],
+        time: layout.columnHeaders.time,
+        procedure: layout.columnHeaders.event,
+        contact: layout.columnHeaders.contact,
+        insurance: layout.columnHeaders.insurance,
+        status: layout.columnHeaders.status
+    };
+
+    const mapping: SpreadsheetColumnMapping = {};
+    const used = new Set<string>();
+    // Doctor first, so a "Nome do Médico" column is not taken as the patient name
+    const order: SpreadsheetField[] = ['doctorName', 'time', 'date', 'patientName', 'procedure', 'contact', 'insurance', 'status'];
+    for (const field of order) {
+        // Hints are in priority order, the first one found in the headers wins
+        for (const hint of [...layoutHints[field], ...EXTRA_HEADER_HINTS[field]].map(normalizeHeader)) {
+            const header = headers.find(h => !used.has(h) && normalizeHeader(h).includes(hint));
+            if (header) {
+                mapping[field] = header;
+                used.add(header);
+                break;
+            }
+        }
+    }
+    return mapping;
+};
+
+export const validateSpreadsheetMapping = (mapping: SpreadsheetColumnMapping): string[] => {
+    const errors: string[] = [];
+    if (!mapping.patientName) errors.push('Selecione a coluna do Paciente.');
+    if (!mapping.time) errors.push('Selecione a coluna do Horário.');
+    return errors;
+};
+
+const loadSavedMappings = (): Record<string, SavedSpreadsheetMapping> => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        console.error('Error loading spreadsheet mappings:', e);
+        return {};
+    }
+};
+
+/**
+ * Mapping previously confirmed for this export format, if any.
+ */
+export const loadSpreadsheetMapping = (signature: string): SpreadsheetColumnMapping | null => {
+    return loadSavedMappings()[signature]?.mapping || null;
+};
+
+export const saveSpreadsheetMapping = (signature: string, mapping: SpreadsheetColumnMapping) => {
+    const all = loadSavedMappings();
+    all[signature] = { mapping, updatedAt: new Date().toISOString() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+export const readSpreadsheetField = (
+    data: SpreadsheetData,
+    row: (string | number)[],
+    mapping: SpreadsheetColumnMapping,
+    field: SpreadsheetField
+): string => {
+    const header = mapping[field];
+    if (!header) return '';
+    const index = data.headers.indexOf(header);
+    return index === -1 ? '' : formatCell(row[index], field);
+};
+
+const normalizeTime = (value: string) => {
+    const match = value.match(/(\d{1,2})[:hH](\d{2})/);
+    return match ? `${pad(Number(match[1]))}:${match[2]}` : value;
+};
+
+/**
+ * Applies the column mapping to the sheet rows. The output feeds the same result builder as the PDF path.
+ */
+export const spreadsheetToAppointments = (data: SpreadsheetData, mapping: SpreadsheetColumnMapping): ParsedAppointment[] => {
+    return data.rows
+        .map(row => ({
+            patientName: readSpreadsheetField(data, row, mapping, 'patientName').toUpperCase(),
+            time: normalizeTime(readSpreadsheetField(data, row, mapping, 'time')),
+            contact: formatContact(readSpreadsheetField(data, row, mapping, 'contact')),
+            status: readSpreadsheetField(data, row, mapping, 'status'),
+            doctor: readSpreadsheetField(data, row, mapping, 'doctorName') || undefined,
+            date: readSpreadsheetField(data, row, mapping, 'date') || undefined,
+            procedure: readSpreadsheetField(data, row, mapping, 'procedure') || undefined,
+            insurance: readSpreadsheetField(data, row, mapping, 'insurance') || undefined
+        }))
+        .filter(appt => appt.patientName && appt.time);
+};
@@ -0,0 +1,121 @@
+import { ContactItem, ContactType, UnitData } from "../types";
+
+const STORAGE_KEY = 'mediportal_units_info';
+
+// Fired on window whenever the unit boards are saved, so open pages refresh their contacts
+export const UNITS_UPDATED_EVENT = 'mediportal-units-updated';
+
+// --- Default Data (Initial Seed) ---
+export const INITIAL_UNITS: Record<string, UnitData> = {
+    CDU: {
+        id: 'CDU',
+        title: 'CDU – CENTRO DE DIAGNÓSTICO UNIMED',
+        displayName: 'Centro de Diagnóstico Unimed (CDU)',
+        items: [
+            { id: '1', type: 'address', value: 'Rua Agenor Meira, 12-34 - Centro, Bauru/SP' },
+            { id: '2', type: 'phone', label: 'CONSULTAS', value: '(14) 3235-3350 / 2106-3350', useInMessages: true },
+            { id: '3', type: 'phone', label: 'EXAMES', value: '(14) 3235-3360 / 2106-3360' },
+            { id: '4', type: 'whatsapp', label: 'WHATSAPP ANESTESIA / CASSI', value: '(14) 99796-2690' },
+            { id: '5', type: 'whatsapp', label: 'WHATSAPP GERAL', value: '(14) 99648-4958', useInMessages: true },
+            { id: '6', type: 'floor', label: 'OFTALMOLOGIA', value: '9º andar (Oftalmologia)', useInMessages: true }
+        ]
+    },
+    SEDE: {
+        id: 'SEDE',
+        title: 'SEDE ADMINISTRATIVA',
+        displayName: 'Sede Administrativa Unimed Bauru',
+        items: [
+            { id: '1', type: 'address', value: 'Av. Dr. Arnaldo, 456 - Vila Nova' },
+            { id: '2', type: 'phone', label: 'RECEPÇÃO GERAL', value: '(14) 3100-0000' },
+            { id: '3', type: 'email', label: 'RH MÉDICO', value: 'rh.medico@unimedbauru.com.br' }
+        ]
+    },
+    GERENCIA: {
+        id: 'GERENCIA',
+        title: 'GERÊNCIA DE ATENDIMENTO',
+        items: [
+            { id: '1', type: 'phone', label: 'COORDENAÇÃO', value: 'Ramal 5544' },
+            { id: '2', type: 'whatsapp', label: 'SUPORTE TI', value: '(14) 99999-8888' },
+            { id: '3', type: 'text', label: 'HORÁRIO', value: 'Seg-Sex: 08h às 18h' }
+        ]
+    }
+};
+
+/**
+ * Loads the unit boards. Boards saved before floors/display names existed
+ * get them from the seed, so messages keep naming the unit and floor.
+ */
+export const loadUnits = (): Record<string, UnitData> => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (!saved) return INITIAL_UNITS;
+        const units: Record<string, UnitData> = JSON.parse(saved);
+        for (const [key, seed] of Object.entries(INITIAL_UNITS)) {
+            const unit = units[key];
+            if (!unit) continue;
+            if (unit.displayName === undefined && seed.displayName) unit.displayName = seed.displayName;
+            if (!unit.items.some(i => i.type === 'floor')) {
+                unit.items = [...unit.items, ...seed.items.filter(i => i.type === 'floor')];
+            }
+        }
+        return units;
+    } catch (e) {
+        console.error('Error loading units:', e);
+        return INITIAL_UNITS;
+    }
+};
+
+export const saveUnits = (units: Record<string, UnitData>) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(units));
+    window.dispatchEvent(new Event(UNITS_UPDATED_EVENT));
+};
+
+// Values the message templates read from a unit board
+export interface UnitTemplateValues {
+    unidade?: string;
+    andar?: string;
+    endereco?: string;
+    telefone?: string;
+    whatsapp?: string;
+}
+
+// Item flagged for messages, otherwise the first one of the type
+const pickItem = (unit: UnitData, type: ContactType): ContactItem | undefined => {
+    const items = unit.items.filter(i => i.type === type && i.value.trim());
+    return items.find(i => i.useInMessages) || items[0];
+};
+
+/**
+ * Resolves the unit placeholders. A specific floor item can be chosen, otherwise the preferred one is used.
+ */
+export const getUnitTemplateValues = (unit: UnitData, floorItemId?: string): UnitTemplateValues => {
+    const floor = (floorItemId && unit.items.find(i => i.id === floorItemId && i.type === 'floor')) || pickItem(unit, 'floor');
+    return {
+        unidade: unit.displayName || unit.title,
+        andar: floor?.value || '',
+        endereco: pickItem(unit, 'address')?.value || '',
+        telefone: pickItem(unit, 'phone')?.value || '',
+        whatsapp: pickItem(unit, 'whatsapp')?.value || ''
+    };
+};
+
+export const DEFAULT_UNIT_VALUES: UnitTemplateValues = getUnitTemplateValues(INITIAL_UNITS.CDU);
+
+// Select options for AgendaAI: each unit, plus each of its floors. Value is "UNIT" or "UNIT:floorItemId".
+export const listUnitMessageOptions = (units: Record<string, UnitData>): { value: string, label: string }[] => {
+    const options: { value: string, label: string }[] = [];
+    for (const [key, unit] of Object.entries(units)) {
+        const name = unit.displayName || unit.title;
+        options.push({ value: key, label: name });
+        for (const floor of unit.items.filter(i => i.type === 'floor' && i.value.trim())) {
+            options.push({ value: `${key}:${floor.id}`, label: `${name} – ${floor.value}` });
+        }
+    }
+    return options;
+};
+
+export const resolveUnitMessageOption = (units: Record<string, UnitData>, value: string): UnitTemplateValues => {
+    const [key, floorId] = value.split(':');
+    const unit = units[key];
+    return unit ? getUnitTemplateValues(unit, floorId) : DEFAULT_UNIT_VALUES;
+};
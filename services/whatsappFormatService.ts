@@ -0,0 +1,252 @@
+// --- WHATSAPP MARKUP ---
+// *bold*, _italic_, ~strikethrough~, ```monospace```, "- " / "1. " lists and "> " quotes,
+// following the rules WhatsApp itself uses to decide what gets formatted.
+
+export type WhatsappMarker = '*' | '_' | '~';
+
+export interface WhatsappSegment {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    strike?: boolean;
+    mono?: boolean;
+}
+
+export interface WhatsappLine {
+    kind: 'text' | 'bullet' | 'numbered' | 'quote';
+    marker?: string; // "1." for numbered items
+    segments: WhatsappSegment[];
+}
+
+export interface WhatsappWarning {
+    kind: 'unbalanced' | 'long';
+    message: string;
+}
+
+// Above this the message is cut in the notification and patients tend to stop reading
+export const WHATSAPP_LONG_MESSAGE_CHARS = 1000;
+
+const MARKERS: WhatsappMarker[] = ['*', '_', '~'];
+const MARKER_STYLES: Record<WhatsappMarker, keyof Omit<WhatsappSegment, 'text'>> = {
+    '*': 'bold',
+    '_': 'italic',
+    '~': 'strike'
+};
+const MARKER_NAMES: Record<WhatsappMarker, string> = {
+    '*': 'asterisco (*)',
+    '_': 'sublinhado (_)',
+    '~': 'til (~)'
+};
+
+const FENCE = '```';
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const BULLET_PREFIX = /^([*\-•])\s+/;
+const NUMBERED_PREFIX = /^(\d{1,3})[.)]\s+/;
+const QUOTE_PREFIX = /^>\s?/;
+
+type Style = Omit<WhatsappSegment, 'text'>;
+
+// A marker only opens after a non-word char and before a non-space
+const canOpen = (text: string, i: number) =>
+    (i === 0 || !WORD_CHAR.test(text[i - 1])) && i + 1 < text.length && !/\s/.test(text[i + 1]);
+
+// ...and only closes after a non-space and before a non-word char
+const canClose = (text: string, i: number) =>
+    i > 0 && !/\s/.test(text[i - 1]) && (i + 1 === text.length || !WORD_CHAR.test(text[i + 1]));
+
+const isMarker = (char: string): char is WhatsappMarker => (MARKERS as string[]).includes(char);
+
+/**
+ * Formatted segments of one line (markers never span lines). `stray` collects the markers
+ * left as plain text that look like the start or end of a formatting.
+ */
+const parseInline = (text: string, style: Style, stray: WhatsappMarker[]): WhatsappSegment[] => {
+    const segments: WhatsappSegment[] = [];
+    let plain = '';
+    const flush = () => {
+        if (plain) segments.push({ text: plain, ...style });
+        plain = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (!isMarker(char)) {
+            plain += char;
+            continue;
+        }
+        if (canOpen(text, i)) {
+            let close = -1;
+            for (let j = i + 2; j < text.length; j++) {
+                if (text[j] === char && canClose(text, j)) {
+                    close = j;
+                    break;
+                }
+            }
+            if (close > 0) {
+                flush();
+                segments.push(...parseInline(text.slice(i + 1, close), { ...style, [MARKER_STYLES[char]]: true }, stray));
+                i = close;
+                continue;
+            }
+        }
+        if (canOpen(text, i) || canClose(text, i)) stray.push(char);
+        plain += char;
+    }
+    flush();
+    return segments;
+};
+
+interface RawChunk { text: string, mono: boolean }
+
+// Lines of the message, with ```monospace``` blocks (which may span lines) already cut out
+const splitLines = (text: string): RawChunk[][] => {
+    const chunks: RawChunk[] = [];
+    let rest = text;
+    while (rest) {
+        const start = rest.indexOf(FENCE);
+        const end = start >= 0 ? rest.indexOf(FENCE, start + FENCE.length) : -1;
+        if (end < 0) {
+            chunks.push({ text: rest, mono: false });
+            break;
+        }
+        if (start > 0) chunks.push({ text: rest.slice(0, start), mono: false });
+        chunks.push({ text: rest.slice(start + FENCE.length, end), mono: true });
+        rest = rest.slice(end + FENCE.length);
+    }
+
+    const lines: RawChunk[][] = [[]];
+    for (const chunk of chunks) {
+        chunk.text.split('\n').forEach((part, index) => {
+            if (index > 0) lines.push([]);
+            if (part) lines[lines.length - 1].push({ text: part, mono: chunk.mono });
+        });
+    }
+    return lines;
+};
+
+const parseLines = (text: string) =>
+    splitLines(text).map(chunks => {
+        const stray: WhatsappMarker[] = [];
+        let kind: WhatsappLine['kind'] = 'text';
+        let marker: string | undefined;
+
+        // List and quote prefixes are only read from plain text at the start of the line
+        const first = chunks[0];
+        if (first && !first.mono) {
+            const bullet = first.text.match(BULLET_PREFIX);
+            const numbered = first.text.match(NUMBERED_PREFIX);
+            const quote = first.text.match(QUOTE_PREFIX);
+            const prefix = bullet || numbered || quote;
+            if (prefix) {
+                kind = bullet ? 'bullet' : numbered ? 'numbered' : 'quote';
+                if (numbered) marker = `${numbered[1]}.`;
+                chunks = [{ text: first.text.slice(prefix[0].length), mono: false }, ...chunks.slice(1)];
+            }
+        }
+
+        const segments = chunks.flatMap(chunk => chunk.mono
+            ? [{ text: chunk.text, mono: true }]
+            : parseInline(chunk.text, {}, stray));
+        return { line: { kind, marker, segments } as WhatsappLine, stray };
+    });
+
+export const parseWhatsappMessage = (text: string): WhatsappLine[] =>
+    parseLines(text).map(entry => entry.line);
+
+/**
+ * Problems the receptionist should fix before sending: markers without a pair (shown as
+ * plain asterisks on the patient's phone) and messages too long to be read.
+ */
+export const checkWhatsappMessage = (text: string): WhatsappWarning[] => {
+    const warnings: WhatsappWarning[] = [];
+
+    parseLines(text).forEach(({ stray }, index) => {
+        for (const marker of Array.from(new Set(stray))) {
+            warnings.push({
+                kind: 'unbalanced',
+                message: `Linha ${index + 1}: ${MARKER_NAMES[marker]} sem par, vai aparecer como texto.`
+            });
+        }
+    });
+
+    if (text.split(FENCE).length % 2 === 0) {
+        warnings.push({ kind: 'unbalanced', message: 'Bloco de monoespaçado (```) aberto e não fechado.' });
+    }
+
+    if (text.length > WHATSAPP_LONG_MESSAGE_CHARS) {
+        warnings.push({
+            kind: 'long',
+            message: `Mensagem longa (${text.length} caracteres). Acima de ${WHATSAPP_LONG_MESSAGE_CHARS} o paciente tende a não ler até o fim; considere encurtar.`
+        });
+    }
+    return warnings;
+};
+
+// --- EDITING ---
+
+export interface WhatsappEdit {
+    text: string;
+    selectionStart: number;
+    selectionEnd: number;
+}
+
+/**
+ * Wraps the selection in the marker, or removes it when the selection is already wrapped.
+ * Spaces at the edges of the selection stay outside: "*texto *" is not formatted.
+ */
+export const toggleWhatsappMarker = (text: string, start: number, end: number, marker: WhatsappMarker | '```'): WhatsappEdit => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    const size = marker.length;
+
+    // Markers just outside the selection
+    if (start >= size && text.slice(start - size, start) === marker && text.slice(end, end + size) === marker) {
+        return {
+            text: text.slice(0, start - size) + text.slice(start, end) + text.slice(end + size),
+            selectionStart: start - size,
+            selectionEnd: end - size
+        };
+    }
+    // Markers selected together with the text
+    const selected = text.slice(start, end);
+    if (selected.length > size * 2 && selected.startsWith(marker) && selected.endsWith(marker)) {
+        return {
+            text: text.slice(0, start) + selected.slice(size, -size) + text.slice(end),
+            selectionStart: start,
+            selectionEnd: end - size * 2
+        };
+    }
+    return {
+        text: text.slice(0, start) + marker + selected + marker + text.slice(end),
+        selectionStart: start + size,
+        selectionEnd: end + size
+    };
+};
+
+/**
+ * Turns the selected lines into a bulleted or numbered list, or back into plain lines
+ * when all of them already are one.
+ */
+export const toggleWhatsappList = (text: string, start: number, end: number, kind: 'bullet' | 'numbered'): WhatsappEdit => {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const nextBreak = text.indexOf('\n', Math.max(end - 1, start));
+    const lineEnd = nextBreak < 0 ? text.length : nextBreak;
+    const lines = text.slice(lineStart, lineEnd).split('\n');
+    const prefix = kind === 'bullet' ? BULLET_PREFIX : NUMBERED_PREFIX;
+
+    const filled = lines.filter(line => line.trim());
+    const remove = filled.length > 0 && filled.every(line => prefix.test(line));
+    let number = 0;
+    const block = lines.map(line => {
+        if (!line.trim()) return line;
+        if (remove) return line.replace(prefix, '');
+        const bare = line.replace(BULLET_PREFIX, '').replace(NUMBERED_PREFIX, '');
+        return kind === 'bullet' ? `- ${bare}` : `${++number}. ${bare}`;
+    }).join('\n');
+
+    return {
+        text: text.slice(0, lineStart) + block + text.slice(lineEnd),
+        selectionStart: lineStart,
+        selectionEnd: lineStart + block.length
+    };
+};
@@ -0,0 +1,101 @@
+-- Shared preparation library (exam/fasting instructions used in the agenda messages).
+-- Every change is copied to preparation_versions by a trigger, so older versions can be restored.
+
+create table if not exists public.preparations (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  text text not null,
+  rules jsonb,
+  version integer not null default 1,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references public.profiles (id),
+  updated_by_name text,
+  deleted_at timestamptz
+);
+
+create table if not exists public.preparation_versions (
+  id bigint generated always as identity primary key,
+  preparation_id uuid not null references public.preparations (id) on delete cascade,
+  version integer not null,
+  title text not null,
+  text text not null,
+  rules jsonb,
+  deleted boolean not null default false,
+  created_at timestamptz not null default now(),
+  created_by uuid,
+  created_by_name text
+);
+
+create index if not exists preparation_versions_preparation_idx
+  on public.preparation_versions (preparation_id, version desc);
+
+-- Author, timestamp and version number are set by the database, not by the browser
+create or replace function public.preparations_stamp()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  new.updated_at := now();
+  new.updated_by := auth.uid();
+  new.updated_by_name := (select name from profiles where id = auth.uid());
+  if tg_op = 'UPDATE' then
+    new.version := old.version + 1;
+  else
+    new.version := 1;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.preparations_history()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  insert into preparation_versions (preparation_id, version, title, text, rules, deleted, created_at, created_by, created_by_name)
+  values (new.id, new.version, new.title, new.text, new.rules, new.deleted_at is not null, new.updated_at, new.updated_by, new.updated_by_name);
+  return new;
+end;
+$$;
+
+drop trigger if exists preparations_stamp on public.preparations;
+create trigger preparations_stamp before insert or update on public.preparations
+  for each row execute function public.preparations_stamp();
+
+drop trigger if exists preparations_history on public.preparations;
+create trigger preparations_history after insert or update on public.preparations
+  for each row execute function public.preparations_history();
+
+-- Everyone signed in reads the library; only admins change it
+alter table public.preparations enable row level security;
+alter table public.preparation_versions enable row level security;
+
+drop policy if exists "preparations_read" on public.preparations;
+create policy "preparations_read" on public.preparations
+  for select to authenticated using (true);
+
+drop policy if exists "preparations_admin_write" on public.preparations;
+create policy "preparations_admin_write" on public.preparations
+  for all to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and is_admin))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and is_admin));
+
+drop policy if exists "preparation_versions_read" on public.preparation_versions;
+create policy "preparation_versions_read" on public.preparation_versions
+  for select to authenticated using (true);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'preparations'
+  ) then
+    alter publication supabase_realtime add table public.preparations;
+  end if;
+end;
+$$;
+
+-- Starting library (same defaults the app used to create in each browser)
+insert into public.preparations (title, text)
+select * from (values
+  ('Jejum 8h', 'Necessário jejum absoluto de 8 horas (inclusive água).'),
+  ('Bexiga Cheia', 'Tomar 4 copos de água 1 hora antes do exame e não urinar.'),
+  ('Chegar com Antecedência', 'Chegar com 30 minutos de antecedência para dilatação da pupila.')
+) as defaults (title, text)
+where not exists (select 1 from public.preparations);
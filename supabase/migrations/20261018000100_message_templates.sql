@@ -0,0 +1,50 @@
+-- Patient message templates edited by admins, shared by every user.
+-- Only edited templates have a row; the others use the built-in text of the app.
+
+create table if not exists public.message_templates (
+  id text primary key check (id in ('reschedule', 'confirmation', 'procedure_confirmation')),
+  body text not null,
+  name_format text,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references public.profiles (id),
+  updated_by_name text
+);
+
+-- Author and timestamp are set by the database, not by the browser
+create or replace function public.message_templates_stamp()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  new.updated_at := now();
+  new.updated_by := auth.uid();
+  new.updated_by_name := (select name from profiles where id = auth.uid());
+  return new;
+end;
+$$;
+
+drop trigger if exists message_templates_stamp on public.message_templates;
+create trigger message_templates_stamp before insert or update on public.message_templates
+  for each row execute function public.message_templates_stamp();
+
+-- Everyone signed in reads the templates; only admins change them
+alter table public.message_templates enable row level security;
+
+drop policy if exists "message_templates_read" on public.message_templates;
+create policy "message_templates_read" on public.message_templates
+  for select to authenticated using (true);
+
+drop policy if exists "message_templates_admin_write" on public.message_templates;
+create policy "message_templates_admin_write" on public.message_templates
+  for all to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and is_admin))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and is_admin));
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'message_templates'
+  ) then
+    alter publication supabase_realtime add table public.message_templates;
+  end if;
+end;
+$$;
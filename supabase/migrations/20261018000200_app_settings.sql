@@ -0,0 +1,42 @@
+-- Settings that apply to every user (e.g. privacy mode required by an admin).
+-- Kept in the database so a user cannot turn them off from the browser.
+
+create table if not exists public.app_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references public.profiles (id),
+  updated_by_name text
+);
+
+-- Author and timestamp are set by the database, not by the browser
+create or replace function public.app_settings_stamp()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  new.updated_at := now();
+  new.updated_by := auth.uid();
+  new.updated_by_name := (select name from profiles where id = auth.uid());
+  return new;
+end;
+$$;
+
+drop trigger if exists app_settings_stamp on public.app_settings;
+create trigger app_settings_stamp before insert or update on public.app_settings
+  for each row execute function public.app_settings_stamp();
+
+-- Everyone signed in reads the settings; only admins change them
+alter table public.app_settings enable row level security;
+
+drop policy if exists "app_settings_read" on public.app_settings;
+create policy "app_settings_read" on public.app_settings
+  for select to authenticated using (true);
+
+drop policy if exists "app_settings_admin_write" on public.app_settings;
+create policy "app_settings_admin_write" on public.app_settings
+  for all to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and is_admin))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and is_admin));
+
+insert into public.app_settings (key, value)
+values ('privacy_enforced', 'false'::jsonb)
+on conflict (key) do nothing;
@@ -0,0 +1,46 @@
+-- Free slots promised to patients by the reschedule assistant, shared by every receptionist.
+-- The primary key keeps a slot from being offered to two patients at once.
+
+create table if not exists public.slot_reservations (
+  slot_id text primary key, -- Normalized "DOCTOR|DATE|TIME" of the LIVRE row
+  date text not null,
+  time text not null,
+  appointment_key text not null unique, -- One slot per appointment
+  patient_name text not null,
+  reserved_at timestamptz not null default now(),
+  reserved_by uuid references public.profiles (id),
+  reserved_by_name text
+);
+
+-- Author and timestamp are set by the database, not by the browser
+create or replace function public.slot_reservations_stamp()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  new.reserved_at := now();
+  new.reserved_by := auth.uid();
+  new.reserved_by_name := (select name from profiles where id = auth.uid());
+  return new;
+end;
+$$;
+
+drop trigger if exists slot_reservations_stamp on public.slot_reservations;
+create trigger slot_reservations_stamp before insert or update on public.slot_reservations
+  for each row execute function public.slot_reservations_stamp();
+
+-- Every receptionist signed in reserves and releases slots
+alter table public.slot_reservations enable row level security;
+
+drop policy if exists "slot_reservations_all" on public.slot_reservations;
+create policy "slot_reservations_all" on public.slot_reservations
+  for all to authenticated using (true) with check (true);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'slot_reservations'
+  ) then
+    alter publication supabase_realtime add table public.slot_reservations;
+  end if;
+end;
+$$;
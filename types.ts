@@ -119,26 +119,83 @@ export interface Note {
   audience?: 'all' | 'reception' | 'doctor';
 }
 
+// OCR confidence (0-100) per extracted field, only present when the text came from OCR
+export type FieldConfidence = Partial<Record<'patientName' | 'doctorName' | 'date' | 'time' | 'procedure' | 'contact', number>>;
+
 export interface ExtractedData {
-  patientName: string;
+  patientName: string; // As used in the message (see PatientNameFormat)
+  rawPatientName?: string; // Full name as read from the agenda, for reconciliation
   doctorName: string;
   date: string;
   time: string;
   procedure: string;
   contact: string;
+  status?: string; // Status printed in the agenda (Agendado, Confirmado, Cancelado...)
+  confidence?: FieldConfidence;
+  procedureDetails?: ProcedureDetails; // Procedure confirmations only
+}
+
+// Guia (insurer authorization) of a procedure
+export type ProcedureAuthorization = 'authorized' | 'pending' | 'not_required' | 'unknown';
+
+// What the patient must know for a procedure/exam, beyond the appointment itself
+export interface ProcedureDetails {
+  arrivalOffsetMinutes: number; // Arrive this long before the procedure time (0 = on time)
+  companionRequired: boolean; // Sedation, pupil dilation... the patient cannot leave alone
+  authorization: ProcedureAuthorization;
+  guideNumber?: string; // Number of the guia, when printed in the agenda
+}
+
+// When a preparation applies to an agenda row. Empty lists match anything; a preparation without rules is only applied by hand.
+export interface PreparationRules {
+  procedures: string[]; // Keywords searched in the row's procedure ("COLONOSCOPIA", "USG ABDOMEN")
+  doctors: string[];
+  specialties: string[]; // Specialty of the doctor in the Professionals list
 }
 
 export interface Preparation {
   id: string;
   title: string;
   text: string;
+  rules?: PreparationRules;
+  version?: number; // Shared library (Supabase) only
+  updatedAt?: string;
+  updatedBy?: string; // Author name
+  deletedAt?: string; // Removed from the library (soft delete), restorable
+}
+
+// One saved state of a preparation, restorable by admins
+export interface PreparationVersion {
+  id: number;
+  preparationId: string;
+  version: number;
+  title: string;
+  text: string;
+  rules?: PreparationRules;
+  deleted: boolean;
+  createdAt: string;
+  createdBy?: string;
+}
+
+// How the preparation of a batch row was chosen
+export interface PreparationAssignment {
+  preparationId: string | null;
+  source: 'rule' | 'fallback' | 'manual' | 'none'; // fallback = batch-wide selection used because no rule matched
 }
 
 export interface DocumentAnalysisResult {
   extractedData: ExtractedData;
   generatedMessage: string;
+  warnings?: string[]; // Things the receptionist should double-check before sending
+  engine?: AnalysisEngine; // What produced this row
+  preparation?: PreparationAssignment;
+  newSlot?: { date: string, time: string }; // Reschedule assistant: slot offered in the message instead of the agenda's date/time
+  sourceFile?: string; // Name of the uploaded file the row was read from (multi-file batches)
 }
 
+// Readers that can produce analysis results (AI, local parser, offline mock or a mapped spreadsheet)
+export type AnalysisEngine = 'local' | 'gemini' | 'mock' | 'spreadsheet';
+
 // --- SCRIPTS MODULE TYPES ---
 export interface ScriptCategory {
   id: string;
@@ -152,4 +209,146 @@ export interface Script {
   title: string;
   content: string;
   order: number; // For manual ordering (1, 2, 3...)
-}
\ No newline at end of file
+}
+// --- UNIT CONTACT BOARDS ---
+export type ContactType = 'address' | 'phone' | 'whatsapp' | 'email' | 'text' | 'floor';
+
+export interface ContactItem {
+  id: string;
+  type: ContactType;
+  label?: string; // e.g., "CONSULTAS", "EXAMES"
+  value: string;  // e.g., "(14) 3235-3350"
+  useInMessages?: boolean; // Preferred item of its type for patient messages
+}
+
+export interface UnitData {
+  id: string;
+  title: string;
+  displayName?: string; // Name used in patient messages, e.g. "Centro de Diagnóstico Unimed (CDU)"
+  items: ContactItem[];
+}
+
+// --- AGENDA LAYOUT PROFILES ---
+export type AgendaColumn = 'time' | 'patient' | 'event' | 'insurance' | 'contact' | 'status';
+
+export interface AgendaLayoutProfile {
+  id: string;
+  name: string;
+  columns: AgendaColumn[]; // Printed order, left to right
+  columnHeaders: Record<AgendaColumn, string[]>; // Header labels used to locate each column's x band
+  statusKeywords: string[];
+  insuranceKeywords: string[];
+  eventKeywords: string[];
+  junkTerms: string[]; // Terms never accepted as part of a patient name
+  ignoredLines: string[]; // Lines containing any of these are skipped (headers/footers)
+  stampTerms: string[]; // Print stamps ("Impresso em") whose dates are not section headers
+  doctorHeaderPattern: string; // Regex source, last capture group = doctor name
+  dateHeaderPattern: string; // Regex source, first capture group = date
+  isDefault?: boolean; // Built-in profile, read-only
+}
+
+// --- MESSAGE TEMPLATES ---
+export type MessageTemplateType = 'reschedule' | 'confirmation' | 'procedure_confirmation';
+
+export interface MessageTemplate {
+  id: MessageTemplateType;
+  name: string;
+  body: string; // Placeholders like {paciente}, conditional blocks {#preparo}...{/preparo}
+  nameFormat?: PatientNameFormat;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// How the patient's name is written in the messages
+export type PatientNameFormat = 'full' | 'first' | 'first_last';
+
+// --- OUTREACH (CONFIRMATION CAMPAIGNS) ---
+export type OutreachStatus = 'not_sent' | 'sent' | 'confirmed' | 'reschedule' | 'cancelled' | 'no_answer' | 'wrong_number';
+
+export interface OutreachEvent {
+  status: OutreachStatus;
+  at: string; // ISO timestamp
+  by: string; // Receptionist who acted
+  note?: string;
+}
+
+export interface OutreachEntry {
+  id: string; // Appointment key (date|time|doctor|patient)
+  result: DocumentAnalysisResult; // Extracted data + message as generated
+  status: OutreachStatus;
+  history: OutreachEvent[];
+}
+
+export interface OutreachCampaign {
+  id: string;
+  name: string;
+  type: 'reschedule' | 'confirmation' | 'procedure_confirmation';
+  createdAt: string;
+  createdBy: string;
+  sourceFile?: string;
+  entries: OutreachEntry[];
+  closedAt?: string; // Closed campaigns can be reopened (e.g. the next morning)
+}
+
+// --- WHATSAPP SEND QUEUE ---
+export type SendQueueItemState = 'pending' | 'sent' | 'skipped' | 'invalid';
+
+export interface SendQueueItem {
+  id: string; // appointmentKey of the result
+  result: DocumentAnalysisResult; // Copy of the row, so the queue survives a page reload
+  state: SendQueueItemState;
+  at?: string; // When it was sent or skipped
+}
+
+// Batch being sent one patient at a time (replaces the timed popups of "Enviar Todas")
+export interface SendQueue {
+  id: string;
+  type: 'reschedule' | 'confirmation' | 'procedure_confirmation';
+  campaignId?: string; // Outreach campaign updated as rows are sent
+  createdAt: string;
+  createdBy: string;
+  items: SendQueueItem[];
+  paused: boolean;
+}
+
+// --- AGENDA SNAPSHOTS (VERSION DIFF) ---
+export interface AgendaSnapshotEntry {
+  patientName: string; // Full name as read from the agenda
+  time: string;
+  status: string;
+  contact?: string;
+  procedure?: string;
+}
+
+// One parsed agenda of a doctor/day, kept to compare with the next upload of the same agenda
+export interface AgendaSnapshot {
+  id: string; // Normalized "DOCTOR|DATE"
+  doctor: string;
+  date: string;
+  createdAt: string;
+  createdBy: string;
+  sourceFile?: string;
+  appointments: AgendaSnapshotEntry[];
+  freeSlots: string[]; // Times of the LIVRE rows
+  freeSlotsUnknown?: boolean; // Built from AI results, which do not list the LIVRE rows
+}
+
+// --- RESCHEDULE ASSISTANT ---
+// "LIVRE" slot of a stored agenda snapshot
+export interface FreeSlot {
+  id: string; // Snapshot id + time
+  doctor: string;
+  date: string;
+  time: string;
+}
+
+// Slot promised to a patient, so it is not offered to anyone else
+export interface SlotReservation {
+  slotId: string;
+  date: string;
+  time: string;
+  appointmentKey: string;
+  patientName: string;
+  reservedAt: string;
+  reservedBy: string;
+}
@@ -2,6 +2,12 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Tesseract fetches `${langPath}/por.traineddata.gz`, so the OCR model keeps its file name
+const ocrAssetFileNames = (asset: { names: string[] }) =>
+    asset.names.some(name => name.endsWith('.traineddata.gz'))
+      ? 'assets/tessdata/[name][extname]'
+      : 'assets/[name]-[hash][extname]';
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -10,8 +16,19 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // The agenda reader worker imports pdfjs, which needs ES module output (code splitting)
+      worker: {
+        format: 'es',
+        rollupOptions: {
+          output: { assetFileNames: ocrAssetFileNames },
+        },
+      },
+      build: {
+        rollupOptions: {
+          output: { assetFileNames: ocrAssetFileNames },
+        },
+      },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },
       resolve: {